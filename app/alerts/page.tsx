@@ -0,0 +1,429 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { supabase } from '@/lib/supabaseClient';
+import {
+  ALERT_CONDITION_LABELS,
+  ALERT_SCOPE_LABELS,
+  AlertCondition,
+  AlertRule,
+  AlertScope,
+  describeAlertRule,
+  ValuationAlert,
+} from '@/lib/alerts';
+import { DEFAULT_REPORTING_CURRENCY } from '@/lib/fx';
+import { DEFAULT_LOCALE } from '@/lib/money';
+import { loadUserSettings, SUPPORTED_CURRENCIES } from '@/lib/userSettings';
+
+type AssetOption = {
+  id: string;
+  title: string | null;
+};
+
+function formatDateTime(value: string, locale: string) {
+  return new Date(value).toLocaleString(locale, {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export default function AlertsPage() {
+  const router = useRouter();
+
+  const [alerts, setAlerts] = useState<ValuationAlert[]>([]);
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [assets, setAssets] = useState<AssetOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [locale, setLocale] = useState(DEFAULT_LOCALE);
+
+  // New-rule form
+  const [scope, setScope] = useState<AlertScope>('any_asset');
+  const [assetId, setAssetId] = useState('');
+  const [condition, setCondition] = useState<AlertCondition>('change_pct');
+  const [threshold, setThreshold] = useState('10');
+  const [ruleCurrency, setRuleCurrency] = useState(DEFAULT_REPORTING_CURRENCY);
+  const [savingRule, setSavingRule] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) {
+        router.push('/login');
+        return;
+      }
+
+      const [alertsRes, rulesRes, assetsRes, settings] = await Promise.all([
+        supabase
+          .from('valuation_alerts')
+          .select('*')
+          .eq('owner_id', user.id)
+          .order('created_at', { ascending: false })
+          .limit(100),
+        supabase
+          .from('valuation_alert_rules')
+          .select('*')
+          .eq('owner_id', user.id)
+          .order('created_at', { ascending: true }),
+        supabase
+          .from('assets')
+          .select('id, title')
+          .eq('owner_id', user.id)
+          .order('title', { ascending: true }),
+        loadUserSettings(supabase, user.id),
+      ]);
+
+      if (alertsRes.error || rulesRes.error) {
+        console.error(alertsRes.error || rulesRes.error);
+        setError('Could not load your alerts.');
+      }
+
+      setAlerts((alertsRes.data || []) as ValuationAlert[]);
+      setRules((rulesRes.data || []) as AlertRule[]);
+      setAssets((assetsRes.data || []) as AssetOption[]);
+      setRuleCurrency(settings.base_currency);
+      setLocale(settings.locale);
+      setLoading(false);
+    };
+
+    load();
+  }, [router]);
+
+  const assetTitle = (id: string | null) =>
+    assets.find((a) => a.id === id)?.title ?? null;
+
+  const unreadCount = alerts.filter((a) => !a.read_at).length;
+
+  const handleMarkRead = async (ids: string[]) => {
+    if (ids.length === 0) return;
+    const readAt = new Date().toISOString();
+
+    const { error } = await supabase
+      .from('valuation_alerts')
+      .update({ read_at: readAt })
+      .in('id', ids);
+
+    if (error) {
+      console.error(error);
+      setError('Could not update alerts.');
+      return;
+    }
+
+    setAlerts((prev) =>
+      prev.map((a) => (ids.includes(a.id) ? { ...a, read_at: readAt } : a))
+    );
+  };
+
+  const handleAddRule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const value = Number(threshold);
+    if (!Number.isFinite(value) || value <= 0) {
+      setError('Enter a threshold above zero.');
+      return;
+    }
+    if (scope === 'asset' && !assetId) {
+      setError('Choose which asset this rule watches.');
+      return;
+    }
+
+    setSavingRule(true);
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      router.push('/login');
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('valuation_alert_rules')
+      .insert({
+        owner_id: user.id,
+        scope,
+        asset_id: scope === 'asset' ? assetId : null,
+        condition,
+        threshold: value,
+        currency: ruleCurrency,
+      })
+      .select('*')
+      .maybeSingle();
+
+    setSavingRule(false);
+
+    if (error || !data) {
+      console.error(error);
+      setError(error?.message || 'Could not save alert rule.');
+      return;
+    }
+
+    setRules((prev) => [...prev, data as AlertRule]);
+    setThreshold(condition === 'change_pct' ? '10' : '');
+  };
+
+  const handleToggleRule = async (rule: AlertRule) => {
+    const { error } = await supabase
+      .from('valuation_alert_rules')
+      .update({ enabled: !rule.enabled })
+      .eq('id', rule.id);
+
+    if (error) {
+      console.error(error);
+      setError('Could not update alert rule.');
+      return;
+    }
+
+    setRules((prev) =>
+      prev.map((r) => (r.id === rule.id ? { ...r, enabled: !r.enabled } : r))
+    );
+  };
+
+  const handleDeleteRule = async (ruleId: string) => {
+    const { error } = await supabase
+      .from('valuation_alert_rules')
+      .delete()
+      .eq('id', ruleId);
+
+    if (error) {
+      console.error(error);
+      setError('Could not delete alert rule.');
+      return;
+    }
+
+    setRules((prev) => prev.filter((r) => r.id !== ruleId));
+  };
+
+  if (loading) return <div className="p-6">Loading…</div>;
+
+  return (
+    <div className="space-y-4 p-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-semibold">Valuation alerts</h1>
+        <button
+          className="text-sm text-slate-600 hover:text-slate-900"
+          onClick={() => router.push('/dashboard')}
+        >
+          ← Back to portfolio
+        </button>
+      </div>
+
+      {error && (
+        <div className="rounded border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+          {error}
+        </div>
+      )}
+
+      {/* Alerts */}
+      <div className="rounded border bg-white p-4 text-sm">
+        <div className="mb-3 flex items-center justify-between">
+          <p className="font-medium">
+            Alerts{unreadCount > 0 ? ` (${unreadCount} unread)` : ''}
+          </p>
+          {unreadCount > 0 && (
+            <button
+              className="text-xs text-slate-600 hover:text-slate-900"
+              onClick={() =>
+                handleMarkRead(alerts.filter((a) => !a.read_at).map((a) => a.id))
+              }
+            >
+              Mark all as read
+            </button>
+          )}
+        </div>
+
+        {alerts.length === 0 ? (
+          <p className="text-xs text-slate-500">
+            No alerts yet. Round checks your rules every time an asset is
+            revalued.
+          </p>
+        ) : (
+          <ul className="divide-y">
+            {alerts.map((alert) => (
+              <li
+                key={alert.id}
+                className="flex items-start justify-between gap-3 py-2"
+              >
+                <div>
+                  <p
+                    className={
+                      alert.read_at ? 'text-slate-600' : 'font-medium'
+                    }
+                  >
+                    {!alert.read_at && (
+                      <span className="mr-2 inline-block h-2 w-2 rounded-full bg-red-500" />
+                    )}
+                    {alert.message}
+                  </p>
+                  <p className="text-[11px] text-slate-500">
+                    {formatDateTime(alert.created_at, locale)}
+                    {alert.currency ? ` · ${alert.currency}` : ''}
+                  </p>
+                </div>
+                <div className="flex shrink-0 gap-2 text-xs">
+                  {alert.asset_id && alert.scope !== 'portfolio' && (
+                    <button
+                      className="underline"
+                      onClick={() => router.push(`/assets/${alert.asset_id}`)}
+                    >
+                      View asset
+                    </button>
+                  )}
+                  {!alert.read_at && (
+                    <button
+                      className="text-slate-600 hover:text-slate-900"
+                      onClick={() => handleMarkRead([alert.id])}
+                    >
+                      Mark read
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Rules */}
+      <div className="rounded border bg-slate-50 p-4 text-sm">
+        <p className="mb-3 font-medium">Alert rules</p>
+
+        {rules.length === 0 ? (
+          <p className="mb-3 text-xs text-slate-500">
+            You have no alert rules yet.
+          </p>
+        ) : (
+          <ul className="mb-3 space-y-2">
+            {rules.map((rule) => (
+              <li
+                key={rule.id}
+                className="flex items-center justify-between rounded border bg-white px-3 py-2"
+              >
+                <span className={rule.enabled ? '' : 'text-slate-400'}>
+                  {describeAlertRule(rule, assetTitle(rule.asset_id), locale)}
+                </span>
+                <div className="flex gap-3 text-xs">
+                  <button
+                    className="text-slate-600 hover:text-slate-900"
+                    onClick={() => handleToggleRule(rule)}
+                  >
+                    {rule.enabled ? 'Pause' : 'Resume'}
+                  </button>
+                  <button
+                    className="text-red-600 hover:text-red-800"
+                    onClick={() => handleDeleteRule(rule.id)}
+                  >
+                    Delete
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <form
+          onSubmit={handleAddRule}
+          className="flex flex-wrap items-end gap-2 text-xs"
+        >
+          <label className="space-y-1">
+            <span className="block text-slate-600">Watch</span>
+            <select
+              value={scope}
+              onChange={(e) => setScope(e.target.value as AlertScope)}
+              className="rounded border px-2 py-1.5"
+            >
+              {(Object.keys(ALERT_SCOPE_LABELS) as AlertScope[]).map((s) => (
+                <option key={s} value={s}>
+                  {ALERT_SCOPE_LABELS[s]}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          {scope === 'asset' && (
+            <label className="space-y-1">
+              <span className="block text-slate-600">Asset</span>
+              <select
+                value={assetId}
+                onChange={(e) => setAssetId(e.target.value)}
+                className="rounded border px-2 py-1.5"
+              >
+                <option value="">Choose…</option>
+                {assets.map((a) => (
+                  <option key={a.id} value={a.id}>
+                    {a.title || 'Untitled asset'}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+
+          <label className="space-y-1">
+            <span className="block text-slate-600">When it</span>
+            <select
+              value={condition}
+              onChange={(e) => setCondition(e.target.value as AlertCondition)}
+              className="rounded border px-2 py-1.5"
+            >
+              {(Object.keys(ALERT_CONDITION_LABELS) as AlertCondition[]).map(
+                (c) => (
+                  <option key={c} value={c}>
+                    {ALERT_CONDITION_LABELS[c]}
+                  </option>
+                )
+              )}
+            </select>
+          </label>
+
+          <label className="space-y-1">
+            <span className="block text-slate-600">
+              {condition === 'change_pct' ? 'Percent' : 'Amount'}
+            </span>
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={threshold}
+              onChange={(e) => setThreshold(e.target.value)}
+              className="w-28 rounded border px-2 py-1.5"
+            />
+          </label>
+
+          {(condition !== 'change_pct' || scope === 'portfolio') && (
+            <label className="space-y-1">
+              <span className="block text-slate-600">Currency</span>
+              <select
+                value={ruleCurrency}
+                onChange={(e) => setRuleCurrency(e.target.value)}
+                className="rounded border px-2 py-1.5"
+              >
+                {SUPPORTED_CURRENCIES.map((c) => (
+                  <option key={c} value={c}>
+                    {c}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+
+          <button
+            type="submit"
+            disabled={savingRule}
+            className="rounded bg-black px-3 py-1.5 font-medium text-white disabled:bg-slate-500"
+          >
+            {savingRule ? 'Saving…' : 'Add rule'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import { after, NextResponse } from 'next/server';
+import {
+  createAdminSupabase,
+  getRequestSupabase,
+} from '@/lib/supabaseServer';
+import { enqueueReceiptJob, runReceiptJobs } from '@/lib/receipts/jobQueue';
+
+// POST /api/assets/:id/receipt-extraction – queue a read of the asset's
+// receipt (PDF text, or OCR for photos and scans). Responds 202 with the
+// pending receipt_ai_jobs row; the page polls it until it finishes.
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  const auth = await getRequestSupabase(req);
+  if (!auth) {
+    return NextResponse.json({ error: 'Not signed in.' }, { status: 401 });
+  }
+
+  const { data: asset, error: assetError } = await auth.supabase
+    .from('assets')
+    .select('id, owner_id, receipt_url')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (assetError || !asset || asset.owner_id !== auth.user.id) {
+    return NextResponse.json(
+      { error: 'This asset could not be found.' },
+      { status: 404 }
+    );
+  }
+
+  if (!asset.receipt_url) {
+    return NextResponse.json(
+      { error: 'Attach a receipt to this asset first.' },
+      { status: 400 }
+    );
+  }
+
+  let job: Record<string, unknown>;
+  try {
+    job = await enqueueReceiptJob(auth.supabase, asset.id, asset.receipt_url);
+  } catch (err) {
+    console.error(err);
+    return NextResponse.json(
+      {
+        error:
+          err instanceof Error ? err.message : 'Could not queue the receipt.',
+      },
+      { status: 500 }
+    );
+  }
+
+  // Start on it as soon as the response is out. Without a service role key
+  // the job waits for the /api/jobs/receipts worker instead.
+  if (job.status === 'pending') {
+    after(async () => {
+      try {
+        await runReceiptJobs(createAdminSupabase(), { jobId: String(job.id) });
+      } catch (err) {
+        console.error(err);
+      }
+    });
+  }
+
+  return NextResponse.json({ job }, { status: 202 });
+}
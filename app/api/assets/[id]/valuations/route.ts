@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import { getRequestSupabase } from '@/lib/supabaseServer';
+import {
+  loadValuationAsset,
+  runAssetValuation,
+} from '@/lib/valuation/runValuation';
+
+// POST /api/assets/:id/valuations – run the valuation engine for one asset.
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  const auth = await getRequestSupabase(req);
+  if (!auth) {
+    return NextResponse.json({ error: 'Not signed in.' }, { status: 401 });
+  }
+
+  try {
+    const asset = await loadValuationAsset(auth.supabase, id);
+    if (!asset || asset.owner_id !== auth.user.id) {
+      return NextResponse.json(
+        { error: 'This asset could not be found.' },
+        { status: 404 }
+      );
+    }
+
+    const outcome = await runAssetValuation(auth.supabase, asset, {
+      requestedBy: auth.user.id,
+      trigger: 'manual',
+    });
+
+    if (!outcome.valuation) {
+      return NextResponse.json(
+        {
+          error:
+            'Round does not have enough to estimate this asset yet. Add a purchase price and purchase date.',
+          runs: outcome.runs,
+        },
+        { status: 422 }
+      );
+    }
+
+    return NextResponse.json({
+      valuation: outcome.valuation,
+      summary: outcome.selected?.estimate?.summary ?? null,
+      runs: outcome.runs,
+    });
+  } catch (err) {
+    console.error(err);
+    return NextResponse.json(
+      {
+        error:
+          err instanceof Error ? err.message : 'Could not create valuation.',
+      },
+      { status: 500 }
+    );
+  }
+}
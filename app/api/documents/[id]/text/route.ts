@@ -0,0 +1,60 @@
+import { after, NextResponse } from 'next/server';
+import {
+  createAdminSupabase,
+  getRequestSupabase,
+} from '@/lib/supabaseServer';
+import { indexDocumentText } from '@/lib/documentText';
+
+// POST /api/documents/:id/text – read an uploaded document's text for
+// search. Called by the asset page right after an upload; responds 202 and
+// reads in the background. Without a service role key the document waits for
+// the /api/jobs/document-text worker instead.
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  const auth = await getRequestSupabase(req);
+  if (!auth) {
+    return NextResponse.json({ error: 'Not signed in.' }, { status: 401 });
+  }
+
+  const { data: doc, error: docError } = await auth.supabase
+    .from('asset_documents')
+    .select('id, owner_id')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (docError || !doc || doc.owner_id !== auth.user.id) {
+    return NextResponse.json(
+      { error: 'This document could not be found.' },
+      { status: 404 }
+    );
+  }
+
+  // A read already under way keeps its claim; the update just misses it.
+  const { error: updateError } = await auth.supabase
+    .from('asset_documents')
+    .update({ text_status: 'pending', text_error: null })
+    .eq('id', doc.id)
+    .or('text_status.is.null,text_status.neq.processing');
+
+  if (updateError) {
+    console.error(updateError);
+    return NextResponse.json(
+      { error: updateError.message || 'Could not queue the document.' },
+      { status: 500 }
+    );
+  }
+
+  after(async () => {
+    try {
+      await indexDocumentText(createAdminSupabase(), doc.id);
+    } catch (err) {
+      console.error(err);
+    }
+  });
+
+  return NextResponse.json({ status: 'pending' }, { status: 202 });
+}
@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { getRequestSupabase } from '@/lib/supabaseServer';
+import { createFxConverter, loadFxHistory, loadFxRates } from '@/lib/fx';
+
+// GET /api/fx/convert?amount=100&from=USD&to=GBP&date=2019-06-01
+// Without `date` the current rate is used.
+export async function GET(req: Request) {
+  const auth = await getRequestSupabase(req);
+  if (!auth) {
+    return NextResponse.json({ error: 'Not signed in.' }, { status: 401 });
+  }
+
+  const params = new URL(req.url).searchParams;
+  const amount = Number(params.get('amount'));
+  const from = (params.get('from') || '').toUpperCase();
+  const to = (params.get('to') || '').toUpperCase();
+  const date = params.get('date');
+
+  if (
+    !Number.isFinite(amount) ||
+    !/^[A-Z]{3}$/.test(from) ||
+    !/^[A-Z]{3}$/.test(to)
+  ) {
+    return NextResponse.json(
+      { error: 'Pass a numeric amount and three-letter from/to currencies.' },
+      { status: 400 }
+    );
+  }
+  if (date && Number.isNaN(new Date(date).getTime())) {
+    return NextResponse.json({ error: 'Invalid date.' }, { status: 400 });
+  }
+
+  try {
+    const fx = createFxConverter(
+      await loadFxRates(auth.supabase),
+      date ? await loadFxHistory(auth.supabase, [from, to], date) : []
+    );
+    const converted = date
+      ? fx.convertAt(amount, from, to, date)
+      : fx.convert(amount, from, to);
+
+    if (converted == null) {
+      return NextResponse.json(
+        {
+          error: date
+            ? `No ${from}→${to} rate on or before ${date.slice(0, 10)}.`
+            : `No ${from}→${to} rate.`,
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      amount,
+      from,
+      to,
+      date: date ? date.slice(0, 10) : null,
+      converted,
+      rate: amount === 0 ? null : converted / amount,
+    });
+  } catch (err) {
+    console.error(err);
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Could not convert.' },
+      { status: 500 }
+    );
+  }
+}
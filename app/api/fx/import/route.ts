@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { isAuthorisedJobRequest } from '@/lib/jobAuth';
+import { createAdminSupabase } from '@/lib/supabaseServer';
+import { importFxRates, parseFxCsv } from '@/lib/fx';
+
+// POST /api/fx/import?source=ecb – body is the raw CSV.
+export async function POST(req: Request) {
+  if (!isAuthorisedJobRequest(req)) {
+    return NextResponse.json({ error: 'Not authorised.' }, { status: 401 });
+  }
+
+  const source =
+    new URL(req.url).searchParams.get('source') || 'csv import';
+
+  try {
+    const text = await req.text();
+    const { rows, skipped } = parseFxCsv(text, source);
+
+    if (rows.length === 0) {
+      return NextResponse.json(
+        { error: 'No exchange rates found in this CSV.', skipped },
+        { status: 400 }
+      );
+    }
+
+    const imported = await importFxRates(createAdminSupabase(), rows);
+    return NextResponse.json({ imported, skipped });
+  } catch (err) {
+    console.error(err);
+    return NextResponse.json(
+      {
+        error:
+          err instanceof Error ? err.message : 'Could not import exchange rates.',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { isAuthorisedJobRequest } from '@/lib/jobAuth';
+import { createAdminSupabase } from '@/lib/supabaseServer';
+import {
+  DEFAULT_HPI_SERIES,
+  importHpiRows,
+  parseHpiCsv,
+} from '@/lib/valuation/hpi';
+
+// POST /api/hpi/import?series=uk_hpi – body is the raw CSV. Homes are
+// indexed against whichever series covers their region, uk_hpi first.
+export async function POST(req: Request) {
+  if (!isAuthorisedJobRequest(req)) {
+    return NextResponse.json({ error: 'Not authorised.' }, { status: 401 });
+  }
+
+  const series =
+    new URL(req.url).searchParams.get('series') || DEFAULT_HPI_SERIES;
+
+  try {
+    const text = await req.text();
+    const { rows, skipped } = parseHpiCsv(text, series);
+
+    if (rows.length === 0) {
+      return NextResponse.json(
+        { error: 'No index rows found in this CSV.', skipped },
+        { status: 400 }
+      );
+    }
+
+    const imported = await importHpiRows(createAdminSupabase(), rows);
+    return NextResponse.json({ series, imported, skipped });
+  } catch (err) {
+    console.error(err);
+    return NextResponse.json(
+      {
+        error: err instanceof Error ? err.message : 'Could not import index.',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,135 @@
+import { NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  createAdminSupabase,
+  getRequestSupabase,
+} from '@/lib/supabaseServer';
+import {
+  EmailReceipt,
+  isEmailMessage,
+  parseEmailReceipt,
+} from '@/lib/receipts/email';
+import {
+  ingestEmailReceipt,
+  tokenFromRecipients,
+} from '@/lib/receipts/ingestEmail';
+
+// Big enough for an order email with a PDF invoice attached.
+const MAX_EMAIL_BYTES = 15 * 1024 * 1024;
+
+async function readBody(req: Request): Promise<Uint8Array | null> {
+  const contentType = req.headers.get('content-type') || '';
+  if (contentType.startsWith('multipart/form-data')) {
+    const form = await req.formData();
+    const file = form.get('file');
+    if (!file || typeof file === 'string') return null;
+    return new Uint8Array(await file.arrayBuffer());
+  }
+  return new Uint8Array(await req.arrayBuffer());
+}
+
+// POST /api/inbound/email – raw RFC 822 message (or multipart `file`).
+// Signed-in users upload .eml files from settings; a local mail relay posts
+// forwarded mail with the user's inbox token, either as ?token=… or in the
+// recipient address receipts+{token}@…, e.g.
+//   curl --data-binary @order.eml \
+//     "http://localhost:3000/api/inbound/email?token=$TOKEN"
+export async function POST(req: Request) {
+  const declared = Number(req.headers.get('content-length') || 0);
+  if (declared > MAX_EMAIL_BYTES) {
+    return NextResponse.json(
+      { error: 'This email is too large (15 MB max).' },
+      { status: 413 }
+    );
+  }
+
+  const bytes = await readBody(req);
+  if (!bytes || bytes.length === 0) {
+    return NextResponse.json({ error: 'No email was sent.' }, { status: 400 });
+  }
+  if (bytes.length > MAX_EMAIL_BYTES) {
+    return NextResponse.json(
+      { error: 'This email is too large (15 MB max).' },
+      { status: 413 }
+    );
+  }
+  if (!isEmailMessage(bytes)) {
+    return NextResponse.json(
+      { error: 'This does not look like an email (.eml) file.' },
+      { status: 400 }
+    );
+  }
+
+  let supabase: SupabaseClient;
+  let userId: string;
+  // Parsed before the inbox lookup only when the recipient address is the
+  // one place the token can be; otherwise once the sender is known.
+  let email: EmailReceipt | null = null;
+
+  const auth = await getRequestSupabase(req);
+  if (auth) {
+    supabase = auth.supabase;
+    userId = auth.user.id;
+  } else {
+    let token =
+      new URL(req.url).searchParams.get('token')?.trim().toLowerCase() || null;
+    if (!token) {
+      try {
+        email = await parseEmailReceipt(bytes);
+      } catch (err) {
+        console.error(err);
+        return NextResponse.json(
+          { error: 'Could not read this email.' },
+          { status: 400 }
+        );
+      }
+      token = tokenFromRecipients(email.recipients);
+    }
+    if (!token) {
+      return NextResponse.json({ error: 'Not signed in.' }, { status: 401 });
+    }
+
+    supabase = createAdminSupabase();
+    const { data: inbox, error: inboxError } = await supabase
+      .from('receipt_inbox_tokens')
+      .select('user_id')
+      .eq('token', token)
+      .maybeSingle();
+
+    if (inboxError) {
+      console.error(inboxError);
+      return NextResponse.json(
+        { error: 'Could not look up the inbox.' },
+        { status: 500 }
+      );
+    }
+    if (!inbox) {
+      return NextResponse.json(
+        { error: 'This forwarding address is not in use.' },
+        { status: 404 }
+      );
+    }
+    userId = inbox.user_id;
+  }
+
+  try {
+    email = email ?? (await parseEmailReceipt(bytes));
+    const result = await ingestEmailReceipt(supabase, userId, email, bytes);
+    if (!result.asset_id) {
+      return NextResponse.json(
+        { error: 'This email is already being imported.' },
+        { status: 409 }
+      );
+    }
+    return NextResponse.json(result, { status: result.duplicate ? 200 : 201 });
+  } catch (err) {
+    console.error(err);
+    return NextResponse.json(
+      {
+        error:
+          err instanceof Error ? err.message : 'Could not import this email.',
+      },
+      { status: 500 }
+    );
+  }
+}
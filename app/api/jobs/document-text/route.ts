@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { isAuthorisedJobRequest } from '@/lib/jobAuth';
+import { createAdminSupabase } from '@/lib/supabaseServer';
+import {
+  DEFAULT_DOCUMENT_TEXT_BATCH_SIZE,
+  MAX_DOCUMENT_TEXT_BATCH_SIZE,
+  runDocumentTextJobs,
+} from '@/lib/documentText';
+
+// POST /api/jobs/document-text?batchSize=10 – reads the text of documents
+// that haven't been indexed for search yet (older uploads, or reads that
+// never started). Call it from cron until it reports processed: 0, e.g.
+//   curl -X POST -H "Authorization: Bearer $ROUND_JOB_SECRET" \
+//     http://localhost:3000/api/jobs/document-text
+export async function POST(req: Request) {
+  if (!isAuthorisedJobRequest(req)) {
+    return NextResponse.json({ error: 'Not authorised.' }, { status: 401 });
+  }
+
+  const raw = Number(new URL(req.url).searchParams.get('batchSize'));
+  const batchSize =
+    Number.isInteger(raw) && raw > 0
+      ? Math.min(raw, MAX_DOCUMENT_TEXT_BATCH_SIZE)
+      : DEFAULT_DOCUMENT_TEXT_BATCH_SIZE;
+
+  try {
+    const result = await runDocumentTextJobs(createAdminSupabase(), {
+      batchSize,
+    });
+    return NextResponse.json(result);
+  } catch (err) {
+    console.error(err);
+    return NextResponse.json(
+      {
+        error:
+          err instanceof Error ? err.message : 'Document text run failed.',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { isAuthorisedJobRequest } from '@/lib/jobAuth';
+import { createAdminSupabase } from '@/lib/supabaseServer';
+import {
+  DEFAULT_RECEIPT_JOB_BATCH_SIZE,
+  runReceiptJobs,
+} from '@/lib/receipts/jobQueue';
+
+// POST /api/jobs/receipts?batchSize=5 – works the receipt reading queue,
+// including retries that have come due. Call it every minute from cron, e.g.
+//   curl -X POST -H "Authorization: Bearer $ROUND_JOB_SECRET" \
+//     http://localhost:3000/api/jobs/receipts
+export async function POST(req: Request) {
+  if (!isAuthorisedJobRequest(req)) {
+    return NextResponse.json({ error: 'Not authorised.' }, { status: 401 });
+  }
+
+  const raw = Number(new URL(req.url).searchParams.get('batchSize'));
+  const batchSize =
+    Number.isInteger(raw) && raw > 0 ? raw : DEFAULT_RECEIPT_JOB_BATCH_SIZE;
+
+  try {
+    const result = await runReceiptJobs(createAdminSupabase(), { batchSize });
+    return NextResponse.json(result);
+  } catch (err) {
+    console.error(err);
+    return NextResponse.json(
+      {
+        error:
+          err instanceof Error ? err.message : 'Receipt queue run failed.',
+      },
+      { status: 500 }
+    );
+  }
+}
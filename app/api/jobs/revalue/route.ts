@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import { isAuthorisedJobRequest } from '@/lib/jobAuth';
+import { createAdminSupabase } from '@/lib/supabaseServer';
+import {
+  DEFAULT_BATCH_SIZE,
+  DEFAULT_MAX_AGE_DAYS,
+  runScheduledRevaluation,
+} from '@/lib/valuation/scheduledRevaluation';
+
+function readPositiveInt(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const n = Number(value);
+  return Number.isInteger(n) && n > 0 ? n : null;
+}
+
+// POST /api/jobs/revalue?maxAgeDays=30&batchSize=50 – called by cron, e.g.
+//   curl -X POST -H "Authorization: Bearer $ROUND_JOB_SECRET" \
+//     http://localhost:3000/api/jobs/revalue
+export async function POST(req: Request) {
+  if (!isAuthorisedJobRequest(req)) {
+    return NextResponse.json({ error: 'Not authorised.' }, { status: 401 });
+  }
+
+  const params = new URL(req.url).searchParams;
+  const maxAgeDays =
+    readPositiveInt(params.get('maxAgeDays')) ??
+    readPositiveInt(process.env.REVALUATION_MAX_AGE_DAYS) ??
+    DEFAULT_MAX_AGE_DAYS;
+  const batchSize =
+    readPositiveInt(params.get('batchSize')) ?? DEFAULT_BATCH_SIZE;
+
+  try {
+    const result = await runScheduledRevaluation(createAdminSupabase(), {
+      maxAgeDays,
+      batchSize,
+    });
+
+    if ('alreadyRunning' in result) {
+      return NextResponse.json(
+        {
+          error: 'A revaluation run is already in progress.',
+          run_id: result.alreadyRunning,
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(result);
+  } catch (err) {
+    console.error(err);
+    return NextResponse.json(
+      {
+        error: err instanceof Error ? err.message : 'Revaluation run failed.',
+      },
+      { status: 500 }
+    );
+  }
+}
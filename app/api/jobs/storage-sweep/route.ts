@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { isAuthorisedJobRequest } from '@/lib/jobAuth';
+import { createAdminSupabase } from '@/lib/supabaseServer';
+import { sweepOrphanedFiles } from '@/lib/storageSweep';
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// POST /api/jobs/storage-sweep?userId=…&remove=1 – reports stored files no
+// row references. Nothing is deleted unless remove=1; userId limits the run
+// to one account (e.g. for an erasure request). Weekly from cron, e.g.
+//   curl -X POST -H "Authorization: Bearer $ROUND_JOB_SECRET" \
+//     "http://localhost:3000/api/jobs/storage-sweep?remove=1"
+export async function POST(req: Request) {
+  if (!isAuthorisedJobRequest(req)) {
+    return NextResponse.json({ error: 'Not authorised.' }, { status: 401 });
+  }
+
+  const params = new URL(req.url).searchParams;
+  const userId = params.get('userId');
+  if (userId && !UUID.test(userId)) {
+    return NextResponse.json(
+      { error: 'userId must be a user id.' },
+      { status: 400 }
+    );
+  }
+  const remove = params.get('remove') === '1';
+
+  try {
+    const result = await sweepOrphanedFiles(createAdminSupabase(), {
+      userId,
+      remove,
+    });
+    return NextResponse.json(result);
+  } catch (err) {
+    console.error(err);
+    return NextResponse.json(
+      {
+        error: err instanceof Error ? err.message : 'Storage sweep failed.',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -11,6 +11,11 @@ import {
   useRouter,
 } from 'next/navigation';
 import { supabase } from '@/lib/supabaseClient';
+import { RECEIPTS_BUCKET } from '@/lib/storage';
+import {
+  deleteAssetWithFiles,
+  removeUnusedReceipts,
+} from '@/lib/assetDeletion';
 
 type Category = {
   id: string;
@@ -97,6 +102,9 @@ export default function EditAssetPage() {
     useState<string | null>(null);
   const [receiptFile, setReceiptFile] =
     useState<File | null>(null);
+  // Other assets split off the same receipt.
+  const [receiptShareCount, setReceiptShareCount] =
+    useState(0);
 
   const [loading, setLoading] =
     useState(true);
@@ -201,6 +209,16 @@ export default function EditAssetPage() {
       setNotesInternal(a.notes_internal || '');
       setExistingReceiptUrl(a.receipt_url);
 
+      if (a.receipt_url) {
+        const { count } = await supabase
+          .from('assets')
+          .select('id', { count: 'exact', head: true })
+          .eq('owner_id', user.id)
+          .eq('receipt_url', a.receipt_url)
+          .neq('id', a.id);
+        setReceiptShareCount(count ?? 0);
+      }
+
       setLoading(false);
     };
 
@@ -263,7 +281,7 @@ export default function EditAssetPage() {
       let receiptUrl = existingReceiptUrl;
 
       if (receiptFile) {
-        const bucket = 'receipts';
+        const bucket = RECEIPTS_BUCKET;
         const safeName = receiptFile.name.replace(
           /[^\w.\-]+/g,
           '_'
@@ -284,13 +302,8 @@ export default function EditAssetPage() {
           return;
         }
 
-        const { data: publicUrlData } =
-          supabase.storage
-            .from(bucket)
-            .getPublicUrl(path);
-
-        receiptUrl =
-          publicUrlData?.publicUrl ?? null;
+        // The bucket is private: keep the path and sign it when viewed.
+        receiptUrl = path;
       }
 
       const purchasePriceNumber =
@@ -327,6 +340,15 @@ export default function EditAssetPage() {
         receipt_url: receiptUrl,
       };
 
+      // A hand-typed estimate no longer comes from a stored valuation.
+      if (
+        currentEstimatedNumber !== asset.current_estimated_value ||
+        updates.estimate_currency !==
+          (asset.estimate_currency || asset.purchase_currency || 'GBP')
+      ) {
+        updates.current_valuation_id = null;
+      }
+
       if (isHome) {
         updates.brand = null;
         updates.model_name = null;
@@ -353,6 +375,34 @@ export default function EditAssetPage() {
         return;
       }
 
+      // A shared receipt is replaced for every asset split off it.
+      if (
+        receiptFile &&
+        existingReceiptUrl &&
+        receiptShareCount > 0
+      ) {
+        const { error: shareError } =
+          await supabase
+            .from('assets')
+            .update({ receipt_url: receiptUrl })
+            .eq('owner_id', user.id)
+            .eq('receipt_url', existingReceiptUrl);
+
+        if (shareError) {
+          console.error(shareError);
+          setError(
+            'Saved, but the other assets on this receipt still have the old file.'
+          );
+          setSaving(false);
+          return;
+        }
+      }
+
+      // The old file is gone from every asset that used it.
+      if (receiptFile && existingReceiptUrl) {
+        await removeUnusedReceipts(supabase, [existingReceiptUrl]);
+      }
+
       router.push(`/assets/${asset.id}`);
     } catch (err) {
       console.error(err);
@@ -391,14 +441,14 @@ export default function EditAssetPage() {
         return;
       }
 
-      const { error: deleteError } =
-        await supabase
-          .from('assets')
-          .delete()
-          .eq('id', asset.id)
-          .eq('owner_id', user.id);
-
-      if (deleteError) {
+      // Child rows go with the asset; its documents and (unless another
+      // asset shares it) its receipt are removed from storage.
+      try {
+        await deleteAssetWithFiles(supabase, {
+          id: asset.id,
+          receipt_url: existingReceiptUrl,
+        });
+      } catch (deleteError) {
         console.error(deleteError);
         setError('Could not delete asset.');
         return;
@@ -564,6 +614,9 @@ export default function EditAssetPage() {
                 <option value="">
                   Unknown
                 </option>
+                <option value="draft">
+                  Draft (to review)
+                </option>
                 <option value="owned">
                   Owned
                 </option>
@@ -783,6 +836,18 @@ export default function EditAssetPage() {
                 below to replace it.
               </p>
             )}
+            {existingReceiptUrl &&
+              receiptShareCount > 0 && (
+                <p className="text-[11px] text-slate-600">
+                  This receipt is shared with{' '}
+                  {receiptShareCount} other{' '}
+                  {receiptShareCount === 1
+                    ? 'asset'
+                    : 'assets'}
+                  ; a new file replaces it for
+                  them too.
+                </p>
+              )}
             <div
               onDragOver={handleReceiptDragOver}
               onDrop={handleReceiptDrop}
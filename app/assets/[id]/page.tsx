@@ -8,6 +8,51 @@ import React, {
 } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { supabase } from '@/lib/supabaseClient';
+import { authedFetch } from '@/lib/apiClient';
+import { VALUATION_ROW_COLUMNS } from '@/lib/valuation/columns';
+import { formatMoney } from '@/lib/money';
+import { formatDate } from '@/lib/dates';
+import {
+  createSignedFileUrl,
+  DOCUMENTS_BUCKET,
+  RECEIPTS_BUCKET,
+  uploadDocumentFile,
+} from '@/lib/storage';
+import { requestDocumentText } from '@/lib/documentSearch';
+import { deleteDocuments } from '@/lib/assetDeletion';
+import {
+  currentWarranty,
+  describeTimeLeft,
+  Warranty,
+  warrantyCoverage,
+  warrantyKindLabel,
+} from '@/lib/warranties';
+import AssetWarranties from '@/components/AssetWarranties';
+import KeyDocuments from '@/components/KeyDocuments';
+import AssetDocumentViewer from '@/components/AssetDocumentViewer';
+import ComparableSales, { Comparable } from '@/components/ComparableSales';
+import ReceiptRecognition from '@/components/ReceiptRecognition';
+import type { FieldSource } from '@/components/ReceiptReview';
+import type { ReceiptSibling } from '@/components/ReceiptSplitPanel';
+import type { ReceiptJob } from '@/components/ReceiptJobs';
+import ValuationHistory, {
+  ConfidenceBadge,
+  formatValueRange,
+  Valuation,
+  ValuationBreakdown,
+} from '@/components/ValuationHistory';
+import {
+  DEFAULT_USER_SETTINGS,
+  loadUserSettings,
+  UserSettings,
+} from '@/lib/userSettings';
+import {
+  DEFAULT_UPGRADE_RATES,
+  inferUpgradeType,
+  upgradeTypeLabel,
+} from '@/lib/valuation/upgradeTypes';
+import { valuationSourceLabel } from '@/lib/valuation/sources';
+import type { CategoryOption } from '@/lib/receipts/split';
 
 // Keep these loose while schema evolves
 type Asset = any;
@@ -17,13 +62,7 @@ type AssetDocument = any;
 
 type IdentityLevel = 'unknown' | 'basic' | 'good' | 'strong';
 
-type Valuation = {
-  id: string;
-  valuation_source: string | null;
-  suggested_value: number | null;
-  currency: string | null;
-  created_at: string;
-};
+
 
 type RoundLoopStatus = {
   importDone: boolean;
@@ -57,34 +96,12 @@ function isHomeCategoryName(name: string | null | undefined): boolean {
   return keywords.some((k) => lower.includes(k));
 }
 
-function formatMoney(
-  value: number | null | undefined,
-  currency: string | null | undefined
-): string {
-  if (value == null) return '—';
-  const cur = currency || 'GBP';
-  const symbol =
-    cur === 'GBP'
-      ? '£'
-      : cur === 'EUR'
-      ? '€'
-      : cur === 'USD'
-      ? '$'
-      : cur + ' ';
-  return `${symbol}${value.toLocaleString(undefined, {
-    maximumFractionDigits: 0,
-  })}`;
-}
-
-function formatDate(dateStr: string | null | undefined): string {
-  if (!dateStr) return '—';
-  try {
-    const d = new Date(dateStr);
-    if (Number.isNaN(d.getTime())) return dateStr;
-    return d.toLocaleDateString();
-  } catch {
-    return dateStr;
-  }
+// Search results link to #document-<id>, #upgrade-<id> or #service-<id>.
+// A document link opens straight into the viewer.
+function documentIdFromHash(): string | null {
+  if (typeof window === 'undefined') return null;
+  const match = window.location.hash.match(/^#document-(.+)$/);
+  return match ? decodeURIComponent(match[1]) : null;
 }
 
 function computeIdentityLevel(asset: Asset): IdentityLevel {
@@ -233,25 +250,33 @@ export default function AssetDetailPage() {
   const assetId = params?.id as string;
 
   const [asset, setAsset] = useState<Asset | null>(null);
+  const [settings, setSettings] = useState<UserSettings>(
+    DEFAULT_USER_SETTINGS
+  );
+  const locale = settings.locale;
   const [upgrades, setUpgrades] = useState<Upgrade[]>([]);
   const [services, setServices] = useState<Service[]>([]);
   const [documents, setDocuments] = useState<AssetDocument[]>([]);
+  const [warranties, setWarranties] = useState<Warranty[]>([]);
   const [valuations, setValuations] = useState<Valuation[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  // Receipt recognition (demo)
-  const [receiptJob, setReceiptJob] = useState<any | null>(null);
-  const [recognisingReceipt, setRecognisingReceipt] = useState(false);
-  const [receiptDemoMessage, setReceiptDemoMessage] = useState<string | null>(
+  // Receipt recognition
+  // Every read of this asset's receipt, newest first.
+  const [receiptJobs, setReceiptJobs] = useState<ReceiptJob[]>([]);
+  const [fieldSources, setFieldSources] = useState<FieldSource[]>([]);
+  const [receiptSiblings, setReceiptSiblings] = useState<ReceiptSibling[]>([]);
+  const [categories, setCategories] = useState<CategoryOption[]>([]);
+
+  // Valuation refresh
+  const [refreshingValuation, setRefreshingValuation] = useState(false);
+  const [valuationMessage, setValuationMessage] = useState<string | null>(
     null
   );
 
-  // Demo valuation refresh
-  const [refreshingValuation, setRefreshingValuation] = useState(false);
-  const [valuationDemoMessage, setValuationDemoMessage] = useState<
-    string | null
-  >(null);
+  // Comparable sales
+  const [comparables, setComparables] = useState<Comparable[]>([]);
 
   // Action engine (demo)
   const [selectedAction, setSelectedAction] = useState<string | null>(null);
@@ -263,6 +288,7 @@ export default function AssetDetailPage() {
   const [upgradeCost, setUpgradeCost] = useState('');
   const [upgradeCurrency, setUpgradeCurrency] = useState('GBP');
   const [upgradeProvider, setUpgradeProvider] = useState('');
+  const [upgradeType, setUpgradeType] = useState('');
   const [savingUpgrade, setSavingUpgrade] = useState(false);
   const [showAddUpgradeForm, setShowAddUpgradeForm] = useState(false);
 
@@ -278,6 +304,7 @@ export default function AssetDetailPage() {
   const [editUpgradeCost, setEditUpgradeCost] = useState('');
   const [editUpgradeCurrency, setEditUpgradeCurrency] = useState('GBP');
   const [editUpgradeProvider, setEditUpgradeProvider] = useState('');
+  const [editUpgradeType, setEditUpgradeType] = useState('');
   const [savingUpgradeEdit, setSavingUpgradeEdit] = useState(false);
 
   // Add-service form
@@ -290,11 +317,10 @@ export default function AssetDetailPage() {
   const [savingService, setSavingService] = useState(false);
   const [showAddServiceForm, setShowAddServiceForm] = useState(false);
 
-  // Asset-level doc upload
-  const [assetDocFile, setAssetDocFile] = useState<File | null>(null);
-  const [assetDocNotes, setAssetDocNotes] = useState('');
-  const [savingAssetDoc, setSavingAssetDoc] = useState(false);
-  const [showAddAssetDocForm, setShowAddAssetDocForm] = useState(false);
+  // In-page document viewer
+  const [viewerDocId, setViewerDocId] = useState<string | null>(
+    documentIdFromHash
+  );
 
   // Upgrade-level doc upload (existing upgrades)
   const [upgradeDocFile, setUpgradeDocFile] = useState<File | null>(null);
@@ -342,8 +368,12 @@ export default function AssetDetailPage() {
             purchase_date,
             current_estimated_value,
             estimate_currency,
+            current_valuation_id,
             purchase_url,
             receipt_url,
+            receipt_job_id,
+            receipt_line,
+            merchant,
             notes_internal,
             city,
             country,
@@ -355,6 +385,8 @@ export default function AssetDetailPage() {
           .eq('owner_id', user.id)
           .maybeSingle();
 
+        setSettings(await loadUserSettings(supabase, user.id));
+
         if (assetError) {
           console.error(assetError);
           setError('Could not load this asset.');
@@ -394,36 +426,62 @@ export default function AssetDetailPage() {
 
         if (docsData) setDocuments(docsData as AssetDocument[]);
 
+        const { data: warrantiesData } = await supabase
+          .from('asset_warranties')
+          .select('*')
+          .eq('asset_id', assetId)
+          .order('ends_on', { ascending: false });
+
+        if (warrantiesData) setWarranties(warrantiesData as Warranty[]);
+
         const { data: valuationsData } = await supabase
           .from('valuations')
-          .select(
-            `
-            id,
-            valuation_source,
-            suggested_value,
-            currency,
-            created_at
-          `
-          )
+          .select(VALUATION_ROW_COLUMNS)
           .eq('asset_id', assetId)
           .order('created_at', { ascending: false });
 
         if (valuationsData) setValuations(valuationsData as Valuation[]);
 
-        const { data: jobData } = await supabase
+        const { data: comparablesData } = await supabase
+          .from('asset_comparables')
+          .select('*')
+          .eq('asset_id', assetId)
+          .order('sold_date', { ascending: false });
+
+        if (comparablesData) setComparables(comparablesData as Comparable[]);
+
+        const { data: jobsData } = await supabase
           .from('receipt_ai_jobs')
           .select('*')
           .eq('asset_id', assetId)
-          .order('created_at', { ascending: false })
-          .limit(1)
-          .maybeSingle();
+          .order('created_at', { ascending: false });
 
-        if (jobData) {
-          setReceiptJob(jobData as any);
-          setReceiptDemoMessage(
-            'Last demo recognition is stored for this asset. Future Round will re-use this structured data.'
-          );
+        if (jobsData) setReceiptJobs(jobsData as ReceiptJob[]);
+
+        const { data: sourcesData } = await supabase
+          .from('asset_field_sources')
+          .select('*')
+          .eq('asset_id', assetId);
+
+        if (sourcesData) setFieldSources(sourcesData as FieldSource[]);
+
+        if (assetData.receipt_url) {
+          const { data: siblingsData } = await supabase
+            .from('assets')
+            .select('id, title, receipt_line')
+            .eq('owner_id', user.id)
+            .eq('receipt_url', assetData.receipt_url)
+            .neq('id', assetId);
+
+          if (siblingsData) setReceiptSiblings(siblingsData as ReceiptSibling[]);
         }
+
+        const { data: categoriesData } = await supabase
+          .from('categories')
+          .select('id, name')
+          .order('name');
+
+        if (categoriesData) setCategories(categoriesData as CategoryOption[]);
       } catch (err) {
         console.error(err);
         setError('Something went wrong loading this asset.');
@@ -437,240 +495,121 @@ export default function AssetDetailPage() {
     }
   }, [assetId, router]);
 
+  // Bring the linked upgrade, service or document into view once loaded.
+  useEffect(() => {
+    if (loading || !window.location.hash) return;
+    const target = document.getElementById(
+      decodeURIComponent(window.location.hash.slice(1))
+    );
+    target?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [loading]);
+
   const uploadFileToBucket = async (
     file: File,
     userId: string,
     assetId: string
   ): Promise<string | null> => {
-    const bucket = 'documents';
-    const safeName = file.name.replace(/[^\w.\-]+/g, '_');
-    const path = `${userId}/${assetId}/${Date.now()}-${safeName}`;
-
-    const { error: uploadError } = await supabase.storage
-      .from(bucket)
-      .upload(path, file);
-
-    if (uploadError) {
-      console.error(uploadError);
-      setError('Could not upload document.');
+    try {
+      return await uploadDocumentFile(supabase, file, userId, assetId);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Could not upload document.'
+      );
       return null;
     }
-
-    const { data: publicUrlData } = supabase.storage
-      .from(bucket)
-      .getPublicUrl(path);
-    return publicUrlData?.publicUrl ?? null;
   };
 
-  const handleDeleteDocument = async (docId: string) => {
+  const handleOpenStoredFile = async (value: string, bucket: string) => {
     setError(null);
+    // Open the tab inside the click so it isn't blocked as a popup, then
+    // point it at the signed URL once there is one.
+    const tab = window.open('', '_blank');
     try {
-      const { error } = await supabase
-        .from('asset_documents')
-        .delete()
-        .eq('id', docId);
-
-      if (error) {
-        console.error(error);
-        setError('Could not delete document.');
-        return;
+      const url = await createSignedFileUrl(supabase, value, bucket);
+      if (tab) {
+        tab.opener = null;
+        tab.location.href = url;
+      } else {
+        window.location.href = url;
       }
-
-      setDocuments((prev) => prev.filter((d: AssetDocument) => d.id !== docId));
     } catch (err) {
+      tab?.close();
       console.error(err);
-      setError('Something went wrong deleting the document.');
+      setError(err instanceof Error ? err.message : 'Could not open this file.');
     }
   };
 
-  // DEMO: recognise from receipt
-  const handleRecogniseFromReceipt = async () => {
-    if (!asset || !asset.receipt_url) return;
-
+  const handleDeleteDocument = async (docId: string) => {
     setError(null);
-    setRecognisingReceipt(true);
-    setReceiptDemoMessage(null);
+    const doc = documents.find((d: AssetDocument) => d.id === docId);
+    if (!doc) return;
 
     try {
-      const categoryName = getCategoryName(asset);
-      const isHome = isHomeCategoryName(categoryName);
-
-      const fakeExtracted = {
-        merchant: isHome ? 'Unknown estate agent (demo)' : 'Online retailer (demo)',
-        category: categoryName,
-        brand: asset.brand ?? null,
-        model_name: asset.model_name ?? null,
-        purchase_price: asset.purchase_price ?? null,
-        purchase_currency: asset.purchase_currency ?? 'GBP',
-        purchase_date: asset.purchase_date ?? null,
-        is_home: isHome,
-      };
-
-      const { data, error } = await supabase
-        .from('receipt_ai_jobs')
-        .insert({
-          asset_id: asset.id,
-          receipt_url: asset.receipt_url,
-          status: 'completed',
-          extracted_json: fakeExtracted,
-        })
-        .select('*')
-        .maybeSingle();
+      // Removes the row, then the file and its thumbnail from storage.
+      await deleteDocuments(supabase, [doc]);
 
-      if (error) {
-        console.error(error);
-        setError('Could not create receipt recognition job.');
-        setRecognisingReceipt(false);
-        return;
-      }
-
-      if (data) {
-        setReceiptJob(data as any);
-
-        const isHomeAsset = isHome;
-        const identityBit = isHomeAsset
-          ? asset.title || 'this property'
-          : `${asset.brand || ''} ${asset.model_name || ''}`.trim() ||
-            'this asset';
-
-        const priceBit =
-          fakeExtracted.purchase_price != null
-            ? formatMoney(
-                fakeExtracted.purchase_price,
-                fakeExtracted.purchase_currency
-              )
-            : 'an unknown amount';
-
-        setReceiptDemoMessage(
-          `Round (demo) reads this receipt as ${identityBit} at around ${priceBit}. In a full version, this data would auto-fill the asset and feed live valuations.`
-        );
-      }
-    } catch (err: any) {
+      if (viewerDocId === docId) setViewerDocId(null);
+      setDocuments((prev) => prev.filter((d: AssetDocument) => d.id !== docId));
+    } catch (err) {
       console.error(err);
-      setError(
-        typeof err?.message === 'string'
-          ? err.message
-          : 'Something went wrong running the demo.'
-      );
-    } finally {
-      setRecognisingReceipt(false);
+      setError(err instanceof Error ? err.message : 'Could not delete document.');
     }
   };
 
-  // DEMO: valuation refresh
-  const handleDemoValuationRefresh = async () => {
+  const handleValuationRefresh = async () => {
     if (!asset) return;
 
     setError(null);
     setRefreshingValuation(true);
-    setValuationDemoMessage(null);
+    setValuationMessage(null);
 
     try {
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
+      const res = await authedFetch(`/api/assets/${asset.id}/valuations`, {
+        method: 'POST',
+      });
 
-      if (!user) {
+      if (res.status === 401) {
         router.push('/login');
         return;
       }
 
-      const categoryName = getCategoryName(asset);
-      const isHome = isHomeCategoryName(categoryName);
+      const body = await res.json();
 
-      const base =
-        asset.current_estimated_value ??
-        asset.purchase_price ??
-        null;
-
-      if (base == null) {
-        setValuationDemoMessage(
-          'Round needs at least a purchase or current value to simulate a refresh.'
-        );
-        setRefreshingValuation(false);
+      if (res.status === 422) {
+        setValuationMessage(body.error);
         return;
       }
 
-      let factor = 1;
-      let narrative = '';
-
-      if (isHome) {
-        factor = 1.12; // +12% demo uplift
-        narrative =
-          'For homes, Round (demo) assumes moderate appreciation vs purchase price.';
-      } else {
-        factor = 0.7; // -30% demo drop
-        narrative =
-          'For most personal assets, Round (demo) assumes some depreciation over time.';
-      }
-
-      const newValue = Math.round(base * factor);
-      const currency =
-        asset.estimate_currency || asset.purchase_currency || 'GBP';
-
-      const { data, error } = await supabase
-        .from('valuations')
-        .insert({
-          asset_id: asset.id,
-          requested_by: user.id,
-          valuation_source: 'Round demo — auto refresh',
-          suggested_value: newValue,
-          currency,
-          raw_data_json: {
-            demo: true,
-            base_value: base,
-            factor,
-            is_home: isHome,
-          },
-        })
-        .select(
-          `
-          id,
-          valuation_source,
-          suggested_value,
-          currency,
-          created_at
-        `
-        )
-        .maybeSingle();
-
-      if (error) {
-        console.error(error);
-        setError(error.message || 'Could not create valuation.');
-        setRefreshingValuation(false);
+      if (!res.ok) {
+        setError(body.error || 'Could not create valuation.');
         return;
       }
 
-      if (data) {
-        const inserted = data as Valuation;
-
-        setValuations((prev) => [inserted, ...prev]);
-        setAsset((prev: Asset | null) =>
-          prev
-            ? {
-                ...prev,
-                current_estimated_value: newValue,
-                estimate_currency: currency,
-              }
-            : prev
-        );
+      const inserted = body.valuation as Valuation;
 
-        const line = isHome
-          ? `Round (demo) has nudged this home's estimated value to ${formatMoney(
-              newValue,
-              currency
-            )} based on a simple appreciation rule.`
-          : `Round (demo) has refreshed this asset's estimated value to ${formatMoney(
-              newValue,
-              currency
-            )} using a simple depreciation rule.`;
-
-        setValuationDemoMessage(`${line} ${narrative}`);
-      }
-    } catch (err: any) {
+      setValuations((prev) => [inserted, ...prev]);
+      setAsset((prev: Asset | null) =>
+        prev
+          ? {
+              ...prev,
+              current_estimated_value: inserted.suggested_value,
+              estimate_currency: inserted.currency,
+              current_valuation_id: inserted.id,
+            }
+          : prev
+      );
+
+      setValuationMessage(
+        `Estimated value refreshed to ${formatMoney(
+          inserted.suggested_value,
+          inserted.currency,
+          locale
+        )}. ${body.summary ?? ''}`.trim()
+      );
+    } catch (err) {
       console.error(err);
       setError(
-        typeof err?.message === 'string'
+        err instanceof Error
           ? err.message
           : 'Something went wrong refreshing the valuation.'
       );
@@ -679,6 +618,52 @@ export default function AssetDetailPage() {
     }
   };
 
+  const updateCurrentEstimate = async (
+    valuation: Valuation
+  ): Promise<boolean> => {
+    if (!asset || valuation.suggested_value == null) return false;
+
+    const updates = {
+      current_estimated_value: valuation.suggested_value,
+      estimate_currency: valuation.currency || 'GBP',
+      current_valuation_id: valuation.id,
+    };
+    const { error } = await supabase
+      .from('assets')
+      .update(updates)
+      .eq('id', asset.id);
+
+    if (error) {
+      console.error(error);
+      setError(error.message || 'Could not update the current estimate.');
+      return false;
+    }
+
+    setAsset((prev: Asset | null) => (prev ? { ...prev, ...updates } : prev));
+    return true;
+  };
+
+  // Email drafts become ordinary owned assets once the user has checked them.
+  const handleMarkReviewed = async () => {
+    if (!asset) return;
+    setError(null);
+
+    const { error } = await supabase
+      .from('assets')
+      .update({ status: 'owned' })
+      .eq('id', asset.id);
+
+    if (error) {
+      console.error(error);
+      setError(error.message || 'Could not update this asset.');
+      return;
+    }
+
+    setAsset((prev: Asset | null) =>
+      prev ? { ...prev, status: 'owned' } : prev
+    );
+  };
+
   // === Upgrades & services & docs handlers (unchanged from our last version) ===
 
   const handleNewUpgradeDocFileChange = (e: ChangeEvent<HTMLInputElement>) => {
@@ -728,6 +713,9 @@ export default function AssetDetailPage() {
           cost_currency: upgradeCurrency || 'GBP',
           performed_date: upgradeDate || null,
           provider_name: upgradeProvider || null,
+          upgrade_type:
+            upgradeType ||
+            inferUpgradeType(`${upgradeTitle} ${upgradeDescription}`),
         })
         .select('*')
         .maybeSingle();
@@ -769,6 +757,7 @@ export default function AssetDetailPage() {
               setError(docError.message || 'Could not save upgrade document.');
             } else if (docData) {
               setDocuments((prev) => [docData as AssetDocument, ...prev]);
+              requestDocumentText(docData.id);
             }
           }
         }
@@ -782,6 +771,7 @@ export default function AssetDetailPage() {
       setUpgradeCost('');
       setUpgradeCurrency('GBP');
       setUpgradeProvider('');
+      setUpgradeType('');
       setNewUpgradeDocFile(null);
       setNewUpgradeDocNotes('');
       setShowAddUpgradeForm(false);
@@ -807,6 +797,9 @@ export default function AssetDetailPage() {
     );
     setEditUpgradeCurrency(u.cost_currency || 'GBP');
     setEditUpgradeProvider(u.provider_name || '');
+    setEditUpgradeType(
+      u.upgrade_type || inferUpgradeType(`${u.title ?? ''} ${u.description ?? ''}`)
+    );
   };
 
   const cancelEditUpgrade = () => {
@@ -817,6 +810,7 @@ export default function AssetDetailPage() {
     setEditUpgradeCost('');
     setEditUpgradeCurrency('GBP');
     setEditUpgradeProvider('');
+    setEditUpgradeType('');
   };
 
   const handleUpdateUpgrade = async (
@@ -852,6 +846,7 @@ export default function AssetDetailPage() {
           cost_amount: costNumber,
           cost_currency: editUpgradeCurrency || 'GBP',
           provider_name: editUpgradeProvider || null,
+          upgrade_type: editUpgradeType || 'other',
         })
         .eq('id', upgradeId)
         .eq('asset_id', asset.id)
@@ -902,16 +897,17 @@ export default function AssetDetailPage() {
         return;
       }
 
-      const { error: docsError } = await supabase
-        .from('asset_documents')
-        .delete()
-        .eq('upgrade_id', upgradeId);
-
-      if (docsError) {
+      try {
+        await deleteDocuments(
+          supabase,
+          documents.filter((d: AssetDocument) => d.upgrade_id === upgradeId)
+        );
+      } catch (docsError) {
         console.error(docsError);
         setError(
-          docsError.message ||
-            'Could not delete related documents for this upgrade.'
+          docsError instanceof Error
+            ? docsError.message
+            : 'Could not delete related documents for this upgrade.'
         );
       }
 
@@ -1015,89 +1011,6 @@ export default function AssetDetailPage() {
     }
   };
 
-  const handleAssetDocFileChange = (e: ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) setAssetDocFile(file);
-  };
-
-  const handleAssetDocDrop = (e: DragEvent<HTMLDivElement>) => {
-    e.preventDefault();
-    const file = e.dataTransfer.files?.[0];
-    if (file) setAssetDocFile(file);
-  };
-
-  const handleAssetDocDragOver = (e: DragEvent<HTMLDivElement>) => {
-    e.preventDefault();
-  };
-
-  const handleAddAssetDocument = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!asset || !assetDocFile) return;
-
-    setSavingAssetDoc(true);
-    setError(null);
-
-    try {
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
-      if (!user) {
-        router.push('/login');
-        return;
-      }
-
-      const fileUrl = await uploadFileToBucket(
-        assetDocFile,
-        user.id,
-        asset.id
-      );
-      if (!fileUrl) {
-        setSavingAssetDoc(false);
-        return;
-      }
-
-      const { data, error } = await supabase
-        .from('asset_documents')
-        .insert({
-          asset_id: asset.id,
-          owner_id: user.id,
-          file_url: fileUrl,
-          notes: assetDocNotes || null,
-          upgrade_id: null,
-          service_id: null,
-        })
-        .select('*')
-        .maybeSingle();
-
-      if (error) {
-        console.error(error);
-        setError(error.message || 'Could not save document.');
-        setSavingAssetDoc(false);
-        return;
-      }
-
-      if (!data) {
-        setError('Could not save document.');
-        setSavingAssetDoc(false);
-        return;
-      }
-
-      setDocuments((prev) => [data as AssetDocument, ...prev]);
-      setAssetDocFile(null);
-      setAssetDocNotes('');
-      setShowAddAssetDocForm(false);
-    } catch (err: any) {
-      console.error(err);
-      setError(
-        typeof err?.message === 'string'
-          ? err.message
-          : 'Something went wrong saving the document.'
-      );
-    } finally {
-      setSavingAssetDoc(false);
-    }
-  };
-
   const handleUpgradeDocFileChange = (e: ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) setUpgradeDocFile(file);
@@ -1166,6 +1079,7 @@ export default function AssetDetailPage() {
       }
 
       setDocuments((prev) => [data as AssetDocument, ...prev]);
+      requestDocumentText(data.id);
       setUpgradeDocFile(null);
       setUpgradeDocNotes('');
       setUpgradeDocTargetId(null);
@@ -1249,6 +1163,7 @@ export default function AssetDetailPage() {
       }
 
       setDocuments((prev) => [data as AssetDocument, ...prev]);
+      requestDocumentText(data.id);
       setServiceDocFile(null);
       setServiceDocNotes('');
       setServiceDocTargetId(null);
@@ -1304,9 +1219,13 @@ export default function AssetDetailPage() {
     valuations
   );
 
-  const assetLevelDocuments = documents.filter(
-    (d: AssetDocument) => !d.upgrade_id && !d.service_id
-  );
+  const latestValuation = valuations[0] ?? null;
+  const latestComparablesValuation =
+    valuations.find((v) => v.provider === 'comparables') ?? null;
+
+  // Warranties are listed latest-ending first, so warranties[0] is the
+  // most recent cover when none is running any more.
+  const activeWarranty = currentWarranty(warranties);
 
   const upgradeDocsById: Record<string, AssetDocument[]> = {};
   documents.forEach((d: AssetDocument) => {
@@ -1368,6 +1287,21 @@ export default function AssetDetailPage() {
         </div>
       )}
 
+      {asset.status === 'draft' && (
+        <div className="flex flex-wrap items-center justify-between gap-3 rounded border border-sky-200 bg-sky-50 p-3 text-sm text-sky-900">
+          <p>
+            Round created this asset from an order email. Check the details
+            and the receipt below, then mark it as reviewed.
+          </p>
+          <button
+            className="rounded border border-sky-300 bg-white px-3 py-1.5 text-xs font-medium"
+            onClick={handleMarkReviewed}
+          >
+            Mark as reviewed
+          </button>
+        </div>
+      )}
+
       {/* Identity / Round Readiness / Values / Loop */}
       <div className="grid gap-4 md:grid-cols-4">
         {/* Identity */}
@@ -1423,7 +1357,11 @@ export default function AssetDetailPage() {
           <p className="text-sm">
             Purchase:{' '}
             <span className="font-semibold">
-              {formatMoney(asset.purchase_price, asset.purchase_currency)}
+              {formatMoney(
+                asset.purchase_price,
+                asset.purchase_currency,
+                locale
+              )}
             </span>
           </p>
           <p className="text-sm">
@@ -1431,26 +1369,55 @@ export default function AssetDetailPage() {
             <span className="font-semibold">
               {formatMoney(
                 asset.current_estimated_value,
-                asset.estimate_currency || asset.purchase_currency
+                asset.estimate_currency || asset.purchase_currency,
+                locale
               )}
             </span>
           </p>
+          {latestValuation && (
+            <div className="space-y-1 rounded bg-slate-50 p-2">
+              {formatValueRange(latestValuation, locale) && (
+                <p className="text-[11px] text-slate-600">
+                  Likely range:{' '}
+                  <span className="font-medium">
+                    {formatValueRange(latestValuation, locale)}
+                  </span>
+                </p>
+              )}
+              {latestValuation.source_type &&
+                latestValuation.source_type !== 'round' && (
+                  <p className="text-[11px] text-slate-600">
+                    Latest: {valuationSourceLabel(latestValuation.source_type)}
+                    {latestValuation.valuer_name
+                      ? ` by ${latestValuation.valuer_name}`
+                      : ''}
+                  </p>
+                )}
+              {latestValuation.confidence != null && (
+                <ConfidenceBadge confidence={latestValuation.confidence} />
+              )}
+              <ValuationBreakdown
+                valuation={latestValuation}
+                locale={locale}
+              />
+            </div>
+          )}
           <button
             type="button"
-            onClick={handleDemoValuationRefresh}
+            onClick={handleValuationRefresh}
             disabled={refreshingValuation}
             className="mt-2 rounded bg-black px-3 py-1.5 text-[11px] font-medium text-white disabled:bg-slate-500"
           >
             {refreshingValuation
               ? 'Refreshing valuation…'
-              : 'Refresh valuation (demo)'}
+              : 'Refresh valuation'}
           </button>
           <p className="text-[11px] text-slate-500 mt-1">
-            Manual for now; future Round will keep this live in the background.
+            Round also revalues this automatically in the background.
           </p>
-          {valuationDemoMessage && (
+          {valuationMessage && (
             <p className="mt-1 text-[11px] text-slate-600">
-              {valuationDemoMessage}
+              {valuationMessage}
             </p>
           )}
         </div>
@@ -1618,19 +1585,26 @@ export default function AssetDetailPage() {
               <dt className="text-slate-500">Receipt</dt>
               <dd className="text-right">
                 {asset.receipt_url ? (
-                  <a
-                    href={asset.receipt_url}
-                    target="_blank"
-                    rel="noreferrer"
+                  <button
+                    type="button"
+                    onClick={() =>
+                      handleOpenStoredFile(asset.receipt_url, RECEIPTS_BUCKET)
+                    }
                     className="text-xs text-sky-700 underline"
                   >
                     View receipt
-                  </a>
+                  </button>
                 ) : (
                   <span className="text-slate-400">Not uploaded</span>
                 )}
               </dd>
             </div>
+            {asset.merchant && (
+              <div className="flex justify-between gap-4">
+                <dt className="text-slate-500">Bought from</dt>
+                <dd className="text-right">{asset.merchant}</dd>
+              </div>
+            )}
           </dl>
           {asset.notes_internal && (
             <div className="mt-2 rounded bg-slate-50 p-2 text-xs text-slate-600">
@@ -1683,6 +1657,7 @@ export default function AssetDetailPage() {
                   return (
                     <div
                       key={u.id}
+                      id={`upgrade-${u.id}`}
                       className="space-y-2 rounded border bg-slate-50 p-3"
                     >
                       {!isEditing && (
@@ -1698,11 +1673,20 @@ export default function AssetDetailPage() {
                                 </p>
                               )}
                               <div className="mt-1 flex flex-wrap gap-3 text-[11px] text-slate-500">
+                                <span>
+                                  {upgradeTypeLabel(
+                                    u.upgrade_type ||
+                                      inferUpgradeType(
+                                        `${u.title ?? ''} ${u.description ?? ''}`
+                                      )
+                                  )}
+                                </span>
                                 <span>{formatDate(u.performed_date)}</span>
                                 <span>
                                   {formatMoney(
                                     u.cost_amount,
-                                    u.cost_currency
+                                    u.cost_currency,
+                                    locale
                                   )}
                                 </span>
                                 {u.provider_name && (
@@ -1744,14 +1728,13 @@ export default function AssetDetailPage() {
                                   className="flex items-center gap-2 rounded-full border bg-white px-2 py-1"
                                 >
                                   <span className="text-[11px]">📄</span>
-                                  <a
-                                    href={d.file_url}
-                                    target="_blank"
-                                    rel="noreferrer"
-                                    className="max-w-[160px] truncate text-[11px] text-sky-700 underline"
+                                  <button
+                                    type="button"
+                                    onClick={() => setViewerDocId(d.id)}
+                                    className="max-w-[160px] truncate text-left text-[11px] text-sky-700 underline"
                                   >
                                     {d.notes || 'Document'}
-                                  </a>
+                                  </button>
                                   <button
                                     type="button"
                                     onClick={() =>
@@ -1847,7 +1830,7 @@ export default function AssetDetailPage() {
                           <p className="font-medium text-slate-700">
                             Edit upgrade
                           </p>
-                          <div className="grid gap-2 md:grid-cols-2">
+                          <div className="grid gap-2 md:grid-cols-3">
                             <input
                               type="text"
                               value={editUpgradeTitle}
@@ -1867,6 +1850,22 @@ export default function AssetDetailPage() {
                               placeholder="Provider"
                               className="w-full rounded border px-2 py-1.5"
                             />
+                            <select
+                              value={editUpgradeType}
+                              onChange={(e) =>
+                                setEditUpgradeType(e.target.value)
+                              }
+                              className="w-full rounded border px-2 py-1.5"
+                            >
+                              {DEFAULT_UPGRADE_RATES.map((r) => (
+                                <option
+                                  key={r.upgrade_type}
+                                  value={r.upgrade_type}
+                                >
+                                  {r.label}
+                                </option>
+                              ))}
+                            </select>
                           </div>
                           <div className="grid gap-2 md:grid-cols-3">
                             <input
@@ -1934,7 +1933,7 @@ export default function AssetDetailPage() {
                 className="mt-3 space-y-2 rounded border border-dashed border-slate-300 bg-slate-50 p-3 text-xs"
               >
                 <p className="font-medium text-slate-700">Add an upgrade</p>
-                <div className="grid gap-2 md:grid-cols-2">
+                <div className="grid gap-2 md:grid-cols-3">
                   <input
                     type="text"
                     value={upgradeTitle}
@@ -1950,6 +1949,18 @@ export default function AssetDetailPage() {
                     placeholder="Provider (optional)"
                     className="w-full rounded border px-2 py-1.5"
                   />
+                  <select
+                    value={upgradeType}
+                    onChange={(e) => setUpgradeType(e.target.value)}
+                    className="w-full rounded border px-2 py-1.5"
+                  >
+                    <option value="">Type: detect from title</option>
+                    {DEFAULT_UPGRADE_RATES.map((r) => (
+                      <option key={r.upgrade_type} value={r.upgrade_type}>
+                        {r.label}
+                      </option>
+                    ))}
+                  </select>
                 </div>
                 <div className="grid gap-2 md:grid-cols-3">
                   <input
@@ -1957,6 +1968,7 @@ export default function AssetDetailPage() {
                     value={upgradeDate}
                     onChange={(e) => setUpgradeDate(e.target.value)}
                     className="w-full rounded border px-2 py-1.5"
+                    title="When the work was done. Undated upgrades, and anything done before you bought the home, aren't added to its valuation."
                   />
                   <input
                     type="number"
@@ -2057,6 +2069,7 @@ export default function AssetDetailPage() {
                   return (
                     <div
                       key={s.id}
+                      id={`service-${s.id}`}
                       className="space-y-2 rounded border bg-slate-50 p-3"
                     >
                       <div className="flex items-start justify-between gap-3">
@@ -2074,7 +2087,8 @@ export default function AssetDetailPage() {
                             <span>
                               {formatMoney(
                                 s.cost_amount,
-                                s.cost_currency
+                                s.cost_currency,
+                                locale
                               )}
                             </span>
                             {s.provider_name && (
@@ -2100,14 +2114,13 @@ export default function AssetDetailPage() {
                               className="flex items-center gap-2 rounded-full border bg-white px-2 py-1"
                             >
                               <span className="text-[11px]">📄</span>
-                              <a
-                                href={d.file_url}
-                                target="_blank"
-                                rel="noreferrer"
-                                className="max-w-[160px] truncate text-[11px] text-sky-700 underline"
+                              <button
+                                type="button"
+                                onClick={() => setViewerDocId(d.id)}
+                                className="max-w-[160px] truncate text-left text-[11px] text-sky-700 underline"
                               >
                                 {d.notes || 'Document'}
-                              </a>
+                              </button>
                               <button
                                 type="button"
                                 onClick={() =>
@@ -2270,56 +2283,33 @@ export default function AssetDetailPage() {
         </>
       )}
 
-      {/* Receipt recognition demo */}
-      <div className="space-y-3 rounded border bg-white p-4">
-        <div className="flex items-center justify-between">
-          <div>
-            <p className="text-sm font-semibold">Receipt recognition (demo)</p>
-            <p className="text-[11px] text-slate-500">
-              This is where Round will read receipts, recognise the asset and
-              pre-fill details.
-            </p>
-          </div>
-          {asset.receipt_url && (
-            <button
-              type="button"
-              onClick={handleRecogniseFromReceipt}
-              disabled={recognisingReceipt}
-              className="rounded bg-black px-3 py-1.5 text-xs font-medium text-white disabled:bg-slate-500"
-            >
-              {recognisingReceipt
-                ? 'Recognising…'
-                : 'Recognise from receipt (demo)'}
-            </button>
-          )}
-        </div>
-
-        {!asset.receipt_url ? (
-          <p className="text-xs text-slate-500">
-            Upload a receipt PDF to this asset to let Round start recognising
-            it. For now, add a receipt from the asset edit screen.
-          </p>
-        ) : (
-          <>
-            <p className="text-xs text-slate-600">
-              A receipt is attached. In the full version, Round would send this
-              to an AI model, extract brand, model, price and date, and then
-              suggest updates to this asset and its valuation.
-            </p>
-            {receiptDemoMessage && (
-              <div className="mt-2 rounded bg-slate-50 p-2 text-[11px] text-slate-700">
-                {receiptDemoMessage}
-              </div>
-            )}
-            {receiptJob && (
-              <div className="mt-2 text-[10px] text-slate-500">
-                Last demo run: {formatDate(receiptJob.created_at)} · Status:{' '}
-                <span className="font-medium">{receiptJob.status}</span>
-              </div>
-            )}
-          </>
-        )}
-      </div>
+      <ReceiptRecognition
+        asset={asset}
+        isHome={isHome}
+        jobs={receiptJobs}
+        onJobsChange={setReceiptJobs}
+        fieldSources={fieldSources}
+        onFieldSourcesChange={setFieldSources}
+        siblings={receiptSiblings}
+        onSiblingsChange={setReceiptSiblings}
+        categories={categories}
+        onAssetUpdated={(updates) =>
+          setAsset((prev: Asset | null) =>
+            prev ? { ...prev, ...updates } : prev
+          )
+        }
+        onError={setError}
+        locale={locale}
+      />
+
+      <ComparableSales
+        asset={asset}
+        isHome={isHome}
+        comparables={comparables}
+        onComparablesChange={setComparables}
+        onError={setError}
+        locale={locale}
+      />
 
       {/* Action engine (demo) */}
       <div className="space-y-3 rounded border bg-white p-4">
@@ -2362,13 +2352,47 @@ export default function AssetDetailPage() {
               marketplaces, insurers or service partners.
             </p>
           )}
-          {selectedAction === 'sell' && (
-            <p>
-              Round (demo) would pre-fill a listing using your asset details and
-              documents, and compare real resale prices to suggest a fair asking
-              price.
-            </p>
-          )}
+          {selectedAction === 'sell' &&
+            (latestComparablesValuation ? (
+              <div className="space-y-1">
+                <p>
+                  Suggested asking price:{' '}
+                  <span className="font-semibold">
+                    {formatMoney(
+                      latestComparablesValuation.value_high ??
+                        latestComparablesValuation.suggested_value,
+                      latestComparablesValuation.currency,
+                      locale
+                    )}
+                  </span>
+                  , with offers down to{' '}
+                  <span className="font-semibold">
+                    {formatMoney(
+                      latestComparablesValuation.value_low ??
+                        latestComparablesValuation.suggested_value,
+                      latestComparablesValuation.currency,
+                      locale
+                    )}
+                  </span>{' '}
+                  still in line with the market.
+                </p>
+                <p className="text-slate-500">
+                  Based on the median of comparable sales (
+                  {formatMoney(
+                    latestComparablesValuation.suggested_value,
+                    latestComparablesValuation.currency,
+                    locale
+                  )}
+                  ) from {formatDate(latestComparablesValuation.created_at)}.
+                </p>
+              </div>
+            ) : (
+              <p>
+                Add at least three sold listings under Comparable sales and
+                refresh the valuation – Round will then suggest an asking price
+                from real resale prices.
+              </p>
+            ))}
           {selectedAction === 'insure' && (
             <p>
               Round (demo) would package purchase proofs, valuations and photos
@@ -2377,11 +2401,36 @@ export default function AssetDetailPage() {
             </p>
           )}
           {selectedAction === 'repair' && (
-            <p>
-              Round (demo) would use brand/model and service history to suggest
-              approved repairers or refurbishment partners and estimate likely
-              costs.
-            </p>
+            <div className="space-y-1">
+              {activeWarranty ? (
+                <p className="text-emerald-700">
+                  Still covered: {warrantyKindLabel(activeWarranty.kind)}
+                  {activeWarranty.provider
+                    ? ` from ${activeWarranty.provider}`
+                    : ''}{' '}
+                  runs to {formatDate(activeWarranty.ends_on)} (
+                  {describeTimeLeft(
+                    warrantyCoverage(activeWarranty).days_left
+                  ).toLowerCase()}
+                  ). Check the terms and claim before paying for a repair.
+                </p>
+              ) : warranties.length > 0 ? (
+                <p className="text-slate-700">
+                  No longer under warranty – cover ended{' '}
+                  {formatDate(warranties[0].ends_on)}.
+                </p>
+              ) : (
+                <p className="text-slate-700">
+                  No warranty recorded – add one under Warranty if this item is
+                  still covered.
+                </p>
+              )}
+              <p>
+                Round (demo) would use brand/model and service history to
+                suggest approved repairers or refurbishment partners and
+                estimate likely costs.
+              </p>
+            </div>
           )}
           {selectedAction === 'donate' && (
             <p>
@@ -2392,141 +2441,48 @@ export default function AssetDetailPage() {
         </div>
       </div>
 
-      {/* Asset-level key documents */}
-      <div className="space-y-3 rounded border bg-white p-4">
-        <div className="flex items-center justify-between">
-          <div>
-            <p className="text-sm font-semibold">Key documents</p>
-            <p className="text-[11px] text-slate-500">
-              Surveys, certificates, valuations – anything that underpins
-              value.
-            </p>
-          </div>
-          <button
-            type="button"
-            className="rounded bg-black px-3 py-1.5 text-xs font-medium text-white"
-            onClick={() => setShowAddAssetDocForm((prev) => !prev)}
-          >
-            {showAddAssetDocForm ? 'Close form' : 'Add document'}
-          </button>
-        </div>
-
-        {assetLevelDocuments.length === 0 ? (
-          <p className="text-xs text-slate-500">
-            No documents uploaded yet.
-          </p>
-        ) : (
-          <div className="flex flex-wrap gap-2 text-sm">
-            {assetLevelDocuments.map((d: AssetDocument) => (
-              <div
-                key={d.id}
-                className="flex items-center gap-2 rounded-full border bg-slate-50 px-3 py-1"
-              >
-                <span className="text-xs">📄</span>
-                <div className="flex flex-col">
-                  <a
-                    href={d.file_url}
-                    target="_blank"
-                    rel="noreferrer"
-                    className="max-w-[160px] truncate text-xs text-sky-700 underline"
-                  >
-                    {d.notes || 'Document'}
-                  </a>
-                  <span className="text-[10px] text-slate-500">
-                    {formatDate(d.uploaded_at)}
-                  </span>
-                </div>
-                <button
-                  type="button"
-                  onClick={() => handleDeleteDocument(d.id)}
-                  className="text-[11px] text-red-600"
-                >
-                  ✕
-                </button>
-              </div>
-            ))}
-          </div>
-        )}
-
-        {showAddAssetDocForm && (
-          <form
-            onSubmit={handleAddAssetDocument}
-            className="mt-3 space-y-2 rounded border border-dashed border-slate-300 bg-slate-50 p-3 text-xs"
-          >
-            <p className="font-medium text-slate-700">Add a document</p>
-            <input
-              type="text"
-              value={assetDocNotes}
-              onChange={(e) => setAssetDocNotes(e.target.value)}
-              placeholder="Label (e.g. Home survey)"
-              className="w-full rounded border px-2 py-1.5"
-            />
-            <div
-              onDragOver={handleAssetDocDragOver}
-              onDrop={handleAssetDocDrop}
-              className="flex flex-col items-center justify-center rounded border border-dashed border-slate-300 bg-slate-100 p-3 text-center"
-            >
-              <p>Drag &amp; drop PDF or image here</p>
-              <p className="text-[11px] text-slate-500">
-                or click to choose
-              </p>
-              <input
-                type="file"
-                accept="application/pdf,image/*"
-                className="mt-2 text-xs"
-                onChange={handleAssetDocFileChange}
-              />
-              {assetDocFile && (
-                <p className="mt-2 text-[11px] text-slate-700">
-                  Selected: {assetDocFile.name}
-                </p>
-              )}
-            </div>
-            <div className="flex justify-end">
-              <button
-                type="submit"
-                disabled={savingAssetDoc || !assetDocFile}
-                className="rounded bg-black px-3 py-1.5 text-xs font-medium text-white disabled:bg-slate-500"
-              >
-                {savingAssetDoc ? 'Saving…' : 'Add document'}
-              </button>
-            </div>
-          </form>
-        )}
-      </div>
-
-      {/* Valuation history */}
-      {valuations.length > 0 && (
-        <div className="space-y-3 rounded border bg-white p-4">
-          <p className="text-sm font-semibold">
-            Valuation history
-          </p>
-          <p className="text-[11px] text-slate-500">
-            Early experiments in how Round might track and explain value
-            changes over time.
-          </p>
-          <ul className="mt-2 space-y-2 text-sm">
-            {valuations.map((v) => (
-              <li
-                key={v.id}
-                className="flex items-center justify-between rounded border bg-slate-50 p-2"
-              >
-                <div>
-                  <p className="font-medium">
-                    {v.valuation_source || 'Valuation'}
-                  </p>
-                  <p className="text-[11px] text-slate-500">
-                    {formatDate(v.created_at)}
-                  </p>
-                </div>
-                <div className="text-right text-sm">
-                  {formatMoney(v.suggested_value, v.currency)}
-                </div>
-              </li>
-            ))}
-          </ul>
-        </div>
-      )}
+      <KeyDocuments
+        asset={asset}
+        documents={documents}
+        onDocumentsChange={setDocuments}
+        onViewDocument={setViewerDocId}
+        onDeleteDocument={handleDeleteDocument}
+        onError={setError}
+      />
+
+      <AssetWarranties
+        asset={asset}
+        warranties={warranties}
+        onWarrantiesChange={setWarranties}
+        documents={documents}
+        onViewDocument={setViewerDocId}
+        onError={setError}
+      />
+
+      <ValuationHistory
+        asset={asset}
+        valuations={valuations}
+        onValuationsChange={setValuations}
+        documents={documents}
+        onDocumentAdded={(doc) =>
+          setDocuments((prev) => [doc as AssetDocument, ...prev])
+        }
+        onViewDocument={setViewerDocId}
+        onUseAsCurrent={updateCurrentEstimate}
+        onError={setError}
+        locale={locale}
+      />
+
+      <AssetDocumentViewer
+        documents={documents}
+        upgrades={upgrades}
+        services={services}
+        openDocumentId={viewerDocId}
+        onOpenDocumentChange={setViewerDocId}
+        onOpenInNewTab={(fileUrl) =>
+          handleOpenStoredFile(fileUrl, DOCUMENTS_BUCKET)
+        }
+      />
     </div>
   );
 }
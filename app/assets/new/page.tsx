@@ -3,6 +3,7 @@
 import { useEffect, useState, ChangeEvent, DragEvent } from 'react';
 import { useRouter } from 'next/navigation';
 import { supabase } from '@/lib/supabaseClient';
+import { RECEIPTS_BUCKET } from '@/lib/storage';
 
 type Category = {
   id: string;
@@ -132,7 +133,7 @@ export default function NewAssetPage() {
       let receiptUrl: string | null = null;
 
       if (receiptFile) {
-        const bucket = 'receipts';
+        const bucket = RECEIPTS_BUCKET;
         const safeName = receiptFile.name.replace(
           /[^\w.\-]+/g,
           '_'
@@ -151,13 +152,8 @@ export default function NewAssetPage() {
           return;
         }
 
-        const { data: publicUrlData } =
-          supabase.storage
-            .from(bucket)
-            .getPublicUrl(path);
-
-        receiptUrl =
-          publicUrlData?.publicUrl ?? null;
+        // The bucket is private: keep the path and sign it when viewed.
+        receiptUrl = path;
       }
 
       const purchasePriceNumber =
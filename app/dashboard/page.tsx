@@ -3,6 +3,33 @@
 import { useEffect, useState } from 'react';
 import { supabase } from '@/lib/supabaseClient';
 import { useRouter } from 'next/navigation';
+import TimeSeriesChart from '@/components/TimeSeriesChart';
+import {
+  buildPortfolioHistory,
+  HistoryValuation,
+  portfolioTrend,
+} from '@/lib/portfolioHistory';
+import {
+  createFxConverter,
+  FxConverter,
+  FxHistoryRate,
+  FxRate,
+  loadFxHistory,
+  loadFxRates,
+} from '@/lib/fx';
+import { currencySymbol, formatMoney } from '@/lib/money';
+import {
+  DEFAULT_USER_SETTINGS,
+  loadUserSettings,
+  UserSettings,
+} from '@/lib/userSettings';
+import {
+  currentWarranty,
+  describeTimeLeft,
+  Warranty,
+  WARRANTY_EXPIRY_WINDOW_DAYS,
+  warrantyCoverage,
+} from '@/lib/warranties';
 
 type Asset = {
   id: string;
@@ -13,12 +40,14 @@ type Asset = {
   serial_number: string | null;
   purchase_price: number | null;
   purchase_currency: string | null;
+  purchase_date: string | null;
   current_estimated_value: number | null;
   estimate_currency: string | null;
   purchase_url: string | null;
   receipt_url: string | null;
   notes_internal: string | null;
   asset_type_id: string | null;
+  created_at: string | null;
   city: string | null;
   country: string | null;
   category?: {
@@ -27,7 +56,7 @@ type Asset = {
 };
 
 type IdentityLevel = 'unknown' | 'basic' | 'good' | 'strong';
-type FilterMode = 'all' | 'roundReady' | 'needsInfo';
+type FilterMode = 'all' | 'roundReady' | 'needsInfo' | 'toReview';
 
 function getCategoryName(asset: Asset): string {
   if (!asset.category) return '—';
@@ -193,35 +222,188 @@ function isRoundReady(asset: Asset): boolean {
   );
 }
 
-function formatMoney(
+// Currencies on this asset that can't be converted to the reporting currency.
+function missingRateCurrencies(
+  asset: Asset,
+  fx: FxConverter,
+  reportingCurrency: string
+): string[] {
+  const missing = new Set<string>();
+  if (asset.purchase_price != null) {
+    const cur = asset.purchase_currency || 'GBP';
+    if (!fx.hasRate(cur, reportingCurrency)) missing.add(cur);
+  }
+  if (asset.current_estimated_value != null) {
+    const cur = asset.estimate_currency || 'GBP';
+    if (!fx.hasRate(cur, reportingCurrency)) missing.add(cur);
+  }
+  return Array.from(missing);
+}
+
+function toReporting(
   value: number | null,
-  currency: string | null = 'GBP'
-): string {
-  if (value == null) return '—';
-  const cur = currency ?? 'GBP';
-  if (cur === 'GBP') return `£${value.toFixed(0)}`;
-  return `${cur} ${value.toFixed(0)}`;
+  currency: string | null,
+  fx: FxConverter,
+  reportingCurrency: string
+): number | null {
+  if (value == null) return null;
+  return fx.convert(value, currency || 'GBP', reportingCurrency);
 }
 
-function computeDelta(asset: Asset) {
+// What the asset cost in the reporting currency at the rate on its
+// purchase date. When the rate history doesn't reach that date today's rate
+// is used instead and the cost is flagged approximate: it says nothing about
+// how exchange rates moved since.
+function costInReporting(
+  asset: Asset,
+  fx: FxConverter,
+  reportingCurrency: string
+): { value: number; approximate: boolean } | null {
+  if (asset.purchase_price == null) return null;
+  const cur = asset.purchase_currency || 'GBP';
+  if (cur === reportingCurrency) {
+    return { value: asset.purchase_price, approximate: false };
+  }
+  const atPurchase = asset.purchase_date
+    ? fx.convertAt(
+        asset.purchase_price,
+        cur,
+        reportingCurrency,
+        asset.purchase_date
+      )
+    : null;
+  if (atPurchase != null) return { value: atPurchase, approximate: false };
+
+  const today = fx.convert(asset.purchase_price, cur, reportingCurrency);
+  return today == null ? null : { value: today, approximate: true };
+}
+
+// Gain/loss in the reporting currency: cost at the purchase-date rate,
+// value at today's rate. The gap between the cost at today's rate and at
+// the purchase-date rate is the currency effect; the rest is the asset.
+// Without a purchase-date rate the split is unknown and left null.
+function computeDelta(
+  asset: Asset,
+  fx: FxConverter,
+  reportingCurrency: string
+) {
+  const cost = costInReporting(asset, fx, reportingCurrency);
+  const costToday = toReporting(
+    asset.purchase_price,
+    asset.purchase_currency,
+    fx,
+    reportingCurrency
+  );
+  const current = toReporting(
+    asset.current_estimated_value,
+    asset.estimate_currency,
+    fx,
+    reportingCurrency
+  );
+
   if (
-    asset.purchase_price == null ||
-    asset.current_estimated_value == null ||
-    asset.purchase_price === 0
+    cost == null ||
+    costToday == null ||
+    current == null ||
+    cost.value === 0
   ) {
     return null;
   }
 
-  const diff =
-    asset.current_estimated_value - asset.purchase_price;
-  const pct = (diff / asset.purchase_price) * 100;
+  const diff = current - cost.value;
+  const pct = (diff / cost.value) * 100;
+
+  return {
+    diff,
+    pct,
+    approximate: cost.approximate,
+    performance: cost.approximate ? null : current - costToday,
+    currencyEffect: cost.approximate ? null : costToday - cost.value,
+  };
+}
 
-  return { diff, pct };
+function formatSignedMoney(
+  value: number,
+  currency: string,
+  locale: string
+): string {
+  const sign = value > 0 ? '+' : value < 0 ? '−' : '';
+  return `${sign}${formatMoney(Math.abs(value), currency, locale)}`;
+}
+
+// Shows the amount in the reporting currency, with the original amount
+// underneath when it was converted. Falls back to the original when there
+// is no rate.
+function MoneyCell({
+  value,
+  currency,
+  fx,
+  reportingCurrency,
+  locale,
+  date,
+}: {
+  value: number | null;
+  currency: string | null;
+  fx: FxConverter;
+  reportingCurrency: string;
+  locale: string;
+  // Convert at the rate on this date (e.g. the purchase date).
+  date?: string | null;
+}) {
+  const atDate =
+    value != null && date
+      ? fx.convertAt(
+          value,
+          currency || 'GBP',
+          reportingCurrency,
+          date
+        )
+      : null;
+  const converted =
+    atDate ?? toReporting(value, currency, fx, reportingCurrency);
+  const original = formatMoney(value, currency, locale);
+
+  if (value == null || converted == null) return <>{original}</>;
+  if ((currency || 'GBP') === reportingCurrency) {
+    return <>{formatMoney(converted, reportingCurrency, locale)}</>;
+  }
+
+  // Asked for a dated rate but only today's was available.
+  const approximate = !!date && atDate == null;
+
+  return (
+    <>
+      {approximate ? (
+        <span title="Converted at today's rate: there is no exchange rate history back to the purchase date.">
+          ≈ {formatMoney(converted, reportingCurrency, locale)}
+        </span>
+      ) : (
+        formatMoney(converted, reportingCurrency, locale)
+      )}
+      <span className="block text-[11px] text-slate-500">
+        {original}
+      </span>
+    </>
+  );
 }
 
 export default function DashboardPage() {
   const router = useRouter();
   const [assets, setAssets] = useState<Asset[]>([]);
+  const [valuations, setValuations] = useState<
+    (HistoryValuation & { currency: string | null })[]
+  >([]);
+  const [fxRates, setFxRates] = useState<FxRate[]>([]);
+  const [fxHistory, setFxHistory] = useState<FxHistoryRate[]>(
+    []
+  );
+  const [showFxSplit, setShowFxSplit] = useState(false);
+  const [settings, setSettings] = useState<UserSettings>(
+    DEFAULT_USER_SETTINGS
+  );
+  const [warranties, setWarranties] = useState<Warranty[]>([]);
+  const [unreadAlerts, setUnreadAlerts] = useState(0);
+  const [documentQuery, setDocumentQuery] = useState('');
   const [loading, setLoading] = useState(true);
   const [filter, setFilter] =
     useState<FilterMode>('all');
@@ -237,6 +419,8 @@ export default function DashboardPage() {
         return;
       }
 
+      let loadedAssets: Asset[] = [];
+
       const { data, error } = await supabase
         .from('assets')
         .select(
@@ -249,6 +433,7 @@ export default function DashboardPage() {
           serial_number,
           purchase_price,
           purchase_currency,
+          purchase_date,
           current_estimated_value,
           estimate_currency,
           purchase_url,
@@ -257,6 +442,7 @@ export default function DashboardPage() {
           asset_type_id,
           city,
           country,
+          created_at,
           category:categories ( name )
         `
         )
@@ -273,8 +459,82 @@ export default function DashboardPage() {
           })
         );
         setAssets(normalised);
+        loadedAssets = normalised;
+
+        const assetIds = normalised.map((a) => a.id);
+        if (assetIds.length > 0) {
+          const { data: valuationsData } = await supabase
+            .from('valuations')
+            .select(
+              'asset_id, suggested_value, currency, valuation_date, created_at'
+            )
+            .in('asset_id', assetIds)
+            .order('created_at', { ascending: true });
+
+          if (valuationsData) {
+            setValuations(
+              valuationsData as (HistoryValuation & {
+                currency: string | null;
+              })[]
+            );
+          }
+
+          const { data: warrantiesData } = await supabase
+            .from('asset_warranties')
+            .select(
+              'id, asset_id, kind, provider, starts_on, length_months, ends_on, coverage, document_id'
+            )
+            .in('asset_id', assetIds);
+
+          if (warrantiesData) {
+            setWarranties(warrantiesData as Warranty[]);
+          }
+        }
+      }
+
+      const userSettings = await loadUserSettings(
+        supabase,
+        user.id
+      );
+      setSettings(userSettings);
+
+      try {
+        setFxRates(await loadFxRates(supabase));
+        // Dated rates are only used to cost foreign purchases, so load
+        // those currencies from the earliest such purchase onward.
+        const datedPurchases = loadedAssets.filter(
+          (a) =>
+            a.purchase_price != null &&
+            a.purchase_date &&
+            (a.purchase_currency || 'GBP') !== userSettings.base_currency
+        );
+        if (datedPurchases.length > 0) {
+          const earliest = datedPurchases
+            .map((a) => (a.purchase_date as string).slice(0, 10))
+            .sort()[0];
+          setFxHistory(
+            await loadFxHistory(
+              supabase,
+              [
+                userSettings.base_currency,
+                ...datedPurchases.map((a) => a.purchase_currency || 'GBP'),
+              ],
+              earliest
+            )
+          );
+        }
+      } catch (err) {
+        console.error(err);
       }
 
+      const { count: alertCount } = await supabase
+        .from('valuation_alerts')
+        .select('id', { count: 'exact', head: true })
+        .eq('owner_id', user.id)
+        .is('read_at', null);
+
+      setUnreadAlerts(alertCount ?? 0);
+
       setLoading(false);
     };
 
@@ -286,27 +546,116 @@ export default function DashboardPage() {
     router.push('/login');
   };
 
-  const totalPurchase = assets.reduce(
+  const reportingCurrency = settings.base_currency;
+  const locale = settings.locale;
+  const fx = createFxConverter(fxRates, fxHistory);
+
+  // Amounts without a rate are left out of totals and flagged instead.
+  const convertedAssets = assets.map((asset) => ({
+    ...asset,
+    purchase_price:
+      costInReporting(asset, fx, reportingCurrency)?.value ?? null,
+    current_estimated_value: toReporting(
+      asset.current_estimated_value,
+      asset.estimate_currency,
+      fx,
+      reportingCurrency
+    ),
+  }));
+  const assetsMissingRate = assets.filter(
+    (a) =>
+      missingRateCurrencies(a, fx, reportingCurrency).length > 0
+  );
+
+  // Totals only take assets whose purchase price and estimate both
+  // converted, so the overall change compares like with like.
+  const missingRateIds = new Set(assetsMissingRate.map((a) => a.id));
+  const totalledAssets = convertedAssets.filter(
+    (a) => !missingRateIds.has(a.id)
+  );
+  const totalPurchase = totalledAssets.reduce(
     (sum, asset) => sum + (asset.purchase_price ?? 0),
     0
   );
-  const totalCurrent = assets.reduce(
+  const totalCurrent = totalledAssets.reduce(
     (sum, asset) =>
       sum + (asset.current_estimated_value ?? 0),
     0
   );
 
+  // Part of the overall change that comes from exchange rates moving
+  // since each purchase rather than from the assets themselves. Purchases
+  // older than the rate history are counted as all asset performance and
+  // listed under the totals.
+  let totalCurrencyEffect = 0;
+  let approximateCostCount = 0;
+  assets.forEach((asset) => {
+    if (missingRateIds.has(asset.id)) return;
+    const cost = costInReporting(asset, fx, reportingCurrency);
+    const costToday = toReporting(
+      asset.purchase_price,
+      asset.purchase_currency,
+      fx,
+      reportingCurrency
+    );
+    if (cost == null || costToday == null) return;
+    if (cost.approximate) {
+      approximateCostCount += 1;
+      return;
+    }
+    totalCurrencyEffect += costToday - cost.value;
+  });
+  const hasForeignPurchases = assets.some(
+    (a) =>
+      a.purchase_price != null &&
+      (a.purchase_currency || 'GBP') !== reportingCurrency
+  );
+
+  const valuationCurrencyFallback: Record<string, string> = {};
+  assets.forEach((a) => {
+    valuationCurrencyFallback[a.id] =
+      a.estimate_currency || a.purchase_currency || 'GBP';
+  });
+  const portfolioHistory = buildPortfolioHistory(
+    convertedAssets,
+    valuations.map((v) => ({
+      ...v,
+      suggested_value: toReporting(
+        v.suggested_value,
+        v.currency || valuationCurrencyFallback[v.asset_id],
+        fx,
+        reportingCurrency
+      ),
+    }))
+  );
+  const historyTrend = portfolioTrend(portfolioHistory);
+
   const roundReadyCount = assets.filter((a) =>
     isRoundReady(a)
   ).length;
   const needsInfoCount =
     assets.length - roundReadyCount;
+  // Drafts are assets created from forwarded order emails.
+  const toReviewCount = assets.filter(
+    (a) => a.status === 'draft'
+  ).length;
+
+  // Cover that runs out soon, soonest first. One row per warranty, so an
+  // asset with a retailer guarantee and a care plan can show up twice.
+  const expiringWarranties = warranties
+    .map((w) => ({ warranty: w, coverage: warrantyCoverage(w) }))
+    .filter(({ coverage }) => coverage.state === 'expiring')
+    .sort((a, b) => a.coverage.days_left - b.coverage.days_left);
+  const assetTitle = (assetId: string) =>
+    assets.find((a) => a.id === assetId)?.title ?? 'Asset';
 
   const filteredAssets =
     filter === 'all'
       ? assets
       : filter === 'roundReady'
       ? assets.filter((a) => isRoundReady(a))
+      : filter === 'toReview'
+      ? assets.filter((a) => a.status === 'draft')
       : assets.filter((a) => !isRoundReady(a));
 
   if (loading)
@@ -320,6 +669,44 @@ export default function DashboardPage() {
           Your asset portfolio
         </h1>
         <div className="flex items-center gap-2">
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              const q = documentQuery.trim();
+              if (q) {
+                router.push(
+                  `/search?q=${encodeURIComponent(q)}`
+                );
+              }
+            }}
+          >
+            <input
+              type="search"
+              value={documentQuery}
+              onChange={(e) =>
+                setDocumentQuery(e.target.value)
+              }
+              placeholder="Search documents…"
+              className="w-48 rounded border px-3 py-2 text-sm"
+            />
+          </form>
+          <button
+            className="rounded border px-3 py-2 text-sm"
+            onClick={() => router.push('/settings')}
+          >
+            Settings
+          </button>
+          <button
+            className="relative rounded border px-3 py-2 text-sm"
+            onClick={() => router.push('/alerts')}
+          >
+            Alerts
+            {unreadAlerts > 0 && (
+              <span className="absolute -right-2 -top-2 rounded-full bg-red-500 px-1.5 py-0.5 text-[10px] font-semibold text-white">
+                {unreadAlerts > 99 ? '99+' : unreadAlerts}
+              </span>
+            )}
+          </button>
           <button
             className="rounded border px-3 py-2 text-sm"
             onClick={handleLogout}
@@ -343,14 +730,30 @@ export default function DashboardPage() {
         <div className="flex flex-col gap-1 md:flex-row md:gap-4">
           <span>
             Total purchase value:{' '}
-            <span className="font-semibold">
-              {formatMoney(totalPurchase || 0)}
+            <span
+              className="font-semibold"
+              title={
+                approximateCostCount > 0
+                  ? "Some purchases predate the exchange rate history and are converted at today's rate."
+                  : undefined
+              }
+            >
+              {approximateCostCount > 0 && '≈ '}
+              {formatMoney(
+                totalPurchase || 0,
+                reportingCurrency,
+                locale
+              )}
             </span>
           </span>
           <span>
             Total current estimated value:{' '}
             <span className="font-semibold">
-              {formatMoney(totalCurrent || 0)}
+              {formatMoney(
+                totalCurrent || 0,
+                reportingCurrency,
+                locale
+              )}
             </span>
           </span>
           {totalPurchase > 0 && (
@@ -383,8 +786,169 @@ export default function DashboardPage() {
             </span>
           )}
         </div>
+        {hasForeignPurchases && totalPurchase > 0 && (
+          <div className="mt-2 flex flex-col gap-1 text-xs text-slate-700 md:flex-row md:items-center md:gap-4">
+            <label className="inline-flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={showFxSplit}
+                onChange={(e) =>
+                  setShowFxSplit(e.target.checked)
+                }
+              />
+              Split asset performance and currency effect
+            </label>
+            {showFxSplit && (
+              <span>
+                Asset performance:{' '}
+                <span className="font-semibold">
+                  {formatSignedMoney(
+                    totalCurrent -
+                      totalPurchase -
+                      totalCurrencyEffect,
+                    reportingCurrency,
+                    locale
+                  )}
+                </span>{' '}
+                · Currency effect:{' '}
+                <span className="font-semibold">
+                  {formatSignedMoney(
+                    totalCurrencyEffect,
+                    reportingCurrency,
+                    locale
+                  )}
+                </span>
+                {approximateCostCount > 0 && (
+                  <span className="block text-[11px] text-slate-500">
+                    {approximateCostCount} purchase
+                    {approximateCostCount > 1 ? 's predate' : ' predates'}{' '}
+                    the exchange rate history; converted at today&apos;s
+                    rate (≈) and left out of the currency effect.
+                  </span>
+                )}
+              </span>
+            )}
+          </div>
+        )}
+        {assetsMissingRate.length > 0 && (
+          <p className="mt-2 text-xs text-amber-800">
+            ⚠️ {assetsMissingRate.length} asset
+            {assetsMissingRate.length > 1 ? 's are' : ' is'}{' '}
+            left out of these totals because there is no
+            exchange rate to {reportingCurrency} for{' '}
+            {Array.from(
+              new Set(
+                assetsMissingRate.flatMap((a) =>
+                  missingRateCurrencies(
+                    a,
+                    fx,
+                    reportingCurrency
+                  )
+                )
+              )
+            ).join(', ')}
+            .
+          </p>
+        )}
+      </div>
+
+      {/* Portfolio value over time */}
+      <div className="space-y-2 rounded border bg-white p-4 text-sm">
+        <div className="flex items-center justify-between">
+          <p className="font-medium">
+            Portfolio value over time
+          </p>
+          {portfolioHistory.length > 1 && (
+            <span
+              className={`text-xs ${
+                historyTrend > 0
+                  ? 'text-emerald-700'
+                  : historyTrend < 0
+                  ? 'text-red-700'
+                  : 'text-slate-600'
+              }`}
+            >
+              {historyTrend > 0
+                ? '⬆️ Trending up'
+                : historyTrend < 0
+                ? '⬇️ Trending down'
+                : '⟲ Flat'}
+            </span>
+          )}
+        </div>
+        <p className="text-[11px] text-slate-500">
+          Month-end totals rebuilt from each asset&apos;s
+          valuation history (purchase price before its
+          first valuation).
+        </p>
+        <TimeSeriesChart
+          series={[
+            {
+              key: 'portfolio',
+              name: 'Total estimated value',
+              color: '#0f172a',
+              points: portfolioHistory.map((p) => ({
+                date: p.month,
+                value: p.total,
+              })),
+            },
+          ]}
+          formatValue={(v) =>
+            formatMoney(
+              Math.round(v),
+              reportingCurrency,
+              locale
+            )
+          }
+        />
       </div>
 
+      {/* Warranties expiring soon */}
+      {expiringWarranties.length > 0 && (
+        <div className="space-y-2 rounded border border-amber-200 bg-amber-50 p-4 text-sm">
+          <p className="font-medium text-amber-900">
+            🛡 Warranties expiring in the next{' '}
+            {WARRANTY_EXPIRY_WINDOW_DAYS} days
+          </p>
+          <p className="text-[11px] text-amber-800">
+            Worth checking these items for faults while
+            they&apos;re still covered.
+          </p>
+          <ul className="divide-y divide-amber-200">
+            {expiringWarranties.map(
+              ({ warranty, coverage }) => (
+                <li
+                  key={warranty.id}
+                  className="flex items-center justify-between gap-3 py-1.5"
+                >
+                  <button
+                    type="button"
+                    className="text-left text-amber-900 underline"
+                    onClick={() =>
+                      router.push(
+                        `/assets/${warranty.asset_id}`
+                      )
+                    }
+                  >
+                    {assetTitle(warranty.asset_id)}
+                  </button>
+                  <span className="text-xs text-amber-800">
+                    {warranty.provider
+                      ? `${warranty.provider} · `
+                      : ''}
+                    ends{' '}
+                    {new Date(
+                      warranty.ends_on
+                    ).toLocaleDateString(locale)}{' '}
+                    ({describeTimeLeft(coverage.days_left)})
+                  </span>
+                </li>
+              )
+            )}
+          </ul>
+        </div>
+      )}
+
       {/* Round-Ready summary + filters */}
       <div className="flex flex-col justify-between gap-3 rounded border bg-white p-4 text-sm md:flex-row md:items-center">
         <div className="space-y-1">
@@ -449,6 +1013,18 @@ export default function DashboardPage() {
           >
             Needs info ({needsInfoCount})
           </button>
+          <button
+            onClick={() =>
+              setFilter('toReview')
+            }
+            className={`rounded-full border px-3 py-1 ${
+              filter === 'toReview'
+                ? 'border-sky-700 bg-sky-700 text-white'
+                : 'border-sky-200 bg-sky-50 text-sky-800'
+            }`}
+          >
+            To review ({toReviewCount})
+          </button>
         </div>
       </div>
 
@@ -478,7 +1054,10 @@ export default function DashboardPage() {
                   className="cursor-help underline decoration-dotted decoration-slate-400"
                   title="What you originally paid for this asset (excluding services/upgrades)."
                 >
-                  Purchase (£)
+                  Purchase ({currencySymbol(
+                    reportingCurrency,
+                    locale
+                  )})
                 </span>
               </th>
               <th className="py-2 text-right">
@@ -486,13 +1065,16 @@ export default function DashboardPage() {
                   className="cursor-help underline decoration-dotted decoration-slate-400"
                   title="Your latest estimate of what the asset is worth today."
                 >
-                  Current (£)
+                  Current ({currencySymbol(
+                    reportingCurrency,
+                    locale
+                  )})
                 </span>
               </th>
               <th className="py-2 text-right">
                 <span
                   className="cursor-help underline decoration-dotted decoration-slate-400"
-                  title="Simple placeholder: difference between current estimate and purchase price (not live market data yet)."
+                  title={`Difference between current estimate (at today's rate) and purchase price (at the rate on the purchase date), in ${reportingCurrency}.`}
                 >
                   Change
                 </span>
@@ -518,7 +1100,17 @@ export default function DashboardPage() {
                 !!asset.purchase_url ||
                 !!asset.notes_internal ||
                 !!asset.receipt_url;
-              const delta = computeDelta(asset);
+              const delta = computeDelta(
+                asset,
+                fx,
+                reportingCurrency
+              );
+              const missingRates =
+                missingRateCurrencies(
+                  asset,
+                  fx,
+                  reportingCurrency
+                );
 
               const diffSign =
                 delta && delta.diff !== 0
@@ -538,6 +1130,11 @@ export default function DashboardPage() {
               const pctAbs = delta
                 ? Math.abs(delta.pct)
                 : 0;
+              const underWarranty = currentWarranty(
+                warranties.filter(
+                  (w) => w.asset_id === asset.id
+                )
+              );
 
               return (
                 <tr
@@ -551,6 +1148,30 @@ export default function DashboardPage() {
                 >
                   <td className="py-2">
                     {asset.title}
+                    {underWarranty && (
+                      <span
+                        className="ml-2 inline-flex items-center rounded-full border border-sky-200 bg-sky-50 px-2 py-0.5 text-[11px] text-sky-800"
+                        title={`Under warranty until ${new Date(
+                          underWarranty.ends_on
+                        ).toLocaleDateString(locale)}${
+                          underWarranty.provider
+                            ? ` (${underWarranty.provider})`
+                            : ''
+                        }.`}
+                      >
+                        🛡 Under warranty
+                      </span>
+                    )}
+                    {missingRates.length > 0 && (
+                      <span
+                        className="ml-2 inline-flex items-center rounded-full border border-amber-200 bg-amber-50 px-2 py-0.5 text-[11px] text-amber-800"
+                        title={`No exchange rate from ${missingRates.join(
+                          ', '
+                        )} to ${reportingCurrency}, so this asset is left out of portfolio totals.`}
+                      >
+                        ⚠️ No {missingRates.join('/')} rate
+                      </span>
+                    )}
                   </td>
                   <td className="py-2">
                     {categoryName}
@@ -576,16 +1197,23 @@ export default function DashboardPage() {
                     {asset.status ?? 'unknown'}
                   </td>
                   <td className="py-2 text-right">
-                    {formatMoney(
-                      asset.purchase_price,
-                      asset.purchase_currency
-                    )}
+                    <MoneyCell
+                      value={asset.purchase_price}
+                      currency={asset.purchase_currency}
+                      fx={fx}
+                      reportingCurrency={reportingCurrency}
+                      locale={locale}
+                      date={asset.purchase_date}
+                    />
                   </td>
                   <td className="py-2 text-right">
-                    {formatMoney(
-                      asset.current_estimated_value,
-                      asset.estimate_currency
-                    )}
+                    <MoneyCell
+                      value={asset.current_estimated_value}
+                      currency={asset.estimate_currency}
+                      fx={fx}
+                      reportingCurrency={reportingCurrency}
+                      locale={locale}
+                    />
                   </td>
                   <td className="py-2 text-right">
                     {delta ? (
@@ -602,10 +1230,37 @@ export default function DashboardPage() {
                         {diffSign}
                         {formatMoney(
                           diffAbs,
-                          asset.estimate_currency
-                        ).replace(/^£/, '')}{' '}
+                          reportingCurrency,
+                          locale
+                        )}{' '}
                         ({diffSign}
                         {pctAbs.toFixed(1)}%)
+                        {showFxSplit &&
+                          delta.approximate && (
+                            <span className="block text-[11px] text-slate-500">
+                              FX effect unknown
+                            </span>
+                          )}
+                        {showFxSplit &&
+                          delta.performance != null &&
+                          delta.currencyEffect != null &&
+                          Math.abs(delta.currencyEffect) >=
+                            0.5 && (
+                            <span className="block text-[11px] text-slate-500">
+                              Asset{' '}
+                              {formatSignedMoney(
+                                delta.performance,
+                                reportingCurrency,
+                                locale
+                              )}{' '}
+                              · FX{' '}
+                              {formatSignedMoney(
+                                delta.currencyEffect,
+                                reportingCurrency,
+                                locale
+                              )}
+                            </span>
+                          )}
                       </span>
                     ) : (
                       <span className="text-xs text-slate-400">
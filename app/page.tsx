@@ -3,13 +3,22 @@
 import { useEffect, useState } from 'react';
 import { supabase } from '@/lib/supabaseClient';
 import { useRouter } from 'next/navigation';
+import { createFxConverter, FxRate, loadFxRates } from '@/lib/fx';
+import { currencySymbol, formatMoney } from '@/lib/money';
+import {
+  DEFAULT_USER_SETTINGS,
+  loadUserSettings,
+  UserSettings,
+} from '@/lib/userSettings';
 
 type Asset = {
   id: string;
   title: string;
   status: string | null;
   purchase_price: number | null;
+  purchase_currency: string | null;
   current_estimated_value: number | null;
+  estimate_currency: string | null;
   purchase_url: string | null;
   receipt_url: string | null;
   // Supabase returns `category:categories ( name )` as an array of rows
@@ -19,6 +28,10 @@ type Asset = {
 export default function DashboardPage() {
   const router = useRouter();
   const [assets, setAssets] = useState<Asset[]>([]);
+  const [fxRates, setFxRates] = useState<FxRate[]>([]);
+  const [settings, setSettings] = useState<UserSettings>(
+    DEFAULT_USER_SETTINGS
+  );
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -40,7 +53,9 @@ export default function DashboardPage() {
           title,
           status,
           purchase_price,
+          purchase_currency,
           current_estimated_value,
+          estimate_currency,
           purchase_url,
           receipt_url,
           category:categories ( name )
@@ -53,6 +68,14 @@ export default function DashboardPage() {
         setAssets(data as Asset[]);
       }
 
+      setSettings(await loadUserSettings(supabase, user.id));
+
+      try {
+        setFxRates(await loadFxRates(supabase));
+      } catch (err) {
+        console.error(err);
+      }
+
       setLoading(false);
     };
 
@@ -64,20 +87,34 @@ export default function DashboardPage() {
     router.push('/login');
   };
 
+  const baseCurrency = settings.base_currency;
+  const locale = settings.locale;
+  const fx = createFxConverter(fxRates);
+
+  // Amounts without a rate to the base currency are left out of totals.
+  const toBase = (value: number | null, currency: string | null) =>
+    value == null ? null : fx.convert(value, currency || 'GBP', baseCurrency);
+
+  // Falls back to the original currency when there is no rate.
+  const formatInBase = (value: number | null, currency: string | null) => {
+    const converted = toBase(value, currency);
+    return converted == null
+      ? formatMoney(value, currency, locale)
+      : formatMoney(converted, baseCurrency, locale);
+  };
+
   const totalPurchase = assets.reduce(
-    (sum, asset) => sum + (asset.purchase_price ?? 0),
+    (sum, asset) =>
+      sum + (toBase(asset.purchase_price, asset.purchase_currency) ?? 0),
     0
   );
   const totalCurrent = assets.reduce(
-    (sum, asset) => sum + (asset.current_estimated_value ?? 0),
+    (sum, asset) =>
+      sum +
+      (toBase(asset.current_estimated_value, asset.estimate_currency) ?? 0),
     0
   );
 
-  const formatMoney = (value: number | null) => {
-    if (value == null) return '—';
-    return `£${value.toFixed(0)}`;
-  };
-
   const getCategoryName = (asset: Asset) => {
     if (!asset.category || asset.category.length === 0) return '—';
     return asset.category[0]?.name ?? '—';
@@ -113,13 +150,13 @@ export default function DashboardPage() {
           <span>
             Total purchase value:{' '}
             <span className="font-semibold">
-              {formatMoney(totalPurchase || 0)}
+              {formatMoney(totalPurchase || 0, baseCurrency, locale)}
             </span>
           </span>
           <span>
             Total current estimated value:{' '}
             <span className="font-semibold">
-              {formatMoney(totalCurrent || 0)}
+              {formatMoney(totalCurrent || 0, baseCurrency, locale)}
             </span>
           </span>
         </div>
@@ -135,8 +172,12 @@ export default function DashboardPage() {
               <th className="py-2 text-left">Title</th>
               <th className="py-2 text-left">Category</th>
               <th className="py-2 text-left">Status</th>
-              <th className="py-2 text-right">Purchase (£)</th>
-              <th className="py-2 text-right">Current (£)</th>
+              <th className="py-2 text-right">
+                Purchase ({currencySymbol(baseCurrency, locale)})
+              </th>
+              <th className="py-2 text-right">
+                Current ({currencySymbol(baseCurrency, locale)})
+              </th>
               <th className="py-2 text-center">Docs</th>
             </tr>
           </thead>
@@ -153,10 +194,13 @@ export default function DashboardPage() {
                   {asset.status ?? 'unknown'}
                 </td>
                 <td className="py-2 text-right">
-                  {formatMoney(asset.purchase_price)}
+                  {formatInBase(asset.purchase_price, asset.purchase_currency)}
                 </td>
                 <td className="py-2 text-right">
-                  {formatMoney(asset.current_estimated_value)}
+                  {formatInBase(
+                    asset.current_estimated_value,
+                    asset.estimate_currency
+                  )}
                 </td>
                 <td className="py-2 text-center">
                   {asset.purchase_url && (
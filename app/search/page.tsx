@@ -0,0 +1,231 @@
+'use client';
+
+import { FormEvent, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { supabase } from '@/lib/supabaseClient';
+import { documentTypeLabel } from '@/lib/documents';
+import {
+  DocumentSearchResult,
+  searchDocuments,
+  splitSnippet,
+} from '@/lib/documentSearch';
+
+function queryFromUrl(): string {
+  if (typeof window === 'undefined') return '';
+  return new URLSearchParams(window.location.search).get('q') ?? '';
+}
+
+function Snippet({ snippet }: { snippet: string | null }) {
+  const parts = splitSnippet(snippet);
+  if (parts.length === 0) return null;
+
+  return (
+    <p className="text-xs text-slate-600">
+      {parts.map((part, i) =>
+        part.match ? (
+          <mark key={i} className="rounded bg-amber-100 px-0.5 text-slate-900">
+            {part.text}
+          </mark>
+        ) : (
+          <span key={i}>{part.text}</span>
+        )
+      )}
+    </p>
+  );
+}
+
+export default function SearchPage() {
+  const router = useRouter();
+
+  // Only rendered after the auth check, so reading the URL here can't
+  // differ from the server render.
+  const [query, setQuery] = useState(queryFromUrl);
+  const [searched, setSearched] = useState<string | null>(null);
+  const [results, setResults] = useState<DocumentSearchResult[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runSearch = async (q: string) => {
+    const search = q.trim();
+    if (!search) return;
+
+    setSearching(true);
+    setError(null);
+    try {
+      setResults(await searchDocuments(supabase, search));
+      setSearched(search);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Search failed.');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  useEffect(() => {
+    const load = async () => {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) {
+        router.push('/login');
+        return;
+      }
+
+      setLoading(false);
+
+      // Arriving from the dashboard search box or back from an asset.
+      const initial = queryFromUrl().trim();
+      if (!initial) return;
+      setSearching(true);
+      try {
+        setResults(await searchDocuments(supabase, initial));
+        setSearched(initial);
+      } catch (err) {
+        console.error(err);
+        setError(err instanceof Error ? err.message : 'Search failed.');
+      } finally {
+        setSearching(false);
+      }
+    };
+
+    load();
+  }, [router]);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!query.trim()) return;
+    // Keep the query in the URL so back from an asset returns here.
+    router.replace(`/search?q=${encodeURIComponent(query.trim())}`);
+    runSearch(query);
+  };
+
+  if (loading) return <div className="p-6">Loading…</div>;
+
+  return (
+    <div className="space-y-4 p-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-semibold">Search documents</h1>
+        <button
+          className="text-sm text-slate-600 hover:text-slate-900"
+          onClick={() => router.push('/dashboard')}
+        >
+          ← Back to portfolio
+        </button>
+      </div>
+
+      <form
+        onSubmit={handleSubmit}
+        className="flex gap-2 rounded border bg-white p-4 text-sm"
+      >
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder='e.g. "boiler warranty" or Worcester Bosch'
+          className="flex-1 rounded border px-3 py-2"
+          autoFocus
+        />
+        <button
+          type="submit"
+          disabled={searching || !query.trim()}
+          className="rounded bg-black px-4 py-2 text-white disabled:bg-slate-500"
+        >
+          {searching ? 'Searching…' : 'Search'}
+        </button>
+      </form>
+
+      {error && (
+        <div className="rounded border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+          {error}
+        </div>
+      )}
+
+      {searched !== null && (
+        <div className="rounded border bg-white p-4 text-sm">
+          <p className="mb-3 font-medium">
+            {results.length === 0
+              ? `No documents match “${searched}”.`
+              : `${results.length} document${
+                  results.length === 1 ? '' : 's'
+                } matching “${searched}”`}
+          </p>
+          {results.length === 0 ? (
+            <p className="text-xs text-slate-500">
+              Search looks at document labels, the upgrade or service they
+              belong to and the text inside PDFs and photos. Newly uploaded
+              files can take a minute to be read.
+            </p>
+          ) : (
+            <ul className="divide-y">
+              {results.map((r) => (
+                <li key={r.document_id} className="space-y-1 py-3">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <button
+                      type="button"
+                      className="text-left font-medium text-sky-700 underline"
+                      onClick={() =>
+                        router.push(
+                          `/assets/${r.asset_id}#document-${r.document_id}`
+                        )
+                      }
+                    >
+                      📄 {r.label || 'Document'}
+                    </button>
+                    <span className="rounded-full bg-slate-100 px-2 py-0.5 text-[11px] text-slate-600">
+                      {documentTypeLabel(r.doc_type)}
+                    </span>
+                  </div>
+                  <Snippet snippet={r.snippet} />
+                  <p className="flex flex-wrap gap-x-2 text-[11px] text-slate-500">
+                    <button
+                      type="button"
+                      className="underline hover:text-slate-900"
+                      onClick={() => router.push(`/assets/${r.asset_id}`)}
+                    >
+                      {r.asset_title || 'Untitled asset'}
+                    </button>
+                    {r.upgrade_id && (
+                      <>
+                        <span>›</span>
+                        <button
+                          type="button"
+                          className="underline hover:text-slate-900"
+                          onClick={() =>
+                            router.push(
+                              `/assets/${r.asset_id}#upgrade-${r.upgrade_id}`
+                            )
+                          }
+                        >
+                          Upgrade: {r.upgrade_title || 'Upgrade'}
+                        </button>
+                      </>
+                    )}
+                    {r.service_id && (
+                      <>
+                        <span>›</span>
+                        <button
+                          type="button"
+                          className="underline hover:text-slate-900"
+                          onClick={() =>
+                            router.push(
+                              `/assets/${r.asset_id}#service-${r.service_id}`
+                            )
+                          }
+                        >
+                          Service: {r.service_type || 'Service'}
+                        </button>
+                      </>
+                    )}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
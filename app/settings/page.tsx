@@ -0,0 +1,337 @@
+'use client';
+
+import { ChangeEvent, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { supabase } from '@/lib/supabaseClient';
+import { authedFetch } from '@/lib/apiClient';
+import { formatMoney } from '@/lib/money';
+import {
+  DEFAULT_USER_SETTINGS,
+  loadUserSettings,
+  saveUserSettings,
+  SUPPORTED_CURRENCIES,
+  SUPPORTED_LOCALES,
+  UserSettings,
+} from '@/lib/userSettings';
+
+// Where forwarded order emails land, e.g. inbox.round.example. Without it the
+// settings page shows the token for a mail relay to post with instead.
+const RECEIPT_INBOX_DOMAIN = process.env.NEXT_PUBLIC_RECEIPT_INBOX_DOMAIN;
+
+function newInboxToken(): string {
+  return crypto.randomUUID().replace(/-/g, '');
+}
+
+function ReceiptInboxSection({ userId }: { userId: string }) {
+  const router = useRouter();
+  const [token, setToken] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      const { data, error: loadError } = await supabase
+        .from('receipt_inbox_tokens')
+        .select('token')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (loadError) {
+        console.error(loadError);
+        setError('Could not load your receipt inbox.');
+        return;
+      }
+      if (data) {
+        setToken(data.token);
+        return;
+      }
+
+      const { data: created, error: createError } = await supabase
+        .from('receipt_inbox_tokens')
+        .insert({ user_id: userId, token: newInboxToken() })
+        .select('token')
+        .single();
+
+      if (createError || !created) {
+        console.error(createError);
+        setError('Could not set up your receipt inbox.');
+        return;
+      }
+      setToken(created.token);
+    };
+
+    load();
+  }, [userId]);
+
+  const handleRegenerate = async () => {
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+
+    const next = newInboxToken();
+    const { error: updateError } = await supabase
+      .from('receipt_inbox_tokens')
+      .update({ token: next, created_at: new Date().toISOString() })
+      .eq('user_id', userId);
+
+    if (updateError) {
+      console.error(updateError);
+      setError('Could not change your forwarding address.');
+    } else {
+      setToken(next);
+      setMessage('New address ready. The old one no longer works.');
+    }
+    setBusy(false);
+  };
+
+  const handleUpload = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const body = new FormData();
+      body.append('file', file);
+      const res = await authedFetch('/api/inbound/email', {
+        method: 'POST',
+        body,
+      });
+
+      if (res.status === 401) {
+        router.push('/login');
+        return;
+      }
+
+      const payload = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(payload.error || 'Could not import this email.');
+        return;
+      }
+
+      router.push(`/assets/${payload.asset_id}`);
+    } catch (err) {
+      console.error(err);
+      setError(
+        err instanceof Error ? err.message : 'Could not import this email.'
+      );
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const address =
+    token && RECEIPT_INBOX_DOMAIN
+      ? `receipts+${token}@${RECEIPT_INBOX_DOMAIN}`
+      : null;
+
+  return (
+    <div className="max-w-md space-y-3 rounded border bg-white p-4 text-sm">
+      <div>
+        <p className="text-xs font-semibold text-slate-600">
+          Receipts by email
+        </p>
+        <p className="text-[11px] text-slate-500">
+          Forward order confirmations here and Round adds each one as a draft
+          asset for you to review, with the email kept as its receipt.
+        </p>
+      </div>
+
+      {error && <p className="text-xs text-red-700">{error}</p>}
+
+      {token ? (
+        <div className="space-y-1">
+          <label className="block text-xs font-medium text-slate-700">
+            {address ? 'Forwarding address' : 'Inbox token'}
+          </label>
+          <input
+            readOnly
+            value={address ?? token}
+            onFocus={(e) => e.target.select()}
+            className="w-full rounded border bg-slate-50 px-3 py-2 font-mono text-xs"
+          />
+          {!address && (
+            <p className="text-[11px] text-slate-500">
+              Your mail relay posts messages to /api/inbound/email?token=…
+              with this token.
+            </p>
+          )}
+        </div>
+      ) : (
+        !error && <p className="text-xs text-slate-500">Loading…</p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3">
+        <label
+          className={`cursor-pointer rounded border px-3 py-1.5 text-xs font-medium ${
+            busy ? 'pointer-events-none opacity-50' : ''
+          }`}
+        >
+          Upload .eml
+          <input
+            type="file"
+            accept=".eml,message/rfc822"
+            className="hidden"
+            onChange={handleUpload}
+          />
+        </label>
+        <button
+          type="button"
+          disabled={busy || !token}
+          onClick={handleRegenerate}
+          className="text-xs text-slate-600 hover:text-slate-900 disabled:opacity-50"
+        >
+          New address
+        </button>
+        {message && (
+          <span className="text-xs text-emerald-700">{message}</span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function SettingsPage() {
+  const router = useRouter();
+
+  const [userId, setUserId] = useState<string | null>(null);
+  const [settings, setSettings] = useState<UserSettings>(
+    DEFAULT_USER_SETTINGS
+  );
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) {
+        router.push('/login');
+        return;
+      }
+
+      setUserId(user.id);
+      setSettings(await loadUserSettings(supabase, user.id));
+      setLoading(false);
+    };
+
+    load();
+  }, [router]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!userId) return;
+
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      await saveUserSettings(supabase, userId, settings);
+      setMessage('Settings saved.');
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Could not save settings.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) return <div className="p-6">Loading…</div>;
+
+  return (
+    <div className="space-y-4 p-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-semibold">Settings</h1>
+        <button
+          className="text-sm text-slate-600 hover:text-slate-900"
+          onClick={() => router.push('/dashboard')}
+        >
+          ← Back to portfolio
+        </button>
+      </div>
+
+      {error && (
+        <div className="rounded border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+          {error}
+        </div>
+      )}
+
+      <form
+        onSubmit={handleSave}
+        className="max-w-md space-y-4 rounded border bg-white p-4 text-sm"
+      >
+        <div className="space-y-1">
+          <label className="block text-xs font-medium text-slate-700">
+            Base currency
+          </label>
+          <select
+            value={settings.base_currency}
+            onChange={(e) =>
+              setSettings((prev) => ({
+                ...prev,
+                base_currency: e.target.value,
+              }))
+            }
+            className="w-full rounded border px-3 py-2"
+          >
+            {SUPPORTED_CURRENCIES.map((c) => (
+              <option key={c} value={c}>
+                {c}
+              </option>
+            ))}
+          </select>
+          <p className="text-[11px] text-slate-500">
+            Portfolio totals and changes are converted into this currency.
+          </p>
+        </div>
+
+        <div className="space-y-1">
+          <label className="block text-xs font-medium text-slate-700">
+            Number format
+          </label>
+          <select
+            value={settings.locale}
+            onChange={(e) =>
+              setSettings((prev) => ({ ...prev, locale: e.target.value }))
+            }
+            className="w-full rounded border px-3 py-2"
+          >
+            {SUPPORTED_LOCALES.map((l) => (
+              <option key={l.value} value={l.value}>
+                {l.label}
+              </option>
+            ))}
+          </select>
+          <p className="text-[11px] text-slate-500">
+            Example:{' '}
+            {formatMoney(1234567, settings.base_currency, settings.locale)}
+          </p>
+        </div>
+
+        <div className="flex items-center justify-end gap-3">
+          {message && (
+            <span className="text-xs text-emerald-700">{message}</span>
+          )}
+          <button
+            type="submit"
+            disabled={saving}
+            className="rounded bg-black px-4 py-2 font-medium text-white disabled:bg-slate-500"
+          >
+            {saving ? 'Saving…' : 'Save settings'}
+          </button>
+        </div>
+      </form>
+
+      {userId && <ReceiptInboxSection userId={userId} />}
+    </div>
+  );
+}
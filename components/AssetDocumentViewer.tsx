@@ -0,0 +1,99 @@
+'use client';
+
+import { supabase } from '@/lib/supabaseClient';
+import { groupDocumentsByType } from '@/lib/documents';
+import { DOCUMENTS_BUCKET, downloadStoredFile } from '@/lib/storage';
+import DocumentViewer, { ViewerDocument } from '@/components/DocumentViewer';
+
+type AssetDocument = {
+  id: string;
+  file_url: string;
+  notes: string | null;
+  doc_type: string | null;
+  upgrade_id: string | null;
+  service_id: string | null;
+};
+type Upgrade = { id: string; title: string | null };
+type Service = { id: string; service_type: string | null };
+
+type Props = {
+  documents: AssetDocument[];
+  upgrades: Upgrade[];
+  services: Service[];
+  // The open document, or null when the viewer is closed.
+  openDocumentId: string | null;
+  onOpenDocumentChange: (documentId: string | null) => void;
+  onOpenInNewTab: (fileUrl: string) => void;
+};
+
+// Module-level so the viewer doesn't reload the open file on every render.
+function loadDocumentFile(fileUrl: string): Promise<Blob> {
+  return downloadStoredFile(supabase, fileUrl, DOCUMENTS_BUCKET);
+}
+
+// Everything the viewer steps through, in page order: Key documents by
+// type, then each upgrade's and each service's files.
+function viewerDocumentsFor(
+  documents: AssetDocument[],
+  upgrades: Upgrade[],
+  services: Service[]
+): ViewerDocument[] {
+  const assetLevel = documents.filter((d) => !d.upgrade_id && !d.service_id);
+  const toViewer = (d: AssetDocument, context: string): ViewerDocument => ({
+    id: d.id,
+    file_url: d.file_url,
+    label: d.notes || 'Document',
+    context,
+  });
+
+  return [
+    ...groupDocumentsByType(assetLevel).flatMap((g) =>
+      g.docs.map((d) => toViewer(d, g.label))
+    ),
+    ...upgrades.flatMap((u) =>
+      documents
+        .filter((d) => d.upgrade_id === u.id)
+        .map((d) => toViewer(d, `Upgrade: ${u.title || 'Upgrade'}`))
+    ),
+    ...services.flatMap((sv) =>
+      documents
+        .filter((d) => d.service_id === sv.id)
+        .map((d) => toViewer(d, `Service: ${sv.service_type || 'Service'}`))
+    ),
+  ];
+}
+
+export default function AssetDocumentViewer({
+  documents,
+  upgrades,
+  services,
+  openDocumentId,
+  onOpenDocumentChange,
+  onOpenInNewTab,
+}: Props) {
+  if (!openDocumentId) return null;
+
+  const viewerDocuments = viewerDocumentsFor(documents, upgrades, services);
+  // Evidence and proofs can point at a file that isn't listed above.
+  const open = documents.find((d) => d.id === openDocumentId);
+  if (open && !viewerDocuments.some((d) => d.id === open.id)) {
+    viewerDocuments.push({
+      id: open.id,
+      file_url: open.file_url,
+      label: open.notes || 'Document',
+    });
+  }
+  const index = viewerDocuments.findIndex((d) => d.id === openDocumentId);
+  if (index < 0) return null;
+
+  return (
+    <DocumentViewer
+      documents={viewerDocuments}
+      index={index}
+      onIndexChange={(i) => onOpenDocumentChange(viewerDocuments[i]?.id ?? null)}
+      onClose={() => onOpenDocumentChange(null)}
+      loadFile={loadDocumentFile}
+      onOpenInNewTab={(d) => onOpenInNewTab(d.file_url)}
+    />
+  );
+}
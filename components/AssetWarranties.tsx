@@ -0,0 +1,371 @@
+'use client';
+
+import { Dispatch, FormEvent, SetStateAction, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { supabase } from '@/lib/supabaseClient';
+import { formatDate } from '@/lib/dates';
+import {
+  describeTimeLeft,
+  Warranty,
+  WARRANTY_KINDS,
+  warrantyCoverage,
+  warrantyEndDate,
+  WarrantyKind,
+  warrantyKindLabel,
+} from '@/lib/warranties';
+
+// The asset's documents, offered as proof of warranty.
+type ProofDocument = {
+  id: string;
+  notes: string | null;
+  doc_type: string | null;
+};
+
+type Props = {
+  asset: { id: string; purchase_date: string | null };
+  // Owned by the page, which also shows the cover next to repair actions.
+  warranties: Warranty[];
+  onWarrantiesChange: Dispatch<SetStateAction<Warranty[]>>;
+  documents: ProofDocument[];
+  onViewDocument: (documentId: string) => void;
+  onError: (message: string | null) => void;
+};
+
+function WarrantyCoverageBar({ warranty }: { warranty: Warranty }) {
+  const coverage = warrantyCoverage(warranty);
+
+  if (coverage.state === 'not_started') {
+    return (
+      <p className="text-[11px] text-slate-500">
+        Cover starts {formatDate(warranty.starts_on)}.
+      </p>
+    );
+  }
+
+  const remaining = 1 - coverage.elapsed;
+  return (
+    <div className="space-y-1">
+      <div className="h-1.5 w-full overflow-hidden rounded-full bg-slate-200">
+        <div
+          className={`h-full ${
+            coverage.state === 'expired'
+              ? 'bg-red-400'
+              : coverage.state === 'expiring'
+              ? 'bg-amber-400'
+              : 'bg-emerald-500'
+          }`}
+          style={{ width: `${Math.round(remaining * 100)}%` }}
+        />
+      </div>
+      <p
+        className={`text-[11px] ${
+          coverage.state === 'expired'
+            ? 'text-red-700'
+            : coverage.state === 'expiring'
+            ? 'text-amber-800'
+            : 'text-emerald-700'
+        }`}
+      >
+        {coverage.state === 'expired'
+          ? `Expired ${formatDate(warranty.ends_on)}`
+          : `${describeTimeLeft(coverage.days_left)} · covered to ${formatDate(
+              warranty.ends_on
+            )}`}
+      </p>
+    </div>
+  );
+}
+
+export default function AssetWarranties({
+  asset,
+  warranties,
+  onWarrantiesChange,
+  documents,
+  onViewDocument,
+  onError,
+}: Props) {
+  const router = useRouter();
+
+  // Add-warranty form. Either a length or an end date sets when cover stops.
+  const [showForm, setShowForm] = useState(false);
+  const [kind, setKind] = useState<WarrantyKind>('manufacturer');
+  const [provider, setProvider] = useState('');
+  const [startsOn, setStartsOn] = useState('');
+  const [lengthMonths, setLengthMonths] = useState('12');
+  const [endsOn, setEndsOn] = useState('');
+  const [coverageTerms, setCoverageTerms] = useState('');
+  const [documentId, setDocumentId] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleToggleForm = () => {
+    if (!showForm && !startsOn && asset.purchase_date) {
+      setStartsOn(asset.purchase_date.slice(0, 10));
+    }
+    setShowForm((prev) => !prev);
+  };
+
+  const handleAdd = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!startsOn) return;
+
+    const months = lengthMonths.trim() === '' ? null : Number(lengthMonths);
+    if (!endsOn && (!months || !Number.isInteger(months) || months <= 0)) {
+      onError('Give the warranty a length in months or an end date.');
+      return;
+    }
+    const end = endsOn || warrantyEndDate(startsOn, months as number);
+    if (end < startsOn) {
+      onError('The warranty cannot end before it starts.');
+      return;
+    }
+
+    setSaving(true);
+    onError(null);
+
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) {
+        router.push('/login');
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from('asset_warranties')
+        .insert({
+          asset_id: asset.id,
+          owner_id: user.id,
+          kind,
+          provider: provider.trim() || null,
+          starts_on: startsOn,
+          // An explicit end date wins over the length it was typed alongside.
+          length_months: endsOn ? null : months,
+          ends_on: end,
+          coverage: coverageTerms.trim() || null,
+          document_id: documentId || null,
+        })
+        .select('*')
+        .maybeSingle();
+
+      if (error || !data) {
+        console.error(error);
+        onError(error?.message || 'Could not save the warranty.');
+        return;
+      }
+
+      onWarrantiesChange((prev) =>
+        [...prev, data as Warranty].sort((a, b) =>
+          b.ends_on.localeCompare(a.ends_on)
+        )
+      );
+      setProvider('');
+      setLengthMonths('12');
+      setEndsOn('');
+      setCoverageTerms('');
+      setDocumentId('');
+      setShowForm(false);
+    } catch (err) {
+      console.error(err);
+      onError(
+        err instanceof Error
+          ? err.message
+          : 'Something went wrong saving the warranty.'
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (warrantyId: string) => {
+    onError(null);
+    const { error } = await supabase
+      .from('asset_warranties')
+      .delete()
+      .eq('id', warrantyId);
+
+    if (error) {
+      console.error(error);
+      onError('Could not delete the warranty.');
+      return;
+    }
+
+    onWarrantiesChange((prev) => prev.filter((w) => w.id !== warrantyId));
+  };
+
+  return (
+    <div className="space-y-3 rounded border bg-white p-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-semibold">Warranty</p>
+          <p className="text-[11px] text-slate-500">
+            Who covers this item, until when and for what – check here before
+            paying for a repair.
+          </p>
+        </div>
+        <button
+          type="button"
+          className="rounded bg-black px-3 py-1.5 text-xs font-medium text-white"
+          onClick={handleToggleForm}
+        >
+          {showForm ? 'Close form' : 'Add warranty'}
+        </button>
+      </div>
+
+      {warranties.length === 0 ? (
+        <p className="text-xs text-slate-500">No warranty recorded yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {warranties.map((w) => {
+            const proof = documents.find((d) => d.id === w.document_id);
+            return (
+              <div
+                key={w.id}
+                className="space-y-1.5 rounded border bg-slate-50 px-3 py-2 text-xs"
+              >
+                <div className="flex flex-wrap items-center gap-2">
+                  <span>🛡</span>
+                  <span className="font-medium">
+                    {warrantyKindLabel(w.kind)}
+                  </span>
+                  {w.provider && (
+                    <span className="text-slate-600">· {w.provider}</span>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(w.id)}
+                    className="ml-auto text-[11px] text-red-600"
+                  >
+                    ✕
+                  </button>
+                </div>
+                <WarrantyCoverageBar warranty={w} />
+                <p className="text-[10px] text-slate-500">
+                  {formatDate(w.starts_on)} – {formatDate(w.ends_on)}
+                  {w.length_months
+                    ? ` (${w.length_months} month${
+                        w.length_months === 1 ? '' : 's'
+                      })`
+                    : ''}
+                </p>
+                {w.coverage && (
+                  <p className="whitespace-pre-line text-[11px] text-slate-700">
+                    {w.coverage}
+                  </p>
+                )}
+                {proof && (
+                  <button
+                    type="button"
+                    onClick={() => onViewDocument(proof.id)}
+                    className="text-[11px] text-sky-700 underline"
+                  >
+                    📄 {proof.notes || 'Proof of warranty'}
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {showForm && (
+        <form
+          onSubmit={handleAdd}
+          className="space-y-2 rounded border border-dashed border-slate-300 bg-slate-50 p-3 text-xs"
+        >
+          <p className="font-medium text-slate-700">Add a warranty</p>
+          <div className="grid gap-2 sm:grid-cols-2">
+            <select
+              value={kind}
+              onChange={(e) => setKind(e.target.value as WarrantyKind)}
+              className="rounded border px-2 py-1.5"
+            >
+              {WARRANTY_KINDS.map((k) => (
+                <option key={k.value} value={k.value}>
+                  {k.label}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={provider}
+              onChange={(e) => setProvider(e.target.value)}
+              placeholder="Provider (e.g. Apple, Currys Care & Repair)"
+              className="rounded border px-2 py-1.5"
+            />
+            <label className="flex items-center gap-2">
+              <span className="w-14 text-slate-500">Starts</span>
+              <input
+                type="date"
+                value={startsOn}
+                onChange={(e) => setStartsOn(e.target.value)}
+                required
+                className="flex-1 rounded border px-2 py-1"
+              />
+            </label>
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                min="1"
+                step="1"
+                value={lengthMonths}
+                onChange={(e) => setLengthMonths(e.target.value)}
+                disabled={!!endsOn}
+                className="w-16 rounded border px-2 py-1 disabled:bg-slate-100"
+              />
+              <span className="text-slate-500">months, or ends</span>
+              <input
+                type="date"
+                value={endsOn}
+                onChange={(e) => setEndsOn(e.target.value)}
+                className="flex-1 rounded border px-2 py-1"
+              />
+            </div>
+          </div>
+          <textarea
+            value={coverageTerms}
+            onChange={(e) => setCoverageTerms(e.target.value)}
+            placeholder="What's covered (e.g. parts and labour, accidental damage, excess £49)"
+            rows={2}
+            className="w-full rounded border px-2 py-1.5"
+          />
+          <select
+            value={documentId}
+            onChange={(e) => setDocumentId(e.target.value)}
+            className="w-full rounded border px-2 py-1.5"
+          >
+            <option value="">Proof of warranty: none</option>
+            {[...documents]
+              .sort(
+                (a, b) =>
+                  Number(b.doc_type === 'warranty') -
+                  Number(a.doc_type === 'warranty')
+              )
+              .map((d) => (
+                <option key={d.id} value={d.id}>
+                  {d.notes || 'Document'}
+                  {d.doc_type === 'warranty' ? ' (warranty)' : ''}
+                </option>
+              ))}
+          </select>
+          {documents.length === 0 && (
+            <p className="text-[11px] text-slate-500">
+              Upload the warranty certificate under Key documents to link it
+              here.
+            </p>
+          )}
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={saving || !startsOn}
+              className="rounded bg-black px-3 py-1.5 text-xs font-medium text-white disabled:bg-slate-500"
+            >
+              {saving ? 'Saving…' : 'Add warranty'}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+'use client';
+
+import { Dispatch, FormEvent, SetStateAction, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { supabase } from '@/lib/supabaseClient';
+import { parseComparablesCsv } from '@/lib/valuation/comparables';
+import { formatMoney } from '@/lib/money';
+import { formatDate } from '@/lib/dates';
+
+export type Comparable = {
+  id: string;
+  title: string | null;
+  sold_price: number;
+  currency: string;
+  sold_date: string;
+  condition: string | null;
+  source_url: string | null;
+  source_ref: string | null;
+};
+
+type Props = {
+  asset: {
+    id: string;
+    estimate_currency: string | null;
+    purchase_currency: string | null;
+  };
+  isHome: boolean;
+  comparables: Comparable[];
+  onComparablesChange: Dispatch<SetStateAction<Comparable[]>>;
+  onError: (message: string | null) => void;
+  locale: string;
+};
+
+export default function ComparableSales({
+  asset,
+  isHome,
+  comparables,
+  onComparablesChange,
+  onError,
+  locale,
+}: Props) {
+  const router = useRouter();
+
+  const [showForm, setShowForm] = useState(false);
+  const [csv, setCsv] = useState('');
+  const [importing, setImporting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleImport = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!csv.trim()) return;
+
+    setImporting(true);
+    onError(null);
+    setMessage(null);
+
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) {
+        router.push('/login');
+        return;
+      }
+
+      const { rows, skipped } = parseComparablesCsv(
+        csv,
+        asset.estimate_currency || asset.purchase_currency || 'GBP'
+      );
+
+      if (rows.length === 0) {
+        setMessage(
+          'No sold listings found. Include a header row with at least price and date columns.'
+        );
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from('asset_comparables')
+        .insert(
+          rows.map((r) => ({ ...r, asset_id: asset.id, owner_id: user.id }))
+        )
+        .select('*');
+
+      if (error) {
+        console.error(error);
+        onError(error.message || 'Could not save comparables.');
+        return;
+      }
+
+      onComparablesChange((prev) =>
+        [...((data || []) as Comparable[]), ...prev].sort((a, b) =>
+          b.sold_date.localeCompare(a.sold_date)
+        )
+      );
+      setCsv('');
+      setShowForm(false);
+      setMessage(
+        `Imported ${rows.length} sold listing${rows.length === 1 ? '' : 's'}${
+          skipped > 0 ? `, skipped ${skipped} without a price or date` : ''
+        }. Refresh the valuation to use them.`
+      );
+    } catch (err) {
+      console.error(err);
+      onError(
+        err instanceof Error
+          ? err.message
+          : 'Something went wrong importing comparables.'
+      );
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleDelete = async (comparableId: string) => {
+    onError(null);
+    const { error } = await supabase
+      .from('asset_comparables')
+      .delete()
+      .eq('id', comparableId);
+
+    if (error) {
+      console.error(error);
+      onError(error.message || 'Could not delete comparable.');
+      return;
+    }
+
+    onComparablesChange((prev) => prev.filter((c) => c.id !== comparableId));
+  };
+
+  return (
+    <div className="space-y-3 rounded border bg-white p-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-semibold">Comparable sales</p>
+          <p className="text-[11px] text-slate-500">
+            {isHome
+              ? 'Sold prices for similar homes nearby.'
+              : 'Sold listings for the same or similar items.'}{' '}
+            With three or more, Round values this asset from the market.
+          </p>
+        </div>
+        <button
+          type="button"
+          className="rounded bg-black px-3 py-1.5 text-xs font-medium text-white"
+          onClick={() => setShowForm((prev) => !prev)}
+        >
+          {showForm ? 'Close form' : 'Import sold listings'}
+        </button>
+      </div>
+
+      {showForm && (
+        <form
+          onSubmit={handleImport}
+          className="space-y-2 rounded border border-dashed border-slate-300 bg-slate-50 p-3 text-xs"
+        >
+          <p className="text-[11px] text-slate-600">
+            Paste CSV with a header row: <code>price,date,condition,url</code>{' '}
+            (optional: <code>title</code>, <code>ref</code>,{' '}
+            <code>currency</code>).
+          </p>
+          <textarea
+            value={csv}
+            onChange={(e) => setCsv(e.target.value)}
+            rows={5}
+            placeholder={
+              'price,date,condition,url\n1250,2025-03-14,good,https://www.ebay.co.uk/itm/...'
+            }
+            className="w-full rounded border px-2 py-1.5 font-mono text-[11px]"
+          />
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={importing || !csv.trim()}
+              className="rounded bg-black px-3 py-1.5 text-xs font-medium text-white disabled:bg-slate-500"
+            >
+              {importing ? 'Importing…' : 'Import'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {message && <p className="text-[11px] text-slate-600">{message}</p>}
+
+      {comparables.length === 0 ? (
+        <p className="text-xs text-slate-500">No comparables yet.</p>
+      ) : (
+        <table className="w-full border-collapse text-xs">
+          <thead>
+            <tr className="border-b text-slate-500">
+              <th className="py-1 text-left">Sold</th>
+              <th className="py-1 text-left">Item</th>
+              <th className="py-1 text-left">Condition</th>
+              <th className="py-1 text-right">Price</th>
+              <th className="py-1" />
+            </tr>
+          </thead>
+          <tbody>
+            {comparables.map((c) => (
+              <tr key={c.id} className="border-b">
+                <td className="py-1">{formatDate(c.sold_date)}</td>
+                <td className="py-1">
+                  {c.source_url ? (
+                    <a
+                      href={c.source_url}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="text-sky-700 underline"
+                    >
+                      {c.title || c.source_ref || 'Listing'}
+                    </a>
+                  ) : (
+                    c.title || c.source_ref || '—'
+                  )}
+                </td>
+                <td className="py-1 capitalize">{c.condition || '—'}</td>
+                <td className="py-1 text-right">
+                  {formatMoney(c.sold_price, c.currency, locale)}
+                </td>
+                <td className="py-1 text-right">
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(c.id)}
+                    className="text-[11px] text-red-600"
+                  >
+                    ✕
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
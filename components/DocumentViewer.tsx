@@ -0,0 +1,405 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist';
+import {
+  isRenderCancelled,
+  openPdf,
+  PreviewKind,
+  previewKindOf,
+  renderPdfPage,
+} from '@/lib/documentPreview';
+
+export type ViewerDocument = {
+  id: string;
+  file_url: string;
+  label: string;
+  // Where the document hangs off, e.g. "Upgrade: New boiler".
+  context?: string | null;
+};
+
+type Props = {
+  documents: ViewerDocument[];
+  index: number;
+  onIndexChange: (index: number) => void;
+  onClose: () => void;
+  // Keep this stable (module-level or memoised); a new function reloads
+  // the open document.
+  loadFile: (fileUrl: string) => Promise<Blob>;
+  onOpenInNewTab: (doc: ViewerDocument) => void;
+};
+
+const ZOOM_STEPS = [0.5, 0.75, 1, 1.25, 1.5, 2, 3];
+// Width pages and images are fitted to at 100%.
+const FIT_WIDTH = 800;
+// PDF points are 1/72in; this puts an A4 page at roughly FIT_WIDTH.
+const PDF_SCALE = 1.3;
+// Long scans are cut off here; the full file is a click away.
+const MAX_PDF_PAGES = 50;
+
+type Loaded =
+  | { kind: 'pdf'; pdf: PDFDocumentProxy }
+  | { kind: 'image'; url: string }
+  | { kind: 'other' };
+
+function PdfPage({
+  pdf,
+  pageNumber,
+  zoom,
+  rotation,
+}: {
+  pdf: PDFDocumentProxy;
+  pageNumber: number;
+  zoom: number;
+  rotation: number;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [visible, setVisible] = useState(pageNumber === 1);
+
+  // Pages further down render once they are scrolled near.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || visible) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((e) => e.isIntersecting)) setVisible(true);
+      },
+      { rootMargin: '400px' }
+    );
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, [visible]);
+
+  useEffect(() => {
+    if (!visible) return;
+    let cancelled = false;
+    let task: RenderTask | null = null;
+    const draw = async () => {
+      const page = await pdf.getPage(pageNumber);
+      if (cancelled || !canvasRef.current) return;
+      task = renderPdfPage(page, canvasRef.current, PDF_SCALE * zoom, rotation);
+      await task.promise;
+    };
+    draw().catch((err) => {
+      if (!cancelled && !isRenderCancelled(err)) console.error(err);
+    });
+    // Zooming or rotating mid-render starts a new render on this canvas.
+    return () => {
+      cancelled = true;
+      task?.cancel();
+    };
+  }, [pdf, pageNumber, zoom, rotation, visible]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="mx-auto block bg-white shadow"
+      style={
+        visible
+          ? undefined
+          : { width: FIT_WIDTH * zoom, height: FIT_WIDTH * zoom * 1.41 }
+      }
+    />
+  );
+}
+
+function ZoomableImage({
+  url,
+  label,
+  zoom,
+  rotation,
+}: {
+  url: string;
+  label: string;
+  zoom: number;
+  rotation: number;
+}) {
+  const [natural, setNatural] = useState<{ w: number; h: number } | null>(
+    null
+  );
+
+  const fit = natural ? Math.min(1, FIT_WIDTH / natural.w) : 1;
+  const w = natural ? natural.w * fit * zoom : 0;
+  const h = natural ? natural.h * fit * zoom : 0;
+  const sideways = rotation % 180 !== 0;
+
+  // The wrapper takes the rotated size so the scroll area matches what is
+  // on screen; the image is turned about its centre inside it.
+  return (
+    <div
+      className="relative mx-auto"
+      style={
+        natural
+          ? { width: sideways ? h : w, height: sideways ? w : h }
+          : undefined
+      }
+    >
+      {/* eslint-disable-next-line @next/next/no-img-element -- blob URL */}
+      <img
+        src={url}
+        alt={label}
+        onLoad={(e) =>
+          setNatural({
+            w: e.currentTarget.naturalWidth,
+            h: e.currentTarget.naturalHeight,
+          })
+        }
+        className="absolute left-1/2 top-1/2 max-w-none bg-white shadow"
+        style={{
+          width: w || undefined,
+          height: h || undefined,
+          transform: `translate(-50%, -50%) rotate(${rotation}deg)`,
+        }}
+      />
+    </div>
+  );
+}
+
+export default function DocumentViewer({
+  documents,
+  index,
+  onIndexChange,
+  onClose,
+  loadFile,
+  onOpenInNewTab,
+}: Props) {
+  const doc = documents[index] ?? null;
+  const fileUrl = doc?.file_url ?? null;
+  // Results are tagged with their file so a stale one is never shown.
+  const [result, setResult] = useState<{
+    fileUrl: string;
+    loaded?: Loaded;
+    error?: string;
+  } | null>(null);
+  const [zoom, setZoom] = useState(1);
+  const [rotation, setRotation] = useState(0);
+  const [viewedUrl, setViewedUrl] = useState(fileUrl);
+
+  // Each document opens unzoomed and upright.
+  if (viewedUrl !== fileUrl) {
+    setViewedUrl(fileUrl);
+    setZoom(1);
+    setRotation(0);
+  }
+
+  const current = result && result.fileUrl === fileUrl ? result : null;
+  const loaded = current?.loaded ?? null;
+  const error = current?.error ?? null;
+
+  const hasPrev = index > 0;
+  const hasNext = index < documents.length - 1;
+
+  const zoomBy = (direction: 1 | -1) =>
+    setZoom((current) => {
+      const i = ZOOM_STEPS.indexOf(current);
+      const next = ZOOM_STEPS[i + direction];
+      return next ?? current;
+    });
+  const rotate = () => setRotation((r) => (r + 90) % 360);
+
+  // Keyed on the file rather than the document object, which the page
+  // rebuilds on every render.
+  useEffect(() => {
+    if (!fileUrl) return;
+    let cancelled = false;
+    let cleanup: (() => void) | null = null;
+
+    const load = async () => {
+      const blob = await loadFile(fileUrl);
+      const kind: PreviewKind = await previewKindOf(blob, fileUrl);
+      if (cancelled) return;
+
+      if (kind === 'pdf') {
+        const pdf = await openPdf(blob);
+        cleanup = () => void pdf.destroy();
+        if (cancelled) return cleanup();
+        setResult({ fileUrl, loaded: { kind: 'pdf', pdf } });
+      } else if (kind === 'image') {
+        const url = URL.createObjectURL(blob);
+        cleanup = () => URL.revokeObjectURL(url);
+        setResult({ fileUrl, loaded: { kind: 'image', url } });
+      } else {
+        setResult({ fileUrl, loaded: { kind: 'other' } });
+      }
+    };
+
+    load().catch((err) => {
+      if (cancelled) return;
+      console.error(err);
+      setResult({
+        fileUrl,
+        error:
+          err instanceof Error ? err.message : 'Could not load this document.',
+      });
+    });
+
+    return () => {
+      cancelled = true;
+      cleanup?.();
+    };
+  }, [fileUrl, loadFile]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      else if (e.key === 'ArrowLeft' && hasPrev) onIndexChange(index - 1);
+      else if (e.key === 'ArrowRight' && hasNext) onIndexChange(index + 1);
+      else if (e.key === '+' || e.key === '=') zoomBy(1);
+      else if (e.key === '-') zoomBy(-1);
+      else if (e.key === 'r') rotate();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [index, hasPrev, hasNext, onClose, onIndexChange]);
+
+  if (!doc) return null;
+
+  const pageCount =
+    loaded?.kind === 'pdf' ? Math.min(loaded.pdf.numPages, MAX_PDF_PAGES) : 0;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex flex-col bg-slate-900/80"
+      role="dialog"
+      aria-modal="true"
+      aria-label={doc.label}
+    >
+      <div className="flex flex-wrap items-center gap-2 bg-white px-4 py-2 text-xs">
+        <div className="min-w-0 flex-1">
+          <p className="truncate text-sm font-semibold">{doc.label}</p>
+          <p className="truncate text-[11px] text-slate-500">
+            {[doc.context, `${index + 1} of ${documents.length}`]
+              .filter(Boolean)
+              .join(' · ')}
+          </p>
+        </div>
+
+        <button
+          type="button"
+          onClick={() => onIndexChange(index - 1)}
+          disabled={!hasPrev}
+          className="rounded border px-2 py-1 disabled:text-slate-300"
+        >
+          ‹ Prev
+        </button>
+        <button
+          type="button"
+          onClick={() => onIndexChange(index + 1)}
+          disabled={!hasNext}
+          className="rounded border px-2 py-1 disabled:text-slate-300"
+        >
+          Next ›
+        </button>
+
+        {loaded && loaded.kind !== 'other' && (
+          <>
+            <span className="mx-1 h-4 w-px bg-slate-200" />
+            <button
+              type="button"
+              onClick={() => zoomBy(-1)}
+              disabled={zoom === ZOOM_STEPS[0]}
+              className="rounded border px-2 py-1 disabled:text-slate-300"
+              title="Zoom out (-)"
+            >
+              −
+            </button>
+            <button
+              type="button"
+              onClick={() => setZoom(1)}
+              className="w-12 rounded border px-1 py-1 text-center"
+              title="Reset zoom"
+            >
+              {Math.round(zoom * 100)}%
+            </button>
+            <button
+              type="button"
+              onClick={() => zoomBy(1)}
+              disabled={zoom === ZOOM_STEPS[ZOOM_STEPS.length - 1]}
+              className="rounded border px-2 py-1 disabled:text-slate-300"
+              title="Zoom in (+)"
+            >
+              +
+            </button>
+            <button
+              type="button"
+              onClick={rotate}
+              className="rounded border px-2 py-1"
+              title="Rotate (r)"
+            >
+              ↻ Rotate
+            </button>
+          </>
+        )}
+
+        <span className="mx-1 h-4 w-px bg-slate-200" />
+        <button
+          type="button"
+          onClick={() => onOpenInNewTab(doc)}
+          className="rounded border px-2 py-1"
+        >
+          Open in new tab
+        </button>
+        <button
+          type="button"
+          onClick={onClose}
+          className="rounded bg-black px-2 py-1 font-medium text-white"
+          title="Close (Esc)"
+        >
+          ✕
+        </button>
+      </div>
+
+      <div
+        className="flex-1 overflow-auto p-4"
+        onClick={(e) => {
+          if (e.target === e.currentTarget) onClose();
+        }}
+      >
+        {error ? (
+          <p className="mx-auto max-w-md rounded bg-white p-4 text-sm text-red-700">
+            {error}
+          </p>
+        ) : !loaded ? (
+          <p className="text-center text-sm text-white">Loading…</p>
+        ) : loaded.kind === 'pdf' ? (
+          <div className="space-y-4">
+            {Array.from({ length: pageCount }, (_, i) => (
+              <PdfPage
+                key={i}
+                pdf={loaded.pdf}
+                pageNumber={i + 1}
+                zoom={zoom}
+                rotation={rotation}
+              />
+            ))}
+            {loaded.pdf.numPages > pageCount && (
+              <p className="text-center text-xs text-white">
+                Showing the first {pageCount} of {loaded.pdf.numPages} pages –
+                open it in a new tab to see the rest.
+              </p>
+            )}
+          </div>
+        ) : loaded.kind === 'image' ? (
+          <ZoomableImage
+            key={loaded.url}
+            url={loaded.url}
+            label={doc.label}
+            zoom={zoom}
+            rotation={rotation}
+          />
+        ) : (
+          <div className="mx-auto max-w-md space-y-2 rounded bg-white p-4 text-sm">
+            <p>There&apos;s no preview for this type of file.</p>
+            <button
+              type="button"
+              onClick={() => onOpenInNewTab(doc)}
+              className="text-sky-700 underline"
+            >
+              Open it in a new tab
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
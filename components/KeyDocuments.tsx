@@ -0,0 +1,639 @@
+'use client';
+
+import {
+  ChangeEvent,
+  Dispatch,
+  DragEvent,
+  FormEvent,
+  SetStateAction,
+  useEffect,
+  useRef,
+  useState,
+} from 'react';
+import { useRouter } from 'next/navigation';
+import { supabase } from '@/lib/supabaseClient';
+import { formatDate } from '@/lib/dates';
+import {
+  DOCUMENT_TYPES,
+  documentExpiry,
+  DocumentType,
+  groupDocumentsByType,
+  guessDocumentType,
+} from '@/lib/documents';
+import { requestDocumentText } from '@/lib/documentSearch';
+import {
+  previewKindFromPath,
+  renderThumbnail,
+  thumbnailPath,
+} from '@/lib/documentPreview';
+import {
+  createSignedFileUrls,
+  DOCUMENTS_BUCKET,
+  downloadStoredFile,
+  uploadDocumentFile,
+} from '@/lib/storage';
+
+// The asset_documents columns this section reads.
+type AssetDocument = {
+  id: string;
+  owner_id: string;
+  file_url: string;
+  notes: string | null;
+  doc_type: string | null;
+  issuer: string | null;
+  issued_on: string | null;
+  expires_on: string | null;
+  uploaded_at: string;
+  thumbnail_url: string | null;
+  upgrade_id: string | null;
+  service_id: string | null;
+};
+
+type Props = {
+  asset: { id: string };
+  // Every document on the asset; only the asset-level ones are listed here.
+  documents: AssetDocument[];
+  onDocumentsChange: Dispatch<SetStateAction<AssetDocument[]>>;
+  onViewDocument: (documentId: string) => void;
+  onDeleteDocument: (documentId: string) => void;
+  onError: (message: string | null) => void;
+};
+
+type DocumentDetails = {
+  doc_type: DocumentType | '';
+  issuer: string;
+  issued_on: string;
+  expires_on: string;
+};
+
+const EMPTY_DOCUMENT_DETAILS: DocumentDetails = {
+  doc_type: '',
+  issuer: '',
+  issued_on: '',
+  expires_on: '',
+};
+
+// Thumbnails sit on the page for a while; there's no need to re-sign them
+// as often as a link someone is about to click. They are re-signed a minute
+// before they run out.
+const THUMBNAIL_URL_TTL_SECONDS = 60 * 60;
+const THUMBNAIL_RESIGN_MARGIN_MS = 60 * 1000;
+
+type SignedThumbnail = { url: string; expiresAt: number };
+
+function documentDetailsForSave(details: DocumentDetails) {
+  return {
+    doc_type: details.doc_type || null,
+    issuer: details.issuer.trim() || null,
+    issued_on: details.issued_on || null,
+    expires_on: details.expires_on || null,
+  };
+}
+
+function DocumentDetailsFields({
+  value,
+  onChange,
+}: {
+  value: DocumentDetails;
+  onChange: (next: DocumentDetails) => void;
+}) {
+  const expires = DOCUMENT_TYPES.find((t) => t.value === value.doc_type)
+    ?.expires;
+
+  return (
+    <div className="grid gap-2 sm:grid-cols-2">
+      <select
+        value={value.doc_type}
+        onChange={(e) =>
+          onChange({ ...value, doc_type: e.target.value as DocumentType | '' })
+        }
+        className="rounded border px-2 py-1.5"
+      >
+        <option value="">Type: other</option>
+        {DOCUMENT_TYPES.map((t) => (
+          <option key={t.value} value={t.value}>
+            {t.label}
+          </option>
+        ))}
+      </select>
+      <input
+        type="text"
+        value={value.issuer}
+        onChange={(e) => onChange({ ...value, issuer: e.target.value })}
+        placeholder="Issued by (e.g. British Gas)"
+        className="rounded border px-2 py-1.5"
+      />
+      <label className="flex items-center gap-2">
+        <span className="w-14 text-slate-500">Issued</span>
+        <input
+          type="date"
+          value={value.issued_on}
+          onChange={(e) => onChange({ ...value, issued_on: e.target.value })}
+          className="flex-1 rounded border px-2 py-1"
+        />
+      </label>
+      <label className="flex items-center gap-2">
+        <span className="w-14 text-slate-500">
+          {expires ? 'Expires' : 'Expires?'}
+        </span>
+        <input
+          type="date"
+          value={value.expires_on}
+          onChange={(e) => onChange({ ...value, expires_on: e.target.value })}
+          className="flex-1 rounded border px-2 py-1"
+        />
+      </label>
+    </div>
+  );
+}
+
+function ExpiryBadge({ expiresOn }: { expiresOn: string | null }) {
+  const expiry = documentExpiry(expiresOn);
+  if (!expiry) return null;
+
+  if (expiry.state === 'expired') {
+    return (
+      <span className="rounded-full bg-red-100 px-1.5 py-0.5 text-[10px] font-medium text-red-800">
+        Expired {formatDate(expiresOn)}
+      </span>
+    );
+  }
+  if (expiry.state === 'expiring') {
+    return (
+      <span className="rounded-full bg-amber-100 px-1.5 py-0.5 text-[10px] font-medium text-amber-800">
+        {expiry.days === 0
+          ? 'Expires today'
+          : `Expires in ${expiry.days} day${expiry.days === 1 ? '' : 's'}`}
+      </span>
+    );
+  }
+  return (
+    <span className="text-[10px] text-slate-500">
+      Valid to {formatDate(expiresOn)}
+    </span>
+  );
+}
+
+export default function KeyDocuments({
+  asset,
+  documents,
+  onDocumentsChange,
+  onViewDocument,
+  onDeleteDocument,
+  onError,
+}: Props) {
+  const router = useRouter();
+
+  // Asset-level doc upload
+  const [showForm, setShowForm] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [notes, setNotes] = useState('');
+  const [details, setDetails] = useState<DocumentDetails>(
+    EMPTY_DOCUMENT_DETAILS
+  );
+  const [saving, setSaving] = useState(false);
+  const [editingDocId, setEditingDocId] = useState<string | null>(null);
+  const [editingDetails, setEditingDetails] = useState<DocumentDetails>(
+    EMPTY_DOCUMENT_DETAILS
+  );
+
+  // Thumbnails by document id
+  const [thumbnailUrls, setThumbnailUrls] = useState<
+    Record<string, SignedThumbnail>
+  >({});
+  // Documents already tried this visit, so a file that can't be drawn
+  // isn't downloaded again on every change to the list.
+  const thumbnailAttempts = useRef(new Set<string>());
+  // A thumbnail that fails to load is re-signed once, then shown as an icon.
+  const thumbnailRetried = useRef(new Set<string>());
+  const brokenThumbnails = useRef(new Set<string>());
+
+  const assetLevelDocuments = documents.filter(
+    (d) => !d.upgrade_id && !d.service_id
+  );
+
+  // Sign the stored thumbnails there isn't a URL for yet.
+  useEffect(() => {
+    const missing = documents.filter(
+      (d): d is AssetDocument & { thumbnail_url: string } =>
+        !!d.thumbnail_url &&
+        !thumbnailUrls[d.id] &&
+        !brokenThumbnails.current.has(d.id)
+    );
+    if (missing.length === 0) return;
+
+    createSignedFileUrls(
+      supabase,
+      missing.map((d) => d.thumbnail_url),
+      DOCUMENTS_BUCKET,
+      THUMBNAIL_URL_TTL_SECONDS
+    )
+      .then((byPath) => {
+        const expiresAt = Date.now() + THUMBNAIL_URL_TTL_SECONDS * 1000;
+        const next: Record<string, SignedThumbnail> = {};
+        for (const d of missing) {
+          if (byPath[d.thumbnail_url]) {
+            next[d.id] = { url: byPath[d.thumbnail_url], expiresAt };
+          }
+        }
+        if (Object.keys(next).length > 0) {
+          setThumbnailUrls((prev) => ({ ...prev, ...next }));
+        }
+      })
+      .catch((err) => console.error(err));
+  }, [documents, thumbnailUrls]);
+
+  // Drop signed URLs just before they expire; the effect above signs them
+  // again.
+  useEffect(() => {
+    const expiries = Object.values(thumbnailUrls).map((t) => t.expiresAt);
+    if (expiries.length === 0) return;
+
+    const wait = Math.max(
+      0,
+      Math.min(...expiries) - THUMBNAIL_RESIGN_MARGIN_MS - Date.now()
+    );
+    const timer = setTimeout(() => {
+      const cutoff = Date.now() + THUMBNAIL_RESIGN_MARGIN_MS;
+      setThumbnailUrls((prev) => {
+        const next: Record<string, SignedThumbnail> = {};
+        for (const [id, t] of Object.entries(prev)) {
+          if (t.expiresAt > cutoff) next[id] = t;
+        }
+        return next;
+      });
+    }, wait);
+    return () => clearTimeout(timer);
+  }, [thumbnailUrls]);
+
+  const handleThumbnailError = (docId: string) => {
+    if (thumbnailRetried.current.has(docId)) {
+      brokenThumbnails.current.add(docId);
+    } else {
+      thumbnailRetried.current.add(docId);
+    }
+    setThumbnailUrls((prev) => {
+      const next = { ...prev };
+      delete next[docId];
+      return next;
+    });
+  };
+
+  // Make thumbnails for documents that don't have one, one at a time, and
+  // store them; once the row has the path, the signing effect shows it.
+  useEffect(() => {
+    const pending = documents.filter(
+      (d) =>
+        !d.upgrade_id &&
+        !d.service_id &&
+        !d.thumbnail_url &&
+        d.file_url &&
+        previewKindFromPath(d.file_url) !== 'other' &&
+        !thumbnailAttempts.current.has(d.id)
+    );
+    if (pending.length === 0) return;
+    pending.forEach((d) => thumbnailAttempts.current.add(d.id));
+
+    const generate = async () => {
+      for (const d of pending) {
+        try {
+          const stored = await downloadStoredFile(
+            supabase,
+            d.file_url,
+            DOCUMENTS_BUCKET
+          );
+          const thumbnail = await renderThumbnail(stored, d.file_url);
+          if (!thumbnail) continue;
+
+          const path = thumbnailPath(d.owner_id, d.id);
+          const { error: uploadError } = await supabase.storage
+            .from(DOCUMENTS_BUCKET)
+            .upload(path, thumbnail, {
+              contentType: 'image/jpeg',
+              upsert: true,
+            });
+          if (uploadError) throw uploadError;
+
+          const { error: updateError } = await supabase
+            .from('asset_documents')
+            .update({ thumbnail_url: path })
+            .eq('id', d.id);
+          if (updateError) throw updateError;
+
+          onDocumentsChange((prev) =>
+            prev.map((doc) =>
+              doc.id === d.id ? { ...doc, thumbnail_url: path } : doc
+            )
+          );
+        } catch (err) {
+          // The card falls back to an icon; nothing for the user to do.
+          console.error(err);
+        }
+      }
+    };
+
+    generate();
+  }, [documents, onDocumentsChange]);
+
+  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const picked = e.target.files?.[0];
+    if (picked) setFile(picked);
+  };
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    const dropped = e.dataTransfer.files?.[0];
+    if (dropped) setFile(dropped);
+  };
+
+  const handleDragOver = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+  };
+
+  const handleAdd = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+
+    setSaving(true);
+    onError(null);
+
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) {
+        router.push('/login');
+        return;
+      }
+
+      const fileUrl = await uploadDocumentFile(
+        supabase,
+        file,
+        user.id,
+        asset.id
+      );
+
+      const { data, error } = await supabase
+        .from('asset_documents')
+        .insert({
+          asset_id: asset.id,
+          owner_id: user.id,
+          file_url: fileUrl,
+          notes: notes || null,
+          ...documentDetailsForSave(details),
+          upgrade_id: null,
+          service_id: null,
+        })
+        .select('*')
+        .maybeSingle();
+
+      if (error) {
+        console.error(error);
+        onError(error.message || 'Could not save document.');
+        return;
+      }
+
+      if (!data) {
+        onError('Could not save document.');
+        return;
+      }
+
+      onDocumentsChange((prev) => [data as AssetDocument, ...prev]);
+      requestDocumentText(data.id);
+      setFile(null);
+      setNotes('');
+      setDetails(EMPTY_DOCUMENT_DETAILS);
+      setShowForm(false);
+    } catch (err) {
+      console.error(err);
+      onError(
+        err instanceof Error
+          ? err.message
+          : 'Something went wrong saving the document.'
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleStartEdit = (d: AssetDocument) => {
+    setEditingDocId(d.id);
+    setEditingDetails({
+      doc_type: (d.doc_type as DocumentType | null) ?? '',
+      issuer: d.issuer ?? '',
+      issued_on: d.issued_on ?? '',
+      expires_on: d.expires_on ?? '',
+    });
+  };
+
+  const handleSaveDetails = async (docId: string) => {
+    onError(null);
+    const updates = documentDetailsForSave(editingDetails);
+
+    const { error } = await supabase
+      .from('asset_documents')
+      .update(updates)
+      .eq('id', docId);
+
+    if (error) {
+      console.error(error);
+      onError(error.message || 'Could not update the document.');
+      return;
+    }
+
+    onDocumentsChange((prev) =>
+      prev.map((d) => (d.id === docId ? { ...d, ...updates } : d))
+    );
+    setEditingDocId(null);
+  };
+
+  return (
+    <div className="space-y-3 rounded border bg-white p-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-semibold">Key documents</p>
+          <p className="text-[11px] text-slate-500">
+            Warranties, certificates, surveys, valuations – anything that
+            underpins value. Expired and soon-to-expire ones are flagged;
+            click a card to preview it.
+          </p>
+        </div>
+        <button
+          type="button"
+          className="rounded bg-black px-3 py-1.5 text-xs font-medium text-white"
+          onClick={() => setShowForm((prev) => !prev)}
+        >
+          {showForm ? 'Close form' : 'Add document'}
+        </button>
+      </div>
+
+      {assetLevelDocuments.length === 0 ? (
+        <p className="text-xs text-slate-500">No documents uploaded yet.</p>
+      ) : (
+        <div className="space-y-3">
+          {groupDocumentsByType(assetLevelDocuments).map((group) => (
+            <div key={group.type ?? 'other'} className="space-y-1">
+              <p className="text-[11px] font-semibold uppercase tracking-wide text-slate-500">
+                {group.label}
+              </p>
+              <div className="grid gap-2 sm:grid-cols-2">
+                {group.docs.map((d) => {
+                  const expiry = documentExpiry(d.expires_on);
+                  return (
+                    <div
+                      key={d.id}
+                      id={`document-${d.id}`}
+                      className={`flex gap-3 rounded border p-2 text-xs ${
+                        editingDocId === d.id ? 'sm:col-span-2' : ''
+                      } ${
+                        expiry?.state === 'expired'
+                          ? 'border-red-200 bg-red-50'
+                          : expiry?.state === 'expiring'
+                          ? 'border-amber-200 bg-amber-50'
+                          : 'bg-slate-50'
+                      }`}
+                    >
+                      <button
+                        type="button"
+                        onClick={() => onViewDocument(d.id)}
+                        className="flex h-24 w-20 shrink-0 items-center justify-center overflow-hidden rounded border bg-white"
+                        title="Preview"
+                      >
+                        {thumbnailUrls[d.id] ? (
+                          // eslint-disable-next-line @next/next/no-img-element -- signed storage URL
+                          <img
+                            src={thumbnailUrls[d.id].url}
+                            onError={() => handleThumbnailError(d.id)}
+                            alt=""
+                            className="h-full w-full object-cover object-top"
+                          />
+                        ) : (
+                          <span className="text-2xl">📄</span>
+                        )}
+                      </button>
+                      <div className="min-w-0 flex-1">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <button
+                            type="button"
+                            onClick={() => onViewDocument(d.id)}
+                            className="max-w-[220px] truncate text-left text-sky-700 underline"
+                          >
+                            {d.notes || 'Document'}
+                          </button>
+                          <ExpiryBadge expiresOn={d.expires_on} />
+                          <span className="ml-auto flex gap-2">
+                            <button
+                              type="button"
+                              onClick={() =>
+                                editingDocId === d.id
+                                  ? setEditingDocId(null)
+                                  : handleStartEdit(d)
+                              }
+                              className="text-[11px] text-slate-600"
+                            >
+                              {editingDocId === d.id ? 'Cancel' : 'Edit'}
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => onDeleteDocument(d.id)}
+                              className="text-[11px] text-red-600"
+                            >
+                              ✕
+                            </button>
+                          </span>
+                        </div>
+                        <p className="mt-0.5 text-[10px] text-slate-500">
+                          {[
+                            d.issuer,
+                            d.issued_on
+                              ? `issued ${formatDate(d.issued_on)}`
+                              : null,
+                            `uploaded ${formatDate(d.uploaded_at)}`,
+                          ]
+                            .filter(Boolean)
+                            .join(' · ')}
+                        </p>
+                        {editingDocId === d.id && (
+                          <div className="mt-2 space-y-2">
+                            <DocumentDetailsFields
+                              value={editingDetails}
+                              onChange={setEditingDetails}
+                            />
+                            <div className="flex justify-end">
+                              <button
+                                type="button"
+                                onClick={() => handleSaveDetails(d.id)}
+                                className="rounded bg-black px-3 py-1 text-[11px] font-medium text-white"
+                              >
+                                Save details
+                              </button>
+                            </div>
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {showForm && (
+        <form
+          onSubmit={handleAdd}
+          className="mt-3 space-y-2 rounded border border-dashed border-slate-300 bg-slate-50 p-3 text-xs"
+        >
+          <p className="font-medium text-slate-700">Add a document</p>
+          <input
+            type="text"
+            value={notes}
+            onChange={(e) => {
+              const label = e.target.value;
+              setNotes(label);
+              // Suggest a type from the label until one is picked.
+              if (!details.doc_type) {
+                const guessed = guessDocumentType(label);
+                if (guessed) {
+                  setDetails((prev) => ({ ...prev, doc_type: guessed }));
+                }
+              }
+            }}
+            placeholder="Label (e.g. Gas safety certificate)"
+            className="w-full rounded border px-2 py-1.5"
+          />
+          <DocumentDetailsFields value={details} onChange={setDetails} />
+          <div
+            onDragOver={handleDragOver}
+            onDrop={handleDrop}
+            className="flex flex-col items-center justify-center rounded border border-dashed border-slate-300 bg-slate-100 p-3 text-center"
+          >
+            <p>Drag &amp; drop PDF or image here</p>
+            <p className="text-[11px] text-slate-500">or click to choose</p>
+            <input
+              type="file"
+              accept="application/pdf,image/*"
+              className="mt-2 text-xs"
+              onChange={handleFileChange}
+            />
+            {file && (
+              <p className="mt-2 text-[11px] text-slate-700">
+                Selected: {file.name}
+              </p>
+            )}
+          </div>
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={saving || !file}
+              className="rounded bg-black px-3 py-1.5 text-xs font-medium text-white disabled:bg-slate-500"
+            >
+              {saving ? 'Saving…' : 'Add document'}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+'use client';
+
+import { formatMoney } from '@/lib/money';
+import { formatDate } from '@/lib/dates';
+import type { ExtractedReceipt } from '@/lib/receipts/parseReceipt';
+import type {
+  FieldConfidence,
+  ReceiptTextSource,
+} from '@/lib/receipts/extractReceipt';
+import type {
+  ReceiptJobStage,
+  ReceiptJobStatus,
+} from '@/lib/receipts/jobQueue';
+
+export type ReceiptJob = {
+  id: string;
+  asset_id: string;
+  receipt_url: string | null;
+  status: ReceiptJobStatus;
+  extracted_json: ExtractedReceipt | null;
+  raw_text: string | null;
+  error: string | null;
+  parser_version: string | null;
+  text_source: ReceiptTextSource | null;
+  ocr_confidence: number | null;
+  field_confidence: FieldConfidence | null;
+  ocr_meta: { rotation: number; skew_degrees: number } | null;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  stage: ReceiptJobStage | null;
+  started_at: string | null;
+  finished_at: string | null;
+  created_at: string;
+};
+
+// How often the receipt section checks on a queued or running read.
+export const RECEIPT_JOB_POLL_MS = 2500;
+
+export function isActiveReceiptJob(job: ReceiptJob): boolean {
+  return job.status === 'pending' || job.status === 'processing';
+}
+
+const RECEIPT_SOURCE_LABELS: Record<ReceiptTextSource, string> = {
+  pdf_text: 'PDF text',
+  ocr: 'OCR',
+  email: 'Email',
+};
+
+function formatTime(dateStr: string): string {
+  return new Date(dateStr).toLocaleTimeString([], {
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export function receiptReadMessage(
+  job: ReceiptJob,
+  fallbackCurrency: string,
+  locale: string
+): string | null {
+  if (job.status !== 'completed' || !job.extracted_json) return null;
+  const extracted = job.extracted_json;
+  return extracted.total != null
+    ? `Round read a total of ${formatMoney(
+        extracted.total,
+        extracted.currency || fallbackCurrency,
+        locale,
+        { exact: true }
+      )}${extracted.merchant ? ` from ${extracted.merchant}` : ''}.`
+    : 'Round read this receipt but could not find a total.';
+}
+
+export function ReceiptJobProgress({ job }: { job: ReceiptJob }) {
+  const retrying = job.status === 'pending' && job.attempts > 0;
+
+  const [label, percent] =
+    job.status === 'processing'
+      ? job.stage === 'reading'
+        ? ['Reading the receipt… photos and scans take a little longer.', 70]
+        : ['Fetching the receipt…', 35]
+      : retrying
+      ? [
+          `Attempt ${job.attempts} of ${job.max_attempts} failed. Trying again at ${formatTime(
+            job.next_attempt_at
+          )}.`,
+          15,
+        ]
+      : ['Queued – Round will start reading in a moment.', 10];
+
+  return (
+    <div className="space-y-1 rounded bg-slate-50 p-2 text-[11px] text-slate-700">
+      <p>{label}</p>
+      <div className="h-1.5 w-full overflow-hidden rounded-full bg-slate-200">
+        <div
+          className={`h-full rounded-full transition-all ${
+            retrying ? 'bg-amber-500' : 'bg-slate-900'
+          }`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      {retrying && job.error && (
+        <p className="text-amber-800">Last error: {job.error}</p>
+      )}
+    </div>
+  );
+}
+
+export function ReceiptJobHistory({
+  jobs,
+  fallbackCurrency,
+  locale,
+}: {
+  jobs: ReceiptJob[];
+  fallbackCurrency: string;
+  locale: string;
+}) {
+  return (
+    <details className="text-[11px]">
+      <summary className="cursor-pointer text-slate-500">
+        History ({jobs.length} {jobs.length === 1 ? 'read' : 'reads'})
+      </summary>
+      <table className="mt-2 w-full border-collapse">
+        <thead>
+          <tr className="border-b text-left text-slate-500">
+            <th className="py-1 font-normal">Requested</th>
+            <th className="py-1 font-normal">Status</th>
+            <th className="py-1 font-normal">Attempts</th>
+            <th className="py-1 font-normal">Read from</th>
+            <th className="py-1 font-normal">Result</th>
+          </tr>
+        </thead>
+        <tbody>
+          {jobs.map((job) => (
+            <tr key={job.id} className="border-b last:border-0 align-top">
+              <td className="py-1 pr-2">
+                {formatDate(job.created_at)} {formatTime(job.created_at)}
+              </td>
+              <td className="py-1 pr-2 font-medium">
+                {job.status === 'processing' && job.stage
+                  ? `processing (${job.stage})`
+                  : job.status}
+              </td>
+              <td className="py-1 pr-2">
+                {job.attempts}/{job.max_attempts}
+              </td>
+              <td className="py-1 pr-2">
+                {job.text_source ? RECEIPT_SOURCE_LABELS[job.text_source] : '—'}
+                {job.text_source === 'ocr' && job.ocr_confidence != null
+                  ? ` (${Math.round(job.ocr_confidence)}%)`
+                  : ''}
+              </td>
+              <td className="py-1">
+                {job.status === 'completed' && job.extracted_json
+                  ? job.extracted_json.total != null
+                    ? `Total ${formatMoney(
+                        job.extracted_json.total,
+                        job.extracted_json.currency || fallbackCurrency,
+                        locale,
+                        { exact: true }
+                      )}`
+                    : 'No total found'
+                  : job.error || '—'}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </details>
+  );
+}
@@ -0,0 +1,312 @@
+'use client';
+
+import { Dispatch, SetStateAction, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { supabase } from '@/lib/supabaseClient';
+import { authedFetch } from '@/lib/apiClient';
+import { formatDate } from '@/lib/dates';
+import {
+  buildReceiptReview,
+  mainLineItem,
+  ReviewValue,
+} from '@/lib/receipts/review';
+import { CategoryOption, splitReceipt } from '@/lib/receipts/split';
+import ReceiptReviewPanel, {
+  ExtractedReceiptSummary,
+  FieldSource,
+} from '@/components/ReceiptReview';
+import ReceiptSplitPanel, {
+  ReceiptSibling,
+} from '@/components/ReceiptSplitPanel';
+import {
+  isActiveReceiptJob,
+  RECEIPT_JOB_POLL_MS,
+  ReceiptJob,
+  ReceiptJobHistory,
+  ReceiptJobProgress,
+  receiptReadMessage,
+} from '@/components/ReceiptJobs';
+
+type Props = {
+  asset: {
+    id: string;
+    title: string | null;
+    status: string | null;
+    brand: string | null;
+    model_name: string | null;
+    purchase_price: number | null;
+    purchase_currency: string | null;
+    purchase_date: string | null;
+    merchant: string | null;
+    receipt_url: string | null;
+    receipt_line: number | null;
+  };
+  isHome: boolean;
+  // Every read of this asset's receipt, newest first.
+  jobs: ReceiptJob[];
+  onJobsChange: Dispatch<SetStateAction<ReceiptJob[]>>;
+  fieldSources: FieldSource[];
+  onFieldSourcesChange: Dispatch<SetStateAction<FieldSource[]>>;
+  // Other assets split off the same receipt.
+  siblings: ReceiptSibling[];
+  onSiblingsChange: Dispatch<SetStateAction<ReceiptSibling[]>>;
+  categories: CategoryOption[];
+  onAssetUpdated: (updates: Record<string, ReviewValue>) => void;
+  onError: (message: string | null) => void;
+  locale: string;
+};
+
+export default function ReceiptRecognition({
+  asset,
+  isHome,
+  jobs,
+  onJobsChange,
+  fieldSources,
+  onFieldSourcesChange,
+  siblings,
+  onSiblingsChange,
+  categories,
+  onAssetUpdated,
+  onError,
+  locale,
+}: Props) {
+  const router = useRouter();
+
+  const [recognising, setRecognising] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const latestReceiptJob = jobs[0] ?? null;
+  const activeReceiptJob = jobs.find(isActiveReceiptJob) ?? null;
+  // The review panel and summary work from the newest successful read.
+  const receiptJob = jobs.find((j) => j.status === 'completed') ?? null;
+  const fallbackCurrency = asset.purchase_currency || 'GBP';
+
+  // While a read is queued or running, keep the job list fresh.
+  const activeJobId = activeReceiptJob?.id ?? null;
+  useEffect(() => {
+    if (!activeJobId) return;
+
+    const timer = setInterval(async () => {
+      const { data, error: jobsError } = await supabase
+        .from('receipt_ai_jobs')
+        .select('*')
+        .eq('asset_id', asset.id)
+        .order('created_at', { ascending: false });
+
+      if (jobsError || !data) {
+        console.error(jobsError);
+        return;
+      }
+
+      const fresh = data as ReceiptJob[];
+      onJobsChange(fresh);
+
+      const watched = fresh.find((j) => j.id === activeJobId);
+      if (watched && !isActiveReceiptJob(watched)) {
+        setMessage(receiptReadMessage(watched, fallbackCurrency, locale));
+      }
+    }, RECEIPT_JOB_POLL_MS);
+
+    return () => clearInterval(timer);
+  }, [asset.id, activeJobId, fallbackCurrency, locale, onJobsChange]);
+
+  const handleRead = async () => {
+    if (!asset.receipt_url) return;
+
+    onError(null);
+    setRecognising(true);
+    setMessage(null);
+
+    try {
+      const res = await authedFetch(
+        `/api/assets/${asset.id}/receipt-extraction`,
+        { method: 'POST' }
+      );
+
+      if (res.status === 401) {
+        router.push('/login');
+        return;
+      }
+
+      const body = await res.json();
+
+      if (!res.ok) {
+        onError(body.error || 'Could not read this receipt.');
+        return;
+      }
+
+      // Queued (or already queued); polling picks it up from here.
+      const job = body.job as ReceiptJob;
+      onJobsChange((prev) => [job, ...prev.filter((j) => j.id !== job.id)]);
+    } catch (err) {
+      console.error(err);
+      onError(
+        err instanceof Error
+          ? err.message
+          : 'Something went wrong reading the receipt.'
+      );
+    } finally {
+      setRecognising(false);
+    }
+  };
+
+  const reviewRows =
+    receiptJob?.status === 'completed' && receiptJob.extracted_json
+      ? buildReceiptReview(
+          receiptJob.extracted_json,
+          asset,
+          receiptJob.field_confidence
+        ).filter(
+          // Homes have no brand or model to fill in.
+          (r) => !isHome || (r.field !== 'brand' && r.field !== 'model_name')
+        )
+      : [];
+  const splitLines =
+    receiptJob?.extracted_json && !isHome
+      ? splitReceipt(receiptJob.extracted_json, categories)
+      : [];
+  const ownLine =
+    asset.receipt_line ??
+    (receiptJob?.extracted_json
+      ? mainLineItem(receiptJob.extracted_json)?.line ?? null
+      : null);
+  return (
+    <div className="space-y-3 rounded border bg-white p-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-semibold">Receipt recognition</p>
+          <p className="text-[11px] text-slate-500">
+            Round reads your receipt – a PDF, scan or photo – and pulls out
+            the merchant, date, total, VAT and line items.
+          </p>
+        </div>
+        {asset.receipt_url && (
+          <button
+            type="button"
+            onClick={handleRead}
+            disabled={recognising || !!activeReceiptJob}
+            className="rounded bg-black px-3 py-1.5 text-xs font-medium text-white disabled:bg-slate-500"
+          >
+            {recognising || activeReceiptJob
+              ? 'Reading receipt…'
+              : latestReceiptJob
+              ? 'Read receipt again'
+              : 'Read receipt'}
+          </button>
+        )}
+      </div>
+
+      {!asset.receipt_url ? (
+        <p className="text-xs text-slate-500">
+          Upload a receipt PDF or photo to this asset to let Round read it.
+          For now, add a receipt from the asset edit screen.
+        </p>
+      ) : (
+        <>
+          {activeReceiptJob && <ReceiptJobProgress job={activeReceiptJob} />}
+          {message && !activeReceiptJob && (
+            <div className="rounded bg-slate-50 p-2 text-[11px] text-slate-700">
+              {message}
+            </div>
+          )}
+          {latestReceiptJob?.status === 'failed' && (
+            <div className="rounded bg-amber-50 p-2 text-[11px] text-amber-800">
+              {latestReceiptJob.error || 'Round could not read this receipt.'}
+              {latestReceiptJob.attempts > 1 &&
+                ` (gave up after ${latestReceiptJob.attempts} attempts)`}
+            </div>
+          )}
+          {receiptJob?.extracted_json && (
+            <ExtractedReceiptSummary
+              receipt={receiptJob.extracted_json}
+              confidence={receiptJob.field_confidence}
+              fallbackCurrency={fallbackCurrency}
+              locale={locale}
+            />
+          )}
+          {receiptJob && reviewRows.length > 0 && (
+            <ReceiptReviewPanel
+              // A new read starts with fresh accept/reject choices.
+              key={receiptJob.id}
+              assetId={asset.id}
+              jobId={receiptJob.id}
+              rows={reviewRows}
+              sources={fieldSources}
+              onSourcesChange={onFieldSourcesChange}
+              onAssetUpdated={onAssetUpdated}
+              onMessage={setMessage}
+              onError={onError}
+              fallbackCurrency={fallbackCurrency}
+              locale={locale}
+            />
+          )}
+          {receiptJob?.extracted_json && splitLines.length > 1 && (
+            <ReceiptSplitPanel
+              key={receiptJob.id}
+              asset={asset}
+              job={{
+                id: receiptJob.id,
+                extracted_json: receiptJob.extracted_json,
+              }}
+              lines={splitLines}
+              categories={categories}
+              ownLine={ownLine}
+              siblings={siblings}
+              onSiblingsChange={onSiblingsChange}
+              onAssetUpdated={onAssetUpdated}
+              onMessage={setMessage}
+              onError={onError}
+              currency={
+                receiptJob.extracted_json.currency ||
+                asset.purchase_currency ||
+                'GBP'
+              }
+              locale={locale}
+            />
+          )}
+          {siblings.length > 0 && (
+            <p className="text-[11px] text-slate-600">
+              This receipt also covers{' '}
+              {siblings.map((sibling, i) => (
+                <span key={sibling.id}>
+                  {i > 0 && ', '}
+                  <button
+                    type="button"
+                    className="underline"
+                    onClick={() => router.push(`/assets/${sibling.id}`)}
+                  >
+                    {sibling.title || 'Untitled asset'}
+                  </button>
+                </span>
+              ))}
+              .
+            </p>
+          )}
+          {receiptJob && (
+            <div className="text-[10px] text-slate-500">
+              Last read: {formatDate(receiptJob.finished_at ?? receiptJob.created_at)}
+              {receiptJob.text_source === 'ocr' && (
+                <>
+                  {' '}
+                  · Read with OCR ({Math.round(receiptJob.ocr_confidence ?? 0)}%
+                  confidence
+                  {receiptJob.ocr_meta?.rotation
+                    ? `, turned ${receiptJob.ocr_meta.rotation}°`
+                    : ''}
+                  )
+                </>
+              )}
+            </div>
+          )}
+          {jobs.length > 0 && (
+            <ReceiptJobHistory
+              jobs={jobs}
+              fallbackCurrency={fallbackCurrency}
+              locale={locale}
+            />
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,389 @@
+'use client';
+
+import { Dispatch, SetStateAction, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { supabase } from '@/lib/supabaseClient';
+import { formatMoney } from '@/lib/money';
+import { formatDate } from '@/lib/dates';
+import type { ExtractedReceipt } from '@/lib/receipts/parseReceipt';
+import type { FieldConfidence } from '@/lib/receipts/extractReceipt';
+import {
+  LOW_CONFIDENCE,
+  REVIEW_FIELD_LABELS,
+  ReviewField,
+  ReviewRow,
+  ReviewValue,
+} from '@/lib/receipts/review';
+
+// Which receipt last set each asset field, and what it replaced.
+export type FieldSource = {
+  asset_id: string;
+  field: string;
+  receipt_job_id: string | null;
+  value: ReviewValue;
+  previous_value: ReviewValue;
+  applied_at: string;
+};
+
+const RECEIPT_WARNING_LABELS: Record<string, string> = {
+  no_total: 'No total found',
+  total_guessed: 'Total guessed from the largest amount',
+  vat_estimated: 'VAT worked out from the rate',
+  no_date: 'No date found',
+  items_do_not_sum: "Line items don't add up to the total",
+};
+
+function LowConfidenceTag({ confidence }: { confidence?: number | null }) {
+  if (confidence == null || confidence >= LOW_CONFIDENCE) return null;
+  return (
+    <span
+      className="ml-1 rounded bg-amber-100 px-1 text-[9px] text-amber-800"
+      title={`OCR confidence ${Math.round(confidence * 100)}%`}
+    >
+      check
+    </span>
+  );
+}
+
+export function ExtractedReceiptSummary({
+  receipt,
+  confidence,
+  fallbackCurrency,
+  locale,
+}: {
+  receipt: ExtractedReceipt;
+  confidence: FieldConfidence | null;
+  fallbackCurrency: string;
+  locale: string;
+}) {
+  const currency = receipt.currency || fallbackCurrency;
+  const money = (v: number | null) =>
+    v != null ? formatMoney(v, currency, locale, { exact: true }) : '—';
+
+  return (
+    <div className="space-y-2 text-[11px] text-slate-700">
+      <dl className="grid grid-cols-2 gap-x-4 gap-y-0.5 sm:grid-cols-3">
+        <div>
+          <dt className="text-slate-500">Merchant</dt>
+          <dd>
+            {receipt.merchant || '—'}
+            <LowConfidenceTag confidence={confidence?.merchant} />
+          </dd>
+        </div>
+        <div>
+          <dt className="text-slate-500">Date</dt>
+          <dd>
+            {receipt.date ? formatDate(receipt.date) : '—'}
+            <LowConfidenceTag confidence={confidence?.date} />
+          </dd>
+        </div>
+        <div>
+          <dt className="text-slate-500">Currency</dt>
+          <dd>
+            {receipt.currency || '—'}
+            <LowConfidenceTag confidence={confidence?.currency} />
+          </dd>
+        </div>
+        <div>
+          <dt className="text-slate-500">Total</dt>
+          <dd className="font-medium">
+            {money(receipt.total)}
+            <LowConfidenceTag confidence={confidence?.total} />
+          </dd>
+        </div>
+        <div>
+          <dt className="text-slate-500">Before VAT</dt>
+          <dd>
+            {money(receipt.subtotal)}
+            <LowConfidenceTag confidence={confidence?.subtotal} />
+          </dd>
+        </div>
+        <div>
+          <dt className="text-slate-500">
+            VAT{receipt.vat_rate != null ? ` (${receipt.vat_rate}%)` : ''}
+          </dt>
+          <dd>
+            {money(receipt.vat_amount)}
+            <LowConfidenceTag confidence={confidence?.vat_amount} />
+          </dd>
+        </div>
+      </dl>
+
+      {receipt.line_items.length > 0 && (
+        <table className="w-full">
+          {confidence?.line_items != null &&
+            confidence.line_items < LOW_CONFIDENCE && (
+              <caption className="text-left text-amber-700">
+                Line items were hard to read; check them against the receipt.
+              </caption>
+            )}
+          <thead>
+            <tr className="text-left text-slate-500">
+              <th className="py-0.5 font-normal">Item</th>
+              <th className="py-0.5 text-right font-normal">Qty</th>
+              <th className="py-0.5 text-right font-normal">Amount</th>
+            </tr>
+          </thead>
+          <tbody>
+            {receipt.line_items.map((item, i) => (
+              <tr key={i} className="border-t">
+                <td className="py-0.5">
+                  {item.description}
+                  {item.kind !== 'item' && (
+                    <span className="ml-1 text-slate-400">({item.kind})</span>
+                  )}
+                </td>
+                <td className="py-0.5 text-right">{item.quantity ?? '—'}</td>
+                <td className="py-0.5 text-right">{money(item.amount)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {receipt.warnings.length > 0 && (
+        <p className="text-amber-700">
+          {receipt.warnings
+            .map((w) => RECEIPT_WARNING_LABELS[w] ?? w)
+            .join(' · ')}
+        </p>
+      )}
+    </div>
+  );
+}
+
+// Fill empty fields by default; overwriting something the user typed, or
+// trusting a shaky OCR reading, is opt-in.
+function defaultReviewChoice(row: ReviewRow): boolean {
+  return (
+    row.changed &&
+    (row.current == null || row.current === '') &&
+    (row.confidence == null || row.confidence >= LOW_CONFIDENCE)
+  );
+}
+
+type Props = {
+  assetId: string;
+  // The completed read the rows came from.
+  jobId: string;
+  rows: ReviewRow[];
+  sources: FieldSource[];
+  onSourcesChange: Dispatch<SetStateAction<FieldSource[]>>;
+  onAssetUpdated: (updates: Record<string, ReviewValue>) => void;
+  onMessage: (message: string | null) => void;
+  onError: (message: string | null) => void;
+  fallbackCurrency: string;
+  locale: string;
+};
+
+export default function ReceiptReviewPanel({
+  assetId,
+  jobId,
+  rows,
+  sources,
+  onSourcesChange,
+  onAssetUpdated,
+  onMessage,
+  onError,
+  fallbackCurrency,
+  locale,
+}: Props) {
+  const router = useRouter();
+
+  const [choices, setChoices] = useState<
+    Partial<Record<ReviewField, boolean>>
+  >({});
+  const [applying, setApplying] = useState(false);
+
+  const handleApply = async () => {
+    const selected = rows.filter(
+      (r) =>
+        r.extracted != null && (choices[r.field] ?? defaultReviewChoice(r))
+    );
+    if (selected.length === 0) return;
+
+    onError(null);
+    setApplying(true);
+    onMessage(null);
+
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) {
+        router.push('/login');
+        return;
+      }
+
+      const updates: Record<string, ReviewValue> = {};
+      for (const row of selected) updates[row.field] = row.extracted;
+
+      const { error: updateError } = await supabase
+        .from('assets')
+        .update(updates)
+        .eq('id', assetId);
+
+      if (updateError) {
+        console.error(updateError);
+        onError(updateError.message || 'Could not update this asset.');
+        return;
+      }
+
+      onAssetUpdated(updates);
+
+      const appliedAt = new Date().toISOString();
+      const applied: FieldSource[] = selected.map((row) => ({
+        asset_id: assetId,
+        field: row.field,
+        receipt_job_id: jobId,
+        value: row.extracted,
+        previous_value: row.current,
+        applied_at: appliedAt,
+      }));
+
+      const { error: sourcesError } = await supabase
+        .from('asset_field_sources')
+        .upsert(
+          applied.map((src) => ({ ...src, owner_id: user.id })),
+          { onConflict: 'asset_id,field' }
+        );
+
+      if (sourcesError) {
+        // The asset is already updated; only the audit trail is missing.
+        console.error(sourcesError);
+      } else {
+        onSourcesChange((prev) => [
+          ...prev.filter((p) => !applied.some((src) => src.field === p.field)),
+          ...applied,
+        ]);
+      }
+
+      setChoices({});
+      onMessage(
+        `Updated ${selected
+          .map((r) => REVIEW_FIELD_LABELS[r.field].toLowerCase())
+          .join(', ')} from this receipt.`
+      );
+    } catch (err) {
+      console.error(err);
+      onError(
+        err instanceof Error
+          ? err.message
+          : 'Something went wrong applying the receipt.'
+      );
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const currencyRow = rows.find((r) => r.field === 'purchase_currency');
+  const currency =
+    (currencyRow?.extracted as string | null) || fallbackCurrency;
+
+  const show = (field: ReviewField, value: ReviewValue) => {
+    if (value == null || value === '') {
+      return <span className="text-slate-400">Not set</span>;
+    }
+    if (field === 'purchase_price') {
+      return formatMoney(Number(value), currency, locale, { exact: true });
+    }
+    if (field === 'purchase_date') return formatDate(String(value));
+    return String(value);
+  };
+
+  const selectedCount = rows.filter(
+    (r) => r.extracted != null && (choices[r.field] ?? defaultReviewChoice(r))
+  ).length;
+
+  return (
+    <div className="space-y-2 rounded border border-sky-100 bg-sky-50/50 p-3 text-[11px]">
+      <p className="font-medium text-slate-700">Review and apply</p>
+      <table className="w-full">
+        <thead>
+          <tr className="text-left text-slate-500">
+            <th className="py-0.5 font-normal">Field</th>
+            <th className="py-0.5 font-normal">On this asset</th>
+            <th className="py-0.5 font-normal">From receipt</th>
+            <th className="py-0.5 text-right font-normal">Use</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => {
+            const source = sources.find((s) => s.field === row.field);
+            const accepted = choices[row.field] ?? defaultReviewChoice(row);
+            return (
+              <tr key={row.field} className="border-t align-top">
+                <td className="py-1 text-slate-500">
+                  {REVIEW_FIELD_LABELS[row.field]}
+                </td>
+                <td className="py-1">
+                  {show(row.field, row.current)}
+                  {source && (
+                    <span className="block text-[10px] text-slate-400">
+                      {source.receipt_job_id === jobId
+                        ? 'From this receipt'
+                        : 'From an earlier receipt'}{' '}
+                      · {formatDate(source.applied_at)}
+                    </span>
+                  )}
+                </td>
+                <td className="py-1">
+                  {show(row.field, row.extracted)}
+                  {row.extracted != null && (
+                    <LowConfidenceTag confidence={row.confidence} />
+                  )}
+                </td>
+                <td className="py-1 text-right">
+                  {row.changed ? (
+                    <div className="inline-flex overflow-hidden rounded border">
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setChoices((prev) => ({ ...prev, [row.field]: true }))
+                        }
+                        className={`px-2 py-0.5 ${
+                          accepted ? 'bg-emerald-600 text-white' : 'bg-white'
+                        }`}
+                      >
+                        Accept
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setChoices((prev) => ({ ...prev, [row.field]: false }))
+                        }
+                        className={`px-2 py-0.5 ${
+                          !accepted ? 'bg-slate-600 text-white' : 'bg-white'
+                        }`}
+                      >
+                        Reject
+                      </button>
+                    </div>
+                  ) : (
+                    <span className="text-slate-400">
+                      {row.extracted == null ? 'Not found' : 'Matches'}
+                    </span>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <div className="flex justify-end">
+        <button
+          type="button"
+          onClick={handleApply}
+          disabled={applying || selectedCount === 0}
+          className="rounded bg-black px-3 py-1.5 text-xs font-medium text-white disabled:bg-slate-400"
+        >
+          {applying
+            ? 'Applying…'
+            : `Apply selected${selectedCount > 0 ? ` (${selectedCount})` : ''}`}
+        </button>
+      </div>
+    </div>
+  );
+}
+
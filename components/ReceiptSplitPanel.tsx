@@ -0,0 +1,313 @@
+'use client';
+
+import { Dispatch, SetStateAction, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { supabase } from '@/lib/supabaseClient';
+import { formatMoney } from '@/lib/money';
+import type { ExtractedReceipt } from '@/lib/receipts/parseReceipt';
+import { CategoryOption, SplitLine } from '@/lib/receipts/split';
+
+// Another asset split off the same receipt.
+export type ReceiptSibling = {
+  id: string;
+  title: string | null;
+  receipt_line: number | null;
+};
+
+type Props = {
+  asset: {
+    id: string;
+    title: string | null;
+    status: string | null;
+    purchase_currency: string | null;
+    purchase_date: string | null;
+    merchant: string | null;
+    receipt_url: string | null;
+    receipt_line: number | null;
+  };
+  // The completed read the lines came from.
+  job: { id: string; extracted_json: ExtractedReceipt };
+  lines: SplitLine[];
+  categories: CategoryOption[];
+  // The line this asset already stands for; it is never split off again.
+  ownLine: number | null;
+  siblings: ReceiptSibling[];
+  onSiblingsChange: Dispatch<SetStateAction<ReceiptSibling[]>>;
+  onAssetUpdated: (updates: {
+    receipt_job_id: string;
+    receipt_line: number | null;
+  }) => void;
+  onMessage: (message: string | null) => void;
+  onError: (message: string | null) => void;
+  currency: string;
+  locale: string;
+};
+
+export default function ReceiptSplitPanel({
+  asset,
+  job,
+  lines,
+  categories,
+  ownLine,
+  siblings,
+  onSiblingsChange,
+  onAssetUpdated,
+  onMessage,
+  onError,
+  currency,
+  locale,
+}: Props) {
+  const router = useRouter();
+
+  const takenBy = new Map(
+    siblings
+      .filter((s) => s.receipt_line != null)
+      .map((s) => [s.receipt_line as number, s])
+  );
+  const available = lines.filter(
+    (l) => l.line !== ownLine && !takenBy.has(l.line)
+  );
+
+  const [selected, setSelected] = useState<Set<number>>(
+    () => new Set(available.map((l) => l.line))
+  );
+  const [creating, setCreating] = useState(false);
+  const [edits, setEdits] = useState<
+    Record<number, { title?: string; category_id?: string | null }>
+  >({});
+
+  const edited = (line: SplitLine): SplitLine => ({
+    ...line,
+    description: edits[line.line]?.title ?? line.description,
+    category_id:
+      edits[line.line]?.category_id !== undefined
+        ? edits[line.line].category_id ?? null
+        : line.category_id,
+  });
+
+  const chosen = available
+    .filter((l) => selected.has(l.line))
+    .map(edited);
+
+  // Adds one asset per chosen receipt line. They all point at this asset's
+  // stored receipt, so replacing it later updates every one of them.
+  const handleCreate = async () => {
+    if (chosen.length === 0) return;
+    const receipt = job.extracted_json;
+
+    onError(null);
+    setCreating(true);
+    onMessage(null);
+
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) {
+        router.push('/login');
+        return;
+      }
+
+      const { data: created, error: insertError } = await supabase
+        .from('assets')
+        .insert(
+          chosen.map((line) => ({
+            owner_id: user.id,
+            title: line.description,
+            category_id: line.category_id,
+            brand: line.brand,
+            model_name: line.model_name,
+            purchase_price: line.price,
+            purchase_currency: currency,
+            purchase_date: receipt.date ?? asset.purchase_date ?? null,
+            merchant: receipt.merchant ?? asset.merchant ?? null,
+            estimate_currency: currency,
+            status: asset.status ?? null,
+            receipt_url: asset.receipt_url,
+            receipt_job_id: job.id,
+            receipt_line: line.line,
+            notes_internal: `Split from a receipt shared with "${
+              asset.title || 'another asset'
+            }".`,
+          }))
+        )
+        .select('id, title, receipt_line');
+
+      if (insertError || !created) {
+        console.error(insertError);
+        onError(insertError?.message || 'Could not create the assets.');
+        return;
+      }
+
+      // Mark which line this asset is, so it isn't offered again.
+      if (asset.receipt_line == null) {
+        const { error: ownError } = await supabase
+          .from('assets')
+          .update({ receipt_job_id: job.id, receipt_line: ownLine })
+          .eq('id', asset.id);
+
+        if (ownError) console.error(ownError);
+        else onAssetUpdated({ receipt_job_id: job.id, receipt_line: ownLine });
+      }
+
+      onSiblingsChange((prev) => [...prev, ...(created as ReceiptSibling[])]);
+      onMessage(
+        `Added ${created.length} ${
+          created.length === 1 ? 'asset' : 'assets'
+        } from this receipt.`
+      );
+    } catch (err) {
+      console.error(err);
+      onError(
+        err instanceof Error
+          ? err.message
+          : 'Something went wrong splitting the receipt.'
+      );
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2 rounded border border-slate-200 p-3">
+      <div>
+        <p className="text-xs font-semibold text-slate-700">
+          Split into assets
+        </p>
+        <p className="text-[11px] text-slate-500">
+          This receipt lists {lines.length} items. Round can add the others as
+          their own assets, sharing this receipt. Delivery and discounts are
+          spread over the items by price.
+        </p>
+      </div>
+
+      <table className="w-full border-collapse text-[11px]">
+        <thead>
+          <tr className="border-b text-left text-slate-500">
+            <th className="py-1 font-normal" />
+            <th className="py-1 font-normal">Item</th>
+            <th className="py-1 font-normal">Category</th>
+            <th className="py-1 text-right font-normal">Price</th>
+          </tr>
+        </thead>
+        <tbody>
+          {lines.map((line) => {
+            const sibling = takenBy.get(line.line);
+            const isOwn = line.line === ownLine;
+            const open = !isOwn && !sibling;
+            const current = edited(line);
+
+            return (
+              <tr key={line.line} className="border-b last:border-0 align-top">
+                <td className="py-1 pr-2">
+                  <input
+                    type="checkbox"
+                    disabled={!open}
+                    checked={open && selected.has(line.line)}
+                    onChange={(e) =>
+                      setSelected((prev) => {
+                        const next = new Set(prev);
+                        if (e.target.checked) next.add(line.line);
+                        else next.delete(line.line);
+                        return next;
+                      })
+                    }
+                  />
+                </td>
+                <td className="py-1 pr-2">
+                  {open ? (
+                    <input
+                      value={current.description}
+                      onChange={(e) =>
+                        setEdits((prev) => ({
+                          ...prev,
+                          [line.line]: {
+                            ...prev[line.line],
+                            title: e.target.value,
+                          },
+                        }))
+                      }
+                      className="w-full rounded border px-1.5 py-0.5"
+                    />
+                  ) : (
+                    <span>
+                      {line.description}{' '}
+                      <span className="text-slate-500">
+                        {isOwn
+                          ? '(this asset)'
+                          : `(already ${sibling?.title || 'an asset'})`}
+                      </span>
+                    </span>
+                  )}
+                </td>
+                <td className="py-1 pr-2">
+                  {open ? (
+                    <select
+                      value={current.category_id ?? ''}
+                      onChange={(e) =>
+                        setEdits((prev) => ({
+                          ...prev,
+                          [line.line]: {
+                            ...prev[line.line],
+                            category_id: e.target.value || null,
+                          },
+                        }))
+                      }
+                      className="w-full rounded border px-1 py-0.5"
+                    >
+                      <option value="">No category</option>
+                      {categories.map((c) => (
+                        <option key={c.id} value={c.id}>
+                          {c.name}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <span className="text-slate-500">—</span>
+                  )}
+                </td>
+                <td className="py-1 text-right">
+                  {formatMoney(line.price, currency, locale, { exact: true })}
+                  {line.adjustment !== 0 && (
+                    <div className="text-[10px] text-slate-500">
+                      {formatMoney(line.amount, currency, locale, {
+                        exact: true,
+                      })}{' '}
+                      {line.adjustment > 0 ? '+' : '−'}{' '}
+                      {formatMoney(Math.abs(line.adjustment), currency, locale, {
+                        exact: true,
+                      })}
+                    </div>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      {available.length > 0 ? (
+        <div className="flex justify-end">
+          <button
+            type="button"
+            disabled={creating || chosen.length === 0}
+            onClick={handleCreate}
+            className="rounded bg-black px-3 py-1.5 text-xs font-medium text-white disabled:bg-slate-500"
+          >
+            {creating
+              ? 'Creating…'
+              : `Create ${chosen.length} ${
+                  chosen.length === 1 ? 'asset' : 'assets'
+                }`}
+          </button>
+        </div>
+      ) : (
+        <p className="text-[11px] text-slate-500">
+          Every item on this receipt already has an asset.
+        </p>
+      )}
+    </div>
+  );
+}
+
@@ -0,0 +1,158 @@
+'use client';
+
+export type ChartPoint = {
+  date: string;
+  value: number;
+  label?: string;
+};
+
+export type ChartSeries = {
+  key: string;
+  name: string;
+  color: string;
+  points: ChartPoint[];
+  // Draw markers only, without a connecting line.
+  markersOnly?: boolean;
+};
+
+type Props = {
+  series: ChartSeries[];
+  formatValue: (value: number) => string;
+  height?: number;
+};
+
+const WIDTH = 600;
+const PAD_LEFT = 64;
+const PAD_RIGHT = 12;
+const PAD_TOP = 12;
+const PAD_BOTTOM = 24;
+
+function toTime(date: string): number {
+  return new Date(date).getTime();
+}
+
+export default function TimeSeriesChart({
+  series,
+  formatValue,
+  height = 180,
+}: Props) {
+  const all = series.flatMap((s) =>
+    s.points.filter((p) => !Number.isNaN(toTime(p.date)))
+  );
+
+  if (all.length < 2) {
+    return (
+      <p className="text-[11px] text-slate-500">
+        Not enough history to draw a chart yet.
+      </p>
+    );
+  }
+
+  const times = all.map((p) => toTime(p.date));
+  const values = all.map((p) => p.value);
+  const minT = Math.min(...times);
+  const maxT = Math.max(...times);
+  let minV = Math.min(...values);
+  let maxV = Math.max(...values);
+  if (minV === maxV) {
+    minV = minV * 0.9;
+    maxV = maxV * 1.1 || 1;
+  }
+
+  const plotW = WIDTH - PAD_LEFT - PAD_RIGHT;
+  const plotH = height - PAD_TOP - PAD_BOTTOM;
+  const x = (t: number) =>
+    PAD_LEFT + (maxT === minT ? plotW / 2 : ((t - minT) / (maxT - minT)) * plotW);
+  const y = (v: number) => PAD_TOP + plotH - ((v - minV) / (maxV - minV)) * plotH;
+
+  const fmtDate = (t: number) =>
+    new Date(t).toLocaleDateString(undefined, {
+      month: 'short',
+      year: 'numeric',
+    });
+
+  return (
+    <div className="space-y-1">
+      <svg
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        className="w-full"
+        role="img"
+        aria-label="Value over time"
+      >
+        <line
+          x1={PAD_LEFT}
+          y1={PAD_TOP + plotH}
+          x2={WIDTH - PAD_RIGHT}
+          y2={PAD_TOP + plotH}
+          stroke="#cbd5e1"
+        />
+        <line
+          x1={PAD_LEFT}
+          y1={PAD_TOP}
+          x2={PAD_LEFT}
+          y2={PAD_TOP + plotH}
+          stroke="#cbd5e1"
+        />
+        <text x={PAD_LEFT - 6} y={PAD_TOP + 8} textAnchor="end" fontSize="10" fill="#64748b">
+          {formatValue(maxV)}
+        </text>
+        <text x={PAD_LEFT - 6} y={PAD_TOP + plotH} textAnchor="end" fontSize="10" fill="#64748b">
+          {formatValue(minV)}
+        </text>
+        <text x={PAD_LEFT} y={height - 6} fontSize="10" fill="#64748b">
+          {fmtDate(minT)}
+        </text>
+        <text x={WIDTH - PAD_RIGHT} y={height - 6} textAnchor="end" fontSize="10" fill="#64748b">
+          {fmtDate(maxT)}
+        </text>
+
+        {series.map((s) => {
+          const pts = s.points
+            .filter((p) => !Number.isNaN(toTime(p.date)))
+            .sort((a, b) => toTime(a.date) - toTime(b.date));
+
+          return (
+            <g key={s.key}>
+              {!s.markersOnly && pts.length > 1 && (
+                <polyline
+                  fill="none"
+                  stroke={s.color}
+                  strokeWidth={2}
+                  points={pts
+                    .map((p) => `${x(toTime(p.date))},${y(p.value)}`)
+                    .join(' ')}
+                />
+              )}
+              {pts.map((p, idx) => (
+                <circle
+                  key={`${s.key}-${idx}`}
+                  cx={x(toTime(p.date))}
+                  cy={y(p.value)}
+                  r={3.5}
+                  fill={s.color}
+                >
+                  <title>
+                    {`${p.label || s.name} · ${fmtDate(
+                      toTime(p.date)
+                    )} · ${formatValue(p.value)}`}
+                  </title>
+                </circle>
+              ))}
+            </g>
+          );
+        })}
+      </svg>
+      <div className="flex flex-wrap gap-3 text-[10px] text-slate-600">
+        {series.map((s) => (
+          <span key={s.key} className="inline-flex items-center gap-1">
+            <span
+              className="inline-block h-2 w-2 rounded-full"
+              style={{ backgroundColor: s.color }}
+            />
+            {s.name}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,549 @@
+'use client';
+
+import {
+  ChangeEvent,
+  Dispatch,
+  FormEvent,
+  SetStateAction,
+  useState,
+} from 'react';
+import { useRouter } from 'next/navigation';
+import { supabase } from '@/lib/supabaseClient';
+import TimeSeriesChart from '@/components/TimeSeriesChart';
+import { formatDate } from '@/lib/dates';
+import { formatMoney } from '@/lib/money';
+import {
+  DOCUMENTS_BUCKET,
+  removeStoredFiles,
+  uploadDocumentFile,
+} from '@/lib/storage';
+import { deleteDocuments } from '@/lib/assetDeletion';
+import { requestDocumentText } from '@/lib/documentSearch';
+import { confidenceLabel, confidenceLevel } from '@/lib/valuation/confidence';
+import { VALUATION_ROW_COLUMNS } from '@/lib/valuation/columns';
+import {
+  EVIDENCE_SOURCE_TYPES,
+  valuationSourceLabel,
+} from '@/lib/valuation/sources';
+import type {
+  ValuationExplanation,
+  ValuationFactor,
+} from '@/lib/valuation/types';
+
+export type Valuation = {
+  id: string;
+  valuation_source: string | null;
+  suggested_value: number | null;
+  currency: string | null;
+  value_low: number | null;
+  value_high: number | null;
+  confidence: number | null;
+  explanation: ValuationExplanation | null;
+  source_type: string | null;
+  valuer_name: string | null;
+  valuation_date: string | null;
+  document_id: string | null;
+  // Engine provider id for 'round' rows, e.g. 'comparables'.
+  provider: string | null;
+  created_at: string;
+};
+
+type Props = {
+  asset: {
+    id: string;
+    purchase_price: number | null;
+    purchase_date: string | null;
+    current_estimated_value: number | null;
+    estimate_currency: string | null;
+    current_valuation_id: string | null;
+    purchase_currency: string | null;
+  };
+  valuations: Valuation[];
+  onValuationsChange: Dispatch<SetStateAction<Valuation[]>>;
+  // Evidence is stored as an asset document; the page owns the list.
+  documents: { id: string }[];
+  onDocumentAdded: (document: { id: string }) => void;
+  onViewDocument: (documentId: string) => void;
+  // Makes a valuation the asset's current estimate; false if that failed.
+  onUseAsCurrent: (valuation: Valuation) => Promise<boolean>;
+  onError: (message: string | null) => void;
+  locale: string;
+};
+
+function formatFactorValue(
+  factor: ValuationFactor,
+  currency: string | null | undefined,
+  locale: string
+): string {
+  if (factor.kind === 'money' && typeof factor.value === 'number') {
+    return formatMoney(factor.value, currency, locale);
+  }
+  if (factor.kind === 'percent' && typeof factor.value === 'number') {
+    const pct = factor.value * 100;
+    return `${pct > 0 ? '+' : ''}${pct.toFixed(1)}%`;
+  }
+  if (factor.kind === 'date' && typeof factor.value === 'string') {
+    return formatDate(factor.value);
+  }
+  return String(factor.value);
+}
+
+export function formatValueRange(v: Valuation, locale: string): string | null {
+  if (v.value_low == null || v.value_high == null) return null;
+  return `${formatMoney(v.value_low, v.currency, locale)} – ${formatMoney(
+    v.value_high,
+    v.currency,
+    locale
+  )}`;
+}
+
+export function ValuationBreakdown({
+  valuation,
+  locale,
+}: {
+  valuation: Valuation;
+  locale: string;
+}) {
+  const explanation = valuation.explanation;
+  if (!explanation) return null;
+
+  return (
+    <details className="text-[11px] text-slate-600">
+      <summary className="cursor-pointer text-sky-700 underline">
+        Why this number?
+      </summary>
+      <div className="mt-1 space-y-1 rounded bg-white p-2">
+        <p>{explanation.summary}</p>
+        {explanation.factors?.length > 0 && (
+          <dl className="space-y-0.5">
+            {explanation.factors.map((f) => (
+              <div key={f.label} className="flex justify-between gap-4">
+                <dt className="text-slate-500">{f.label}</dt>
+                <dd className="text-right">
+                  {formatFactorValue(f, valuation.currency, locale)}
+                </dd>
+              </div>
+            ))}
+          </dl>
+        )}
+      </div>
+    </details>
+  );
+}
+
+export function ConfidenceBadge({ confidence }: { confidence: number | null }) {
+  const level = confidenceLevel(confidence);
+  return (
+    <span
+      className={`inline-flex items-center rounded-full px-2 py-0.5 text-[10px] font-medium ${
+        level === 'high'
+          ? 'bg-emerald-100 text-emerald-800'
+          : level === 'medium'
+          ? 'bg-sky-100 text-sky-800'
+          : 'bg-amber-100 text-amber-800'
+      }`}
+    >
+      {confidenceLabel(confidence)}
+    </span>
+  );
+}
+
+export default function ValuationHistory({
+  asset,
+  valuations,
+  onValuationsChange,
+  documents,
+  onDocumentAdded,
+  onViewDocument,
+  onUseAsCurrent,
+  onError,
+  locale,
+}: Props) {
+  const router = useRouter();
+
+  // Manual / professional valuation form
+  const [showForm, setShowForm] = useState(false);
+  const [sourceTypeValue, setSourceTypeValue] = useState('surveyor');
+  const [value, setValue] = useState('');
+  const [currency, setCurrency] = useState('GBP');
+  const [valuerName, setValuerName] = useState('');
+  const [valuationDate, setValuationDate] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [makeCurrent, setMakeCurrent] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const picked = e.target.files?.[0];
+    if (picked) setFile(picked);
+  };
+
+  const handleAdd = async (e: FormEvent) => {
+    e.preventDefault();
+
+    const sourceType = EVIDENCE_SOURCE_TYPES.find(
+      (t) => t.value === sourceTypeValue
+    );
+    const valueNumber = value.trim() === '' ? null : Number(value);
+
+    if (!sourceType || valueNumber == null || Number.isNaN(valueNumber)) {
+      onError('Enter the valuation amount.');
+      return;
+    }
+    if (sourceType.requiresDocument && !file) {
+      onError('Attach the report or quote that backs this valuation.');
+      return;
+    }
+
+    setSaving(true);
+    onError(null);
+
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) {
+        router.push('/login');
+        return;
+      }
+
+      let evidenceDocument: { id: string; file_url: string } | null = null;
+
+      if (file) {
+        const fileUrl = await uploadDocumentFile(
+          supabase,
+          file,
+          user.id,
+          asset.id
+        );
+
+        const { data: docData, error: docError } = await supabase
+          .from('asset_documents')
+          .insert({
+            asset_id: asset.id,
+            owner_id: user.id,
+            file_url: fileUrl,
+            notes: [sourceType.label, valuerName].filter(Boolean).join(' – '),
+            doc_type: 'valuation_report',
+            issuer: valuerName || null,
+            issued_on: valuationDate || null,
+            upgrade_id: null,
+            service_id: null,
+          })
+          .select('*')
+          .maybeSingle();
+
+        if (docError || !docData) {
+          console.error(docError);
+          await removeStoredFiles(supabase, [fileUrl], DOCUMENTS_BUCKET).catch(
+            console.error
+          );
+          onError(docError?.message || 'Could not save valuation document.');
+          return;
+        }
+
+        evidenceDocument = docData;
+      }
+
+      const valueCurrency = currency || 'GBP';
+
+      const { data, error } = await supabase
+        .from('valuations')
+        .insert({
+          asset_id: asset.id,
+          requested_by: user.id,
+          valuation_source: valuerName
+            ? `${sourceType.label} – ${valuerName}`
+            : sourceType.label,
+          source_type: sourceType.value,
+          valuer_name: valuerName || null,
+          valuation_date: valuationDate || null,
+          document_id: evidenceDocument?.id ?? null,
+          suggested_value: valueNumber,
+          currency: valueCurrency,
+        })
+        .select(VALUATION_ROW_COLUMNS)
+        .maybeSingle();
+
+      if (error || !data) {
+        console.error(error);
+        // The report only exists to back this valuation; don't keep it.
+        if (evidenceDocument) {
+          await deleteDocuments(supabase, [evidenceDocument]).catch(console.error);
+        }
+        onError(error?.message || 'Could not save valuation.');
+        return;
+      }
+
+      if (evidenceDocument) {
+        onDocumentAdded(evidenceDocument);
+        requestDocumentText(evidenceDocument.id);
+      }
+      onValuationsChange((prev) => [data as Valuation, ...prev]);
+
+      if (makeCurrent) {
+        await onUseAsCurrent(data as Valuation);
+      }
+
+      setValue('');
+      setValuerName('');
+      setValuationDate('');
+      setFile(null);
+      setShowForm(false);
+    } catch (err) {
+      console.error(err);
+      onError(
+        err instanceof Error
+          ? err.message
+          : 'Something went wrong saving the valuation.'
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded border bg-white p-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-semibold">Valuation history</p>
+          <p className="text-[11px] text-slate-500">
+            Round estimates plus surveys, appraisals and quotes you&apos;ve
+            logged.
+          </p>
+        </div>
+        <button
+          type="button"
+          className="rounded bg-black px-3 py-1.5 text-xs font-medium text-white"
+          onClick={() => setShowForm((prev) => !prev)}
+        >
+          {showForm ? 'Close form' : 'Add valuation'}
+        </button>
+      </div>
+
+      {showForm && (
+        <form
+          onSubmit={handleAdd}
+          className="space-y-2 rounded border border-dashed border-slate-300 bg-slate-50 p-3 text-xs"
+        >
+          <p className="font-medium text-slate-700">Log a valuation</p>
+          <div className="grid gap-2 md:grid-cols-2">
+            <select
+              value={sourceTypeValue}
+              onChange={(e) => setSourceTypeValue(e.target.value)}
+              className="w-full rounded border px-2 py-1.5"
+            >
+              {EVIDENCE_SOURCE_TYPES.map((t) => (
+                <option key={t.value} value={t.value}>
+                  {t.label}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={valuerName}
+              onChange={(e) => setValuerName(e.target.value)}
+              placeholder="Valuer (firm or person)"
+              className="w-full rounded border px-2 py-1.5"
+            />
+          </div>
+          <div className="grid gap-2 md:grid-cols-3">
+            <input
+              type="number"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              required
+              placeholder="Value"
+              className="w-full rounded border px-2 py-1.5"
+            />
+            <input
+              type="text"
+              value={currency}
+              onChange={(e) => setCurrency(e.target.value)}
+              className="w-full rounded border px-2 py-1.5"
+            />
+            <input
+              type="date"
+              value={valuationDate}
+              onChange={(e) => setValuationDate(e.target.value)}
+              className="w-full rounded border px-2 py-1.5"
+            />
+          </div>
+          <div className="flex flex-col gap-1">
+            <label className="text-[11px] text-slate-600">
+              Report, appraisal or quote
+              {EVIDENCE_SOURCE_TYPES.find((t) => t.value === sourceTypeValue)
+                ?.requiresDocument
+                ? ''
+                : ' (optional)'}
+            </label>
+            <input
+              type="file"
+              accept="application/pdf,image/*"
+              onChange={handleFileChange}
+              className="text-[11px]"
+            />
+            {file && (
+              <p className="text-[11px] text-slate-700">
+                Selected: {file.name}
+              </p>
+            )}
+          </div>
+          <label className="flex items-center gap-2 text-[11px] text-slate-700">
+            <input
+              type="checkbox"
+              checked={makeCurrent}
+              onChange={(e) => setMakeCurrent(e.target.checked)}
+            />
+            Use this as the asset&apos;s current estimate
+          </label>
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={saving}
+              className="rounded bg-black px-3 py-1.5 text-xs font-medium text-white disabled:bg-slate-500"
+            >
+              {saving ? 'Saving…' : 'Save valuation'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {valuations.length === 0 ? (
+        <p className="text-xs text-slate-500">No valuations yet.</p>
+      ) : (
+        <>
+          <TimeSeriesChart
+            series={[
+              {
+                key: 'valuations',
+                name: 'Valuations',
+                color: '#0f172a',
+                points: valuations
+                  .filter((v) => v.suggested_value != null)
+                  .map((v) => ({
+                    date: v.valuation_date || v.created_at,
+                    value: v.suggested_value as number,
+                    label: v.valuation_source || 'Valuation',
+                  })),
+              },
+              {
+                key: 'purchase',
+                name: 'Purchase price',
+                color: '#0284c7',
+                markersOnly: true,
+                points:
+                  asset.purchase_price != null && asset.purchase_date
+                    ? [
+                        {
+                          date: asset.purchase_date,
+                          value: asset.purchase_price,
+                        },
+                      ]
+                    : [],
+              },
+              {
+                key: 'current',
+                name: 'Current estimate',
+                color: '#059669',
+                markersOnly: true,
+                points:
+                  asset.current_estimated_value != null
+                    ? [
+                        {
+                          date: new Date().toISOString(),
+                          value: asset.current_estimated_value,
+                        },
+                      ]
+                    : [],
+              },
+            ]}
+            formatValue={(v) =>
+              formatMoney(
+                v,
+                asset.estimate_currency || asset.purchase_currency,
+                locale
+              )
+            }
+          />
+          <ul className="mt-2 space-y-2 text-sm">
+            {valuations.map((v) => {
+              const isEvidence = !!v.source_type && v.source_type !== 'round';
+              const evidenceDoc = v.document_id
+                ? documents.find((d) => d.id === v.document_id)
+                : null;
+              const isCurrent = v.id === asset.current_valuation_id;
+
+              return (
+                <li
+                  key={v.id}
+                  className="space-y-1 rounded border bg-slate-50 p-2"
+                >
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="font-medium">
+                        {v.valuation_source || 'Valuation'}
+                        {isEvidence && (
+                          <span
+                            className={`ml-2 inline-flex items-center rounded-full px-2 py-0.5 text-[10px] font-medium ${
+                              v.document_id
+                                ? 'bg-violet-100 text-violet-800'
+                                : 'bg-slate-200 text-slate-700'
+                            }`}
+                            title={valuationSourceLabel(v.source_type)}
+                          >
+                            {v.document_id ? '📎 Evidence-backed' : 'Manual'}
+                          </span>
+                        )}
+                      </p>
+                      <p className="text-[11px] text-slate-500">
+                        {v.valuation_date
+                          ? `Valued ${formatDate(v.valuation_date)} · logged ${formatDate(
+                              v.created_at
+                            )}`
+                          : formatDate(v.created_at)}
+                      </p>
+                      {(evidenceDoc || (isEvidence && !isCurrent)) && (
+                        <div className="mt-0.5 flex gap-3 text-[11px]">
+                          {evidenceDoc && (
+                            <button
+                              type="button"
+                              onClick={() => onViewDocument(evidenceDoc.id)}
+                              className="text-sky-700 underline"
+                            >
+                              View evidence
+                            </button>
+                          )}
+                          {isEvidence && !isCurrent && v.suggested_value != null && (
+                            <button
+                              type="button"
+                              className="text-sky-700 underline"
+                              onClick={() => onUseAsCurrent(v)}
+                            >
+                              Use as current estimate
+                            </button>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                    <div className="text-right text-sm">
+                      {formatMoney(v.suggested_value, v.currency, locale)}
+                      {formatValueRange(v, locale) && (
+                        <p className="text-[10px] text-slate-500">
+                          {formatValueRange(v, locale)}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                  {v.confidence != null && (
+                    <ConfidenceBadge confidence={v.confidence} />
+                  )}
+                  <ValuationBreakdown valuation={v} locale={locale} />
+                </li>
+              );
+            })}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+// lib/alerts.ts
+// Shapes of valuation alert rules and the alerts the database trigger
+// (evaluate_valuation_alerts) raises from them.
+import { DEFAULT_LOCALE, formatMoney } from '@/lib/money';
+
+export type AlertScope = 'any_asset' | 'asset' | 'portfolio';
+export type AlertCondition = 'change_pct' | 'drops_below' | 'rises_above';
+
+export type AlertRule = {
+  id: string;
+  scope: AlertScope;
+  asset_id: string | null;
+  condition: AlertCondition;
+  threshold: number;
+  // Amount thresholds and the portfolio total are in this currency.
+  currency: string;
+  enabled: boolean;
+  created_at: string;
+};
+
+export type ValuationAlert = {
+  id: string;
+  rule_id: string | null;
+  asset_id: string | null;
+  valuation_id: string | null;
+  scope: AlertScope;
+  condition: AlertCondition;
+  threshold: number;
+  previous_value: number | null;
+  new_value: number;
+  currency: string | null;
+  change_pct: number | null;
+  message: string;
+  read_at: string | null;
+  created_at: string;
+};
+
+export const ALERT_SCOPE_LABELS: Record<AlertScope, string> = {
+  any_asset: 'Any asset',
+  asset: 'A specific asset',
+  portfolio: 'Whole portfolio',
+};
+
+export const ALERT_CONDITION_LABELS: Record<AlertCondition, string> = {
+  change_pct: 'moves by more than (%)',
+  drops_below: 'drops below',
+  rises_above: 'rises above',
+};
+
+export function describeAlertRule(
+  rule: AlertRule,
+  assetTitle?: string | null,
+  locale: string = DEFAULT_LOCALE
+): string {
+  const subject =
+    rule.scope === 'portfolio'
+      ? 'My portfolio'
+      : rule.scope === 'asset'
+      ? assetTitle || 'This asset'
+      : 'Any asset';
+
+  const threshold = Number(rule.threshold);
+  const amount = formatMoney(threshold, rule.currency, locale);
+
+  switch (rule.condition) {
+    case 'change_pct':
+      return `${subject} moves more than ${threshold.toLocaleString(locale)}%`;
+    case 'drops_below':
+      return `${subject} drops below ${amount}`;
+    case 'rises_above':
+      return `${subject} rises above ${amount}`;
+  }
+}
@@ -0,0 +1,19 @@
+// lib/apiClient.ts
+import { supabase } from '@/lib/supabaseClient';
+
+// fetch() for our own /api routes, carrying the user's access token.
+export async function authedFetch(
+  path: string,
+  init: RequestInit = {}
+): Promise<Response> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  const headers = new Headers(init.headers);
+  if (session?.access_token) {
+    headers.set('Authorization', `Bearer ${session.access_token}`);
+  }
+
+  return fetch(path, { ...init, headers });
+}
@@ -0,0 +1,137 @@
+// lib/assetDeletion.ts
+// Deletes rows together with the files they point at. The database removes
+// child rows itself (asset → upgrades, services, documents, valuations,
+// receipt reads); storage has no such link, so files are collected first and
+// removed once their rows are gone. A file that can't be removed is left for
+// the orphan sweeper (lib/storageSweep.ts) rather than failing the delete.
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  DOCUMENTS_BUCKET,
+  RECEIPTS_BUCKET,
+  removeStoredFiles,
+} from './storage';
+
+type StoredDocument = {
+  id: string;
+  file_url: string | null;
+  thumbnail_url?: string | null;
+};
+
+async function removeFilesQuietly(
+  supabase: SupabaseClient,
+  values: (string | null | undefined)[],
+  bucket: string
+) {
+  try {
+    await removeStoredFiles(supabase, values, bucket);
+  } catch (err) {
+    console.error(err);
+  }
+}
+
+export async function deleteDocuments(
+  supabase: SupabaseClient,
+  docs: StoredDocument[]
+): Promise<void> {
+  if (docs.length === 0) return;
+
+  const { error } = await supabase
+    .from('asset_documents')
+    .delete()
+    .in(
+      'id',
+      docs.map((d) => d.id)
+    );
+
+  if (error) {
+    throw new Error(error.message || 'Could not delete the document.');
+  }
+
+  await removeFilesQuietly(
+    supabase,
+    docs.flatMap((d) => [d.file_url, d.thumbnail_url]),
+    DOCUMENTS_BUCKET
+  );
+}
+
+// Removes receipt files nothing points at any more. Receipts split across
+// several assets stay until the last of them lets go, and so do files a
+// queued read is still waiting on. Finished reads are history only and
+// don't keep a file.
+export async function removeUnusedReceipts(
+  supabase: SupabaseClient,
+  receiptUrls: (string | null | undefined)[]
+): Promise<void> {
+  const candidates = [...new Set(receiptUrls.filter(Boolean) as string[])];
+  if (candidates.length === 0) return;
+
+  const [{ data: assets, error: assetsError }, { data: jobs, error: jobsError }] =
+    await Promise.all([
+      supabase
+        .from('assets')
+        .select('receipt_url')
+        .in('receipt_url', candidates),
+      supabase
+        .from('receipt_ai_jobs')
+        .select('receipt_url')
+        .in('receipt_url', candidates)
+        .in('status', ['pending', 'processing']),
+    ]);
+
+  if (assetsError || jobsError) {
+    // Can't tell whether the file is shared; keep it.
+    console.error(assetsError ?? jobsError);
+    return;
+  }
+
+  const inUse = new Set(
+    [...(assets ?? []), ...(jobs ?? [])].map((r) => r.receipt_url as string)
+  );
+  const unused = candidates.filter((url) => !inUse.has(url));
+  if (unused.length === 0) return;
+
+  await removeFilesQuietly(supabase, unused, RECEIPTS_BUCKET);
+
+  // Emailed receipts are also logged in inbound_emails; don't leave the log
+  // pointing at a file that is gone.
+  const { error: inboxError } = await supabase
+    .from('inbound_emails')
+    .update({ storage_path: null })
+    .in('storage_path', unused);
+  if (inboxError) console.error(inboxError);
+}
+
+export async function deleteAssetWithFiles(
+  supabase: SupabaseClient,
+  asset: { id: string; receipt_url: string | null }
+): Promise<void> {
+  const [{ data: docs }, { data: jobs }] = await Promise.all([
+    supabase
+      .from('asset_documents')
+      .select('id, file_url, thumbnail_url')
+      .eq('asset_id', asset.id),
+    supabase
+      .from('receipt_ai_jobs')
+      .select('receipt_url')
+      .eq('asset_id', asset.id),
+  ]);
+
+  const { error } = await supabase.from('assets').delete().eq('id', asset.id);
+
+  if (error) {
+    throw new Error(error.message || 'Could not delete asset.');
+  }
+
+  await removeFilesQuietly(
+    supabase,
+    ((docs ?? []) as StoredDocument[]).flatMap((d) => [
+      d.file_url,
+      d.thumbnail_url,
+    ]),
+    DOCUMENTS_BUCKET
+  );
+  await removeUnusedReceipts(supabase, [
+    asset.receipt_url,
+    ...(jobs ?? []).map((j) => j.receipt_url as string | null),
+  ]);
+}
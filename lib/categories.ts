@@ -0,0 +1,23 @@
+// lib/categories.ts
+
+const HOME_KEYWORDS = [
+  'home',
+  'house',
+  'property',
+  'flat',
+  'apartment',
+  'real estate',
+];
+
+export function isHomeCategoryName(name: string | null | undefined): boolean {
+  if (!name) return false;
+  const lower = name.toLowerCase();
+  return HOME_KEYWORDS.some((k) => lower.includes(k));
+}
+
+// Supabase returns `category:categories ( ... )` either as a row or an array.
+export function pickCategory<T>(cat: T | T[] | null | undefined): T | null {
+  if (!cat) return null;
+  if (Array.isArray(cat)) return cat[0] ?? null;
+  return cat;
+}
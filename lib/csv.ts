@@ -0,0 +1,108 @@
+// lib/csv.ts
+
+// Minimal RFC 4180 parser: quoted fields, escaped quotes, CRLF or LF.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ''));
+}
+
+// Turns a parsed CSV into objects keyed by lower-cased header names.
+export function csvToRecords(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (!header) return [];
+  const keys = header.map((h) => h.trim().toLowerCase());
+
+  return rows.map((r) => {
+    const record: Record<string, string> = {};
+    keys.forEach((k, idx) => {
+      record[k] = (r[idx] ?? '').trim();
+    });
+    return record;
+  });
+}
+
+export function pickField(
+  record: Record<string, string>,
+  names: string[]
+): string | null {
+  for (const name of names) {
+    const value = record[name];
+    if (value != null && value !== '') return value;
+  }
+  return null;
+}
+
+// Accepts 2024-03-01, 2024-03, 01/03/2024 (UK day-first) and returns
+// YYYY-MM-DD, or null if the value is not a date.
+export function parseCsvDate(value: string | null): string | null {
+  if (!value) return null;
+  const v = value.trim();
+
+  let m = v.match(/^(\d{4})-(\d{1,2})(?:-(\d{1,2}))?/);
+  if (m) return isoDate(m[1], m[2], m[3] ?? '1');
+
+  m = v.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2,4})$/);
+  if (m) {
+    const year = m[3].length === 2 ? `20${m[3]}` : m[3];
+    return isoDate(year, m[2], m[1]);
+  }
+
+  return null;
+}
+
+function isoDate(y: string, m: string, d: string): string | null {
+  const month = Number(m);
+  const day = Number(d);
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return `${y}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+export function parseCsvNumber(value: string | null): number | null {
+  if (value == null) return null;
+  const cleaned = value.replace(/[£€$,\s]/g, '');
+  if (cleaned === '') return null;
+  const n = Number(cleaned);
+  return Number.isFinite(n) ? n : null;
+}
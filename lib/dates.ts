@@ -0,0 +1,13 @@
+// lib/dates.ts
+// Date display shared by the asset page and its section components.
+
+export function formatDate(dateStr: string | null | undefined): string {
+  if (!dateStr) return '—';
+  try {
+    const d = new Date(dateStr);
+    if (Number.isNaN(d.getTime())) return dateStr;
+    return d.toLocaleDateString();
+  } catch {
+    return dateStr;
+  }
+}
@@ -0,0 +1,148 @@
+// lib/documentPreview.ts
+// Browser only: renders PDFs and images for the document viewer and makes
+// the small first-page thumbnails the Key documents cards show. pdf.js runs
+// its parser in a worker so big scans don't block the page.
+import type { PDFDocumentProxy, PDFPageProxy, RenderTask } from 'pdfjs-dist';
+
+export type PreviewKind = 'pdf' | 'image' | 'other';
+
+// Browsers can't draw HEIC and friends, so those fall back to "download".
+const IMAGE_EXTENSIONS = /\.(png|jpe?g|gif|webp|bmp|avif)$/i;
+
+export function previewKindFromPath(path: string | null | undefined): PreviewKind {
+  if (!path) return 'other';
+  const clean = path.split(/[?#]/)[0];
+  if (/\.pdf$/i.test(clean)) return 'pdf';
+  if (IMAGE_EXTENSIONS.test(clean)) return 'image';
+  return 'other';
+}
+
+// Stored content types win over the file name, which may have no extension.
+export async function previewKindOf(blob: Blob, path: string): Promise<PreviewKind> {
+  if (blob.type === 'application/pdf') return 'pdf';
+  if (blob.type.startsWith('image/') && blob.type !== 'image/heic') return 'image';
+
+  const head = new Uint8Array(await blob.slice(0, 4).arrayBuffer());
+  if (head[0] === 0x25 && head[1] === 0x50 && head[2] === 0x44 && head[3] === 0x46) {
+    return 'pdf'; // %PDF
+  }
+  return previewKindFromPath(path);
+}
+
+let pdfjsPromise: Promise<typeof import('pdfjs-dist')> | null = null;
+
+function loadPdfjs() {
+  if (!pdfjsPromise) {
+    pdfjsPromise = import('pdfjs-dist').then((pdfjs) => {
+      pdfjs.GlobalWorkerOptions.workerSrc = new URL(
+        'pdfjs-dist/build/pdf.worker.min.mjs',
+        import.meta.url
+      ).toString();
+      return pdfjs;
+    });
+  }
+  return pdfjsPromise;
+}
+
+export async function openPdf(blob: Blob): Promise<PDFDocumentProxy> {
+  const pdfjs = await loadPdfjs();
+  return pdfjs.getDocument({
+    data: new Uint8Array(await blob.arrayBuffer()),
+    isEvalSupported: false,
+  }).promise;
+}
+
+// Draws a page at `scale` CSS pixels per PDF point, sharp on high-DPI screens.
+// Cancel the returned task before drawing on the same canvas again; pdf.js
+// refuses two renders into one canvas.
+export function renderPdfPage(
+  page: PDFPageProxy,
+  canvas: HTMLCanvasElement,
+  scale: number,
+  rotation = 0
+): RenderTask {
+  const ratio = window.devicePixelRatio || 1;
+  const viewport = page.getViewport({
+    scale: scale * ratio,
+    rotation: (page.rotate + rotation) % 360,
+  });
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+  canvas.style.width = `${Math.ceil(viewport.width / ratio)}px`;
+  canvas.style.height = `${Math.ceil(viewport.height / ratio)}px`;
+
+  return page.render({ canvas, viewport });
+}
+
+// What a render task's promise rejects with after cancel().
+export function isRenderCancelled(err: unknown): boolean {
+  return err instanceof Error && err.name === 'RenderingCancelledException';
+}
+
+// Thumbnails are stored next to the owner's documents and reused until the
+// document is replaced or deleted.
+export const THUMBNAIL_WIDTH = 320;
+
+export function thumbnailPath(userId: string, documentId: string): string {
+  return `${userId}/thumbnails/${documentId}.jpg`;
+}
+
+function canvasToJpeg(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(
+      (b) => (b ? resolve(b) : reject(new Error('Could not encode thumbnail.'))),
+      'image/jpeg',
+      0.8
+    )
+  );
+}
+
+// First page of a PDF, or the image itself, scaled to THUMBNAIL_WIDTH.
+// Returns null for files there's nothing to draw from.
+export async function renderThumbnail(
+  blob: Blob,
+  path: string
+): Promise<Blob | null> {
+  const kind = await previewKindOf(blob, path);
+  const canvas = document.createElement('canvas');
+
+  if (kind === 'pdf') {
+    const doc = await openPdf(blob);
+    try {
+      const page = await doc.getPage(1);
+      const viewport = page.getViewport({ scale: 1 });
+      const scaled = page.getViewport({ scale: THUMBNAIL_WIDTH / viewport.width });
+      canvas.width = Math.ceil(scaled.width);
+      canvas.height = Math.ceil(scaled.height);
+      // JPEG has no alpha; give transparent pages a white background.
+      const context = canvas.getContext('2d');
+      if (context) {
+        context.fillStyle = '#ffffff';
+        context.fillRect(0, 0, canvas.width, canvas.height);
+      }
+      await page.render({ canvas, viewport: scaled }).promise;
+    } finally {
+      await doc.destroy();
+    }
+    return canvasToJpeg(canvas);
+  }
+
+  if (kind === 'image') {
+    const bitmap = await createImageBitmap(blob);
+    try {
+      const scale = Math.min(1, THUMBNAIL_WIDTH / bitmap.width);
+      canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+      canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+      const context = canvas.getContext('2d');
+      if (!context) return null;
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    } finally {
+      bitmap.close();
+    }
+    return canvasToJpeg(canvas);
+  }
+
+  return null;
+}
@@ -0,0 +1,70 @@
+// lib/documentSearch.ts
+// Client-safe wrapper around the search_documents SQL function, which ranks
+// a user's documents by label, owning upgrade/service and file text.
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { authedFetch } from '@/lib/apiClient';
+
+export type DocumentSearchResult = {
+  document_id: string;
+  asset_id: string;
+  asset_title: string | null;
+  upgrade_id: string | null;
+  upgrade_title: string | null;
+  service_id: string | null;
+  service_type: string | null;
+  label: string | null;
+  doc_type: string | null;
+  uploaded_at: string | null;
+  rank: number;
+  // Matches are wrapped in <mark>…</mark>; see splitSnippet.
+  snippet: string | null;
+};
+
+export const DEFAULT_SEARCH_RESULTS = 30;
+
+export async function searchDocuments(
+  supabase: SupabaseClient,
+  query: string,
+  maxResults: number = DEFAULT_SEARCH_RESULTS
+): Promise<DocumentSearchResult[]> {
+  const search = query.trim();
+  if (!search) return [];
+
+  const { data, error } = await supabase.rpc('search_documents', {
+    search,
+    max_results: maxResults,
+  });
+
+  if (error) {
+    throw new Error(error.message || 'Search failed.');
+  }
+  return (data ?? []) as DocumentSearchResult[];
+}
+
+export type SnippetPart = { text: string; match: boolean };
+
+// Turns the highlighted snippet into plain text parts, so document text is
+// never rendered as HTML.
+export function splitSnippet(snippet: string | null): SnippetPart[] {
+  if (!snippet) return [];
+  return snippet
+    .split(/(<mark>[\s\S]*?<\/mark>)/)
+    .filter((part) => part !== '')
+    .map((part) =>
+      part.startsWith('<mark>') && part.endsWith('</mark>')
+        ? { text: part.slice(6, -7), match: true }
+        : { text: part, match: false }
+    );
+}
+
+// Reads a new upload's text for search in the background. Search still
+// finds it by label if this fails, and the document-text job retries it.
+export function requestDocumentText(documentId: string) {
+  authedFetch(`/api/documents/${documentId}/text`, { method: 'POST' })
+    .then((res) => {
+      if (!res.ok && res.status !== 401) {
+        console.error(`Document text request failed (${res.status}).`);
+      }
+    })
+    .catch((err) => console.error(err));
+}
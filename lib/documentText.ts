@@ -0,0 +1,190 @@
+// lib/documentText.ts
+// Server only: reads the text out of uploaded documents so search can find
+// them by what they say, not just their label. PDFs are read from their text
+// layer; photos and scanned PDFs go through the same OCR as receipts.
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  DOCUMENTS_BUCKET,
+  downloadStoredFile,
+  isOwnedStoragePath,
+} from './storage';
+import { extractPdfText, isPdf, renderPdfPages } from './receipts/pdfText';
+import { isImage, ocrImages } from './receipts/ocr';
+
+export type DocumentTextStatus =
+  | 'pending'
+  | 'processing'
+  | 'indexed'
+  | 'unsupported'
+  | 'failed';
+
+// Surveys and manuals run long; the text layer is cheap to read.
+const MAX_PDF_TEXT_PAGES = 60;
+// OCR is slow, and the first pages of a scan say what it is.
+const MAX_OCR_PAGES = 5;
+// A PDF with fewer characters than this is treated as a scan.
+const MIN_PDF_TEXT_LENGTH = 20;
+// Keeps a document's search vector well inside Postgres' 1MB limit.
+const MAX_CONTENT_LENGTH = 200_000;
+// A document still 'processing' after this long lost its reader.
+const STALE_PROCESSING_MINUTES = 10;
+
+// Null when the file isn't something Round can read (Word files, .eml, …).
+export async function readDocumentText(
+  bytes: Uint8Array
+): Promise<string | null> {
+  let text: string;
+  if (isPdf(bytes)) {
+    text = await extractPdfText(bytes, MAX_PDF_TEXT_PAGES);
+    if (text.replace(/\s/g, '').length < MIN_PDF_TEXT_LENGTH) {
+      text = (await ocrImages(await renderPdfPages(bytes, MAX_OCR_PAGES))).text;
+    }
+  } else if (isImage(bytes)) {
+    text = (await ocrImages([bytes])).text;
+  } else {
+    return null;
+  }
+
+  return text.replace(/[ \t]+/g, ' ').trim().slice(0, MAX_CONTENT_LENGTH);
+}
+
+// Moves a waiting document to processing. Only one reader wins: the update
+// is conditional on nobody having claimed it yet.
+async function claimDocument(
+  supabase: SupabaseClient,
+  documentId: string
+): Promise<{ id: string; owner_id: string; file_url: string } | null> {
+  const { data, error } = await supabase
+    .from('asset_documents')
+    .update({
+      text_status: 'processing',
+      text_claimed_at: new Date().toISOString(),
+    })
+    .eq('id', documentId)
+    .or('text_status.is.null,text_status.eq.pending')
+    .select('id, owner_id, file_url');
+
+  if (error) throw new Error(error.message || 'Could not claim the document.');
+  return data?.[0] ?? null;
+}
+
+// Null when another reader already has the document.
+export async function indexDocumentText(
+  supabase: SupabaseClient,
+  documentId: string
+): Promise<DocumentTextStatus | null> {
+  const doc = await claimDocument(supabase, documentId);
+  if (!doc) return null;
+
+  let status: DocumentTextStatus;
+  let content: string | null = null;
+  let textError: string | null = null;
+  try {
+    if (!isOwnedStoragePath(doc.file_url, DOCUMENTS_BUCKET, doc.owner_id)) {
+      throw new Error("This file isn't in the document owner's files.");
+    }
+    const file = await downloadStoredFile(supabase, doc.file_url, DOCUMENTS_BUCKET);
+    content = await readDocumentText(new Uint8Array(await file.arrayBuffer()));
+    status = content === null ? 'unsupported' : 'indexed';
+  } catch (err) {
+    console.error(err);
+    status = 'failed';
+    textError = err instanceof Error ? err.message : 'Could not read this document.';
+  }
+
+  const { error: updateError } = await supabase
+    .from('asset_documents')
+    .update({
+      content_text: content,
+      text_status: status,
+      text_error: textError,
+      text_indexed_at: new Date().toISOString(),
+    })
+    .eq('id', documentId);
+
+  if (updateError) {
+    throw new Error(updateError.message || 'Could not save document text.');
+  }
+  return status;
+}
+
+export const DEFAULT_DOCUMENT_TEXT_BATCH_SIZE = 10;
+// OCR holds a worker for seconds per page; bigger runs time out.
+export const MAX_DOCUMENT_TEXT_BATCH_SIZE = 50;
+
+export type DocumentTextRunResult = {
+  processed: number;
+  requeued_stale: number;
+  skipped: number;
+  // Reads whose result couldn't be saved; they're retried once stale.
+  errors: { document_id: string; error: string }[];
+} & Record<Exclude<DocumentTextStatus, 'pending' | 'processing'>, number>;
+
+async function requeueStaleDocuments(
+  supabase: SupabaseClient
+): Promise<number> {
+  const staleBefore = new Date(
+    Date.now() - STALE_PROCESSING_MINUTES * 60 * 1000
+  ).toISOString();
+
+  const { data, error } = await supabase
+    .from('asset_documents')
+    .update({ text_status: 'pending' })
+    .eq('text_status', 'processing')
+    .lt('text_claimed_at', staleBefore)
+    .select('id');
+
+  if (error) throw new Error(error.message);
+  return (data ?? []).length;
+}
+
+// Reads documents uploaded before search existed, and any whose read after
+// upload never ran. Failed reads are not retried automatically.
+export async function runDocumentTextJobs(
+  supabase: SupabaseClient,
+  options: { batchSize?: number } = {}
+): Promise<DocumentTextRunResult> {
+  const requeued = await requeueStaleDocuments(supabase);
+
+  const { data: docs, error } = await supabase
+    .from('asset_documents')
+    .select('id')
+    .or('text_status.is.null,text_status.eq.pending')
+    .order('uploaded_at', { ascending: true })
+    .limit(options.batchSize ?? DEFAULT_DOCUMENT_TEXT_BATCH_SIZE);
+
+  if (error) {
+    throw new Error(error.message || 'Could not load documents to read.');
+  }
+
+  const result: DocumentTextRunResult = {
+    processed: 0,
+    requeued_stale: requeued,
+    skipped: 0,
+    errors: [],
+    indexed: 0,
+    unsupported: 0,
+    failed: 0,
+  };
+  for (const doc of docs ?? []) {
+    let status: DocumentTextStatus | null;
+    try {
+      status = await indexDocumentText(supabase, doc.id);
+    } catch (err) {
+      console.error(err);
+      result.errors.push({
+        document_id: doc.id,
+        error: err instanceof Error ? err.message : 'Could not read document.',
+      });
+      result.failed += 1;
+      continue;
+    }
+    if (status === null) {
+      result.skipped += 1;
+      continue;
+    }
+    result.processed += 1;
+    if (status !== 'pending' && status !== 'processing') result[status] += 1;
+  }
+  return result;
+}
@@ -0,0 +1,103 @@
+// lib/documents.ts
+// What kind of paperwork an asset_documents row is, and whether it is still
+// in date. Client-safe: the asset page uses these for the document forms and
+// the Key documents list.
+
+export type DocumentType =
+  | 'receipt'
+  | 'warranty'
+  | 'survey'
+  | 'certificate'
+  | 'manual'
+  | 'insurance_schedule'
+  | 'valuation_report'
+  | 'planning_permission';
+
+// In the order the Key documents section lists them.
+export const DOCUMENT_TYPES: {
+  value: DocumentType;
+  label: string;
+  // Types that normally run out and should show an expiry date.
+  expires: boolean;
+}[] = [
+  { value: 'warranty', label: 'Warranty', expires: true },
+  { value: 'certificate', label: 'Certificate', expires: true },
+  { value: 'insurance_schedule', label: 'Insurance schedule', expires: true },
+  { value: 'survey', label: 'Survey', expires: false },
+  { value: 'valuation_report', label: 'Valuation report', expires: false },
+  { value: 'planning_permission', label: 'Planning permission', expires: true },
+  { value: 'receipt', label: 'Receipt', expires: false },
+  { value: 'manual', label: 'Manual', expires: false },
+];
+
+export function documentTypeLabel(type: string | null | undefined): string {
+  return DOCUMENT_TYPES.find((t) => t.value === type)?.label ?? 'Other';
+}
+
+const KEYWORDS: Record<DocumentType, string[]> = {
+  warranty: ['warranty', 'guarantee', 'applecare', 'protection plan'],
+  certificate: ['certificate', 'cert', 'gas safe', 'epc', 'eicr', 'pat test'],
+  insurance_schedule: ['insurance', 'policy schedule', 'schedule of cover'],
+  survey: ['survey', 'homebuyer', 'structural'],
+  valuation_report: ['valuation', 'appraisal'],
+  planning_permission: ['planning', 'building control', 'permitted development'],
+  receipt: ['receipt', 'invoice', 'order confirmation'],
+  manual: ['manual', 'brochure', 'guide', 'instructions', 'spec sheet'],
+};
+
+// Pre-fills the type picker from the label the user typed.
+export function guessDocumentType(label: string): DocumentType | null {
+  const lower = label.toLowerCase();
+  for (const { value } of DOCUMENT_TYPES) {
+    if (KEYWORDS[value].some((k) => lower.includes(k))) return value;
+  }
+  return null;
+}
+
+// Documents expiring within this many days are flagged.
+export const EXPIRY_WARNING_DAYS = 60;
+
+export type ExpiryStatus = {
+  state: 'expired' | 'expiring' | 'valid';
+  days: number; // until expiry; negative once expired
+};
+
+function startOfDay(d: Date): number {
+  return Date.UTC(d.getFullYear(), d.getMonth(), d.getDate());
+}
+
+export function documentExpiry(
+  expiresOn: string | null | undefined,
+  today: Date = new Date()
+): ExpiryStatus | null {
+  if (!expiresOn) return null;
+  const [y, m, d] = expiresOn.slice(0, 10).split('-').map(Number);
+  if (!y || !m || !d) return null;
+
+  const days = Math.round(
+    (Date.UTC(y, m - 1, d) - startOfDay(today)) / (24 * 60 * 60 * 1000)
+  );
+  return {
+    state: days < 0 ? 'expired' : days <= EXPIRY_WARNING_DAYS ? 'expiring' : 'valid',
+    days,
+  };
+}
+
+// Groups in DOCUMENT_TYPES order, untyped documents last under "Other".
+export function groupDocumentsByType<
+  T extends { doc_type?: string | null },
+>(docs: T[]): { type: DocumentType | null; label: string; docs: T[] }[] {
+  const groups = DOCUMENT_TYPES.map((t) => ({
+    type: t.value as DocumentType | null,
+    label: t.label,
+    docs: docs.filter((d) => d.doc_type === t.value),
+  }));
+  groups.push({
+    type: null,
+    label: 'Other',
+    docs: docs.filter(
+      (d) => !DOCUMENT_TYPES.some((t) => t.value === d.doc_type)
+    ),
+  });
+  return groups.filter((g) => g.docs.length > 0);
+}
@@ -0,0 +1,304 @@
+// lib/fx.ts
+// Client-safe: the dashboard converts totals with these in the browser.
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { csvToRecords, parseCsvDate, parseCsvNumber, pickField } from '@/lib/csv';
+
+export const DEFAULT_REPORTING_CURRENCY = 'GBP';
+
+export type FxRate = {
+  base_currency: string;
+  quote_currency: string;
+  rate: number;
+  as_of: string;
+  source?: string | null;
+};
+
+export type FxHistoryRate = {
+  base_currency: string;
+  quote_currency: string;
+  rate_date: string; // YYYY-MM-DD
+  rate: number;
+};
+
+export type FxConverter = {
+  // null when no direct, inverse or one-hop cross rate exists.
+  convert: (amount: number, from: string, to: string) => number | null;
+  // Uses the latest historical rate on or before `date`; null when the
+  // history doesn't reach back that far.
+  convertAt: (
+    amount: number,
+    from: string,
+    to: string,
+    date: string
+  ) => number | null;
+  hasRate: (from: string, to: string) => boolean;
+};
+
+type DatedRate = { date: string; rate: number };
+
+// Direct, then inverse (added by the caller), then through one other currency.
+function crossRate<T>(
+  graph: Record<string, Record<string, T>>,
+  from: string,
+  to: string,
+  rateOf: (edge: T) => number | null
+): number | null {
+  const a = from.toUpperCase();
+  const b = to.toUpperCase();
+  if (a === b) return 1;
+  const direct = graph[a]?.[b];
+  if (direct != null) {
+    const r = rateOf(direct);
+    if (r != null) return r;
+  }
+  for (const [via, firstEdge] of Object.entries(graph[a] || {})) {
+    const secondEdge = graph[via]?.[b];
+    if (secondEdge == null) continue;
+    const first = rateOf(firstEdge);
+    const second = rateOf(secondEdge);
+    if (first != null && second != null) return first * second;
+  }
+  return null;
+}
+
+function latestOnOrBefore(series: DatedRate[], date: string): number | null {
+  let lo = 0;
+  let hi = series.length - 1;
+  let found: number | null = null;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (series[mid].date <= date) {
+      found = series[mid].rate;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
+}
+
+export function createFxConverter(
+  rates: FxRate[],
+  history: FxHistoryRate[] = []
+): FxConverter {
+  // graph[a][b] = how many b one a buys.
+  const graph: Record<string, Record<string, number>> = {};
+  const link = (a: string, b: string, r: number) => {
+    (graph[a] ||= {})[b] = r;
+  };
+  rates.forEach((r) => {
+    const rate = Number(r.rate);
+    if (!(rate > 0)) return;
+    const base = r.base_currency.toUpperCase();
+    const quote = r.quote_currency.toUpperCase();
+    link(base, quote, rate);
+    if (graph[quote]?.[base] == null) link(quote, base, 1 / rate);
+  });
+
+  // dated[a][b] = rates for a→b sorted by date.
+  const dated: Record<string, Record<string, DatedRate[]>> = {};
+  history.forEach((r) => {
+    const rate = Number(r.rate);
+    if (!(rate > 0)) return;
+    const base = r.base_currency.toUpperCase();
+    const quote = r.quote_currency.toUpperCase();
+    ((dated[base] ||= {})[quote] ||= []).push({ date: r.rate_date, rate });
+  });
+  for (const [base, quotes] of Object.entries(dated)) {
+    for (const [quote, series] of Object.entries(quotes)) {
+      if (dated[quote]?.[base]) continue;
+      (dated[quote] ||= {})[base] = series.map((p) => ({
+        date: p.date,
+        rate: 1 / p.rate,
+      }));
+    }
+  }
+  Object.values(dated).forEach((quotes) =>
+    Object.values(quotes).forEach((series) =>
+      series.sort((x, y) => x.date.localeCompare(y.date))
+    )
+  );
+
+  const rateFor = (from: string, to: string) =>
+    crossRate(graph, from, to, (r) => r);
+
+  return {
+    convert: (amount, from, to) => {
+      const r = rateFor(from, to);
+      return r == null ? null : amount * r;
+    },
+    convertAt: (amount, from, to, date) => {
+      const day = date.slice(0, 10);
+      const r = crossRate(dated, from, to, (series) =>
+        latestOnOrBefore(series, day)
+      );
+      return r == null ? null : amount * r;
+    },
+    hasRate: (from, to) => rateFor(from, to) != null,
+  };
+}
+
+export async function loadFxRates(supabase: SupabaseClient): Promise<FxRate[]> {
+  const { data, error } = await supabase
+    .from('fx_rates')
+    .select('base_currency, quote_currency, rate, as_of, source');
+  if (error) throw new Error(error.message);
+  return (data || []) as FxRate[];
+}
+
+// Rates published this many days before `since` are still loaded, so a
+// purchase on a weekend or bank holiday converts at the last rate before it.
+const HISTORY_LOOKBACK_DAYS = 7;
+
+// History rows for every pair touching `currencies`, which covers direct
+// rates and one-hop crosses between them. With `since`, only rows needed to
+// convert on or after that date are loaded.
+export async function loadFxHistory(
+  supabase: SupabaseClient,
+  currencies: string[],
+  since: string | null = null,
+  pageSize = 1000
+): Promise<FxHistoryRate[]> {
+  const codes = Array.from(
+    new Set(currencies.map((c) => c.toUpperCase()))
+  ).filter((c) => /^[A-Z]{3}$/.test(c));
+  if (codes.length === 0) return [];
+
+  const list = codes.join(',');
+  let fromDate: string | null = null;
+  if (since) {
+    const d = new Date(since.slice(0, 10));
+    if (!Number.isNaN(d.getTime())) {
+      d.setUTCDate(d.getUTCDate() - HISTORY_LOOKBACK_DAYS);
+      fromDate = d.toISOString().slice(0, 10);
+    }
+  }
+  const rows: FxHistoryRate[] = [];
+
+  for (let offset = 0; ; offset += pageSize) {
+    let query = supabase
+      .from('fx_rate_history')
+      .select('base_currency, quote_currency, rate_date, rate')
+      .or(`base_currency.in.(${list}),quote_currency.in.(${list})`);
+    if (fromDate) query = query.gte('rate_date', fromDate);
+
+    // Order by the whole key so pages neither overlap nor skip rows.
+    const { data, error } = await query
+      .order('rate_date', { ascending: true })
+      .order('base_currency', { ascending: true })
+      .order('quote_currency', { ascending: true })
+      .range(offset, offset + pageSize - 1);
+
+    if (error) throw new Error(error.message);
+    rows.push(...((data || []) as FxHistoryRate[]));
+    if (!data || data.length < pageSize) break;
+  }
+
+  return rows;
+}
+
+// Accepts base,quote,rate[,date] columns (also from/to, currency pairs
+// such as "GBPUSD" in a pair column).
+export function parseFxCsv(
+  text: string,
+  source = 'csv import'
+): { rows: FxRate[]; skipped: number } {
+  const rows: FxRate[] = [];
+  let skipped = 0;
+  const today = new Date().toISOString().slice(0, 10);
+
+  for (const record of csvToRecords(text)) {
+    const pair = pickField(record, ['pair', 'symbol'])?.replace(/[^A-Za-z]/g, '');
+    const base =
+      pickField(record, ['base', 'base_currency', 'from']) ??
+      (pair?.length === 6 ? pair.slice(0, 3) : null);
+    const quote =
+      pickField(record, ['quote', 'quote_currency', 'to']) ??
+      (pair?.length === 6 ? pair.slice(3) : null);
+    const rate = parseCsvNumber(pickField(record, ['rate', 'close', 'value']));
+
+    if (!base || !quote || rate == null || rate <= 0) {
+      skipped++;
+      continue;
+    }
+
+    rows.push({
+      base_currency: base.toUpperCase(),
+      quote_currency: quote.toUpperCase(),
+      rate,
+      as_of: parseCsvDate(pickField(record, ['date', 'as_of'])) ?? today,
+      source,
+    });
+  }
+
+  return { rows, skipped };
+}
+
+// Every row lands in the dated history; the newest per pair also becomes
+// the current rate, unless the stored rate is newer. A re-import for the
+// same day replaces it, so corrections take effect.
+export async function importFxRates(
+  supabase: SupabaseClient,
+  rows: FxRate[],
+  batchSize = 500
+): Promise<number> {
+  const history: Record<string, FxHistoryRate & { source?: string | null }> =
+    {};
+  rows.forEach((r) => {
+    history[`${r.base_currency}/${r.quote_currency}/${r.as_of}`] = {
+      base_currency: r.base_currency,
+      quote_currency: r.quote_currency,
+      rate_date: r.as_of,
+      rate: r.rate,
+      source: r.source,
+    };
+  });
+  const historyRows = Object.values(history);
+  for (let i = 0; i < historyRows.length; i += batchSize) {
+    const { error } = await supabase
+      .from('fx_rate_history')
+      .upsert(historyRows.slice(i, i + batchSize), {
+        onConflict: 'base_currency,quote_currency,rate_date',
+      });
+    if (error) throw new Error(error.message);
+  }
+
+  // Keep only the newest row per pair so one upsert can't touch a key twice.
+  const latest: Record<string, FxRate> = {};
+  rows.forEach((r) => {
+    const key = `${r.base_currency}/${r.quote_currency}`;
+    if (!latest[key] || latest[key].as_of < r.as_of) latest[key] = r;
+  });
+
+  // A back-fill of old rates must not replace a newer current rate.
+  const candidates = Object.values(latest);
+  if (candidates.length === 0) return historyRows.length;
+
+  const { data: stored, error: storedError } = await supabase
+    .from('fx_rates')
+    .select('base_currency, quote_currency, as_of')
+    .in('base_currency', [...new Set(candidates.map((r) => r.base_currency))]);
+  if (storedError) throw new Error(storedError.message);
+
+  const storedAsOf: Record<string, string> = {};
+  (stored ?? []).forEach((r) => {
+    storedAsOf[`${r.base_currency}/${r.quote_currency}`] = r.as_of;
+  });
+
+  const batch = candidates
+    .filter((r) => {
+      const current = storedAsOf[`${r.base_currency}/${r.quote_currency}`];
+      return !current || r.as_of >= current;
+    })
+    .map((r) => ({
+      ...r,
+      updated_at: new Date().toISOString(),
+    }));
+  if (batch.length === 0) return historyRows.length;
+
+  const { error } = await supabase
+    .from('fx_rates')
+    .upsert(batch, { onConflict: 'base_currency,quote_currency' });
+  if (error) throw new Error(error.message);
+  return historyRows.length;
+}
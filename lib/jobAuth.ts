@@ -0,0 +1,10 @@
+// lib/jobAuth.ts
+
+// Routes meant for cron / admin scripts are called with
+// `Authorization: Bearer $ROUND_JOB_SECRET` instead of a user session.
+export function isAuthorisedJobRequest(req: Request): boolean {
+  const secret = process.env.ROUND_JOB_SECRET;
+  if (!secret) return false;
+  const header = req.headers.get('authorization') || '';
+  return header === `Bearer ${secret}`;
+}
@@ -0,0 +1,62 @@
+// lib/money.ts
+// The one money formatter every page uses.
+
+export const DEFAULT_LOCALE = 'en-GB';
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+function getFormatter(
+  currency: string,
+  locale: string,
+  exact = false
+): Intl.NumberFormat {
+  const key = `${locale}|${currency}|${exact}`;
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(locale, {
+      style: 'currency',
+      currency,
+      // Exact amounts use the currency's own minor units (2 for GBP, 0 for JPY).
+      ...(exact ? {} : { maximumFractionDigits: 0 }),
+    });
+    formatters.set(key, formatter);
+  }
+  return formatter;
+}
+
+// Whole units by default; pass { exact: true } where pennies matter, e.g.
+// amounts read off a receipt.
+export function formatMoney(
+  value: number | null | undefined,
+  currency: string | null | undefined,
+  locale: string = DEFAULT_LOCALE,
+  { exact = false }: { exact?: boolean } = {}
+): string {
+  if (value == null) return '—';
+  const cur = (currency || 'GBP').trim().toUpperCase();
+  try {
+    return getFormatter(cur, locale, exact).format(value);
+  } catch {
+    // Unknown currency code or locale: keep the amount readable.
+    return exact
+      ? `${cur} ${value.toFixed(2)}`
+      : `${cur} ${Math.round(value).toLocaleString()}`;
+  }
+}
+
+// "£", "€", "US$"… for column headers.
+export function currencySymbol(
+  currency: string | null | undefined,
+  locale: string = DEFAULT_LOCALE
+): string {
+  const cur = (currency || 'GBP').trim().toUpperCase();
+  try {
+    return (
+      getFormatter(cur, locale)
+        .formatToParts(0)
+        .find((p) => p.type === 'currency')?.value ?? cur
+    );
+  } catch {
+    return cur;
+  }
+}
@@ -0,0 +1,120 @@
+// lib/portfolioHistory.ts
+
+export type HistoryAsset = {
+  id: string;
+  purchase_price: number | null;
+  purchase_date: string | null;
+  current_estimated_value: number | null;
+  created_at?: string | null;
+};
+
+export type HistoryValuation = {
+  asset_id: string;
+  suggested_value: number | null;
+  valuation_date?: string | null;
+  created_at: string;
+};
+
+// Professional valuations carry the date the valuer valued the asset.
+export function effectiveValuationDate(v: HistoryValuation): string {
+  return v.valuation_date || v.created_at;
+}
+
+export type PortfolioPoint = {
+  month: string; // YYYY-MM-01
+  total: number;
+  // False while every asset counted is still at its purchase price.
+  valued: boolean;
+};
+
+function monthStart(d: Date): Date {
+  return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), 1));
+}
+
+function nextMonth(d: Date): Date {
+  return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 1));
+}
+
+// Rebuilds total estimated value at the end of each month. An asset counts
+// from its purchase date (or creation date), valued at its latest valuation
+// up to that point, else its purchase price. The current month uses today's
+// current_estimated_value.
+export function buildPortfolioHistory(
+  assets: HistoryAsset[],
+  valuations: HistoryValuation[],
+  now: Date = new Date()
+): PortfolioPoint[] {
+  const byAsset: Record<string, HistoryValuation[]> = {};
+  valuations.forEach((v) => {
+    if (v.suggested_value == null) return;
+    (byAsset[v.asset_id] ||= []).push(v);
+  });
+  Object.values(byAsset).forEach((list) =>
+    list.sort(
+      (a, b) =>
+        new Date(effectiveValuationDate(a)).getTime() -
+        new Date(effectiveValuationDate(b)).getTime()
+    )
+  );
+
+  const startTimes: number[] = [];
+  assets.forEach((a) => {
+    const start = a.purchase_date || a.created_at;
+    if (start) {
+      const t = new Date(start).getTime();
+      if (!Number.isNaN(t)) startTimes.push(t);
+    }
+  });
+  valuations.forEach((v) =>
+    startTimes.push(new Date(effectiveValuationDate(v)).getTime())
+  );
+  if (startTimes.length === 0) return [];
+
+  const currentMonth = monthStart(now);
+  const points: PortfolioPoint[] = [];
+
+  for (
+    let m = monthStart(new Date(Math.min(...startTimes)));
+    m.getTime() <= currentMonth.getTime();
+    m = nextMonth(m)
+  ) {
+    const isCurrent = m.getTime() === currentMonth.getTime();
+    const monthEnd = nextMonth(m).getTime() - 1;
+    let total = 0;
+    let valued = false;
+
+    for (const a of assets) {
+      const start = a.purchase_date || a.created_at;
+      if (start && new Date(start).getTime() > monthEnd) continue;
+
+      if (isCurrent && a.current_estimated_value != null) {
+        total += a.current_estimated_value;
+        valued = true;
+        continue;
+      }
+
+      const history = byAsset[a.id] || [];
+      let value: number | null = null;
+      for (const v of history) {
+        if (new Date(effectiveValuationDate(v)).getTime() > monthEnd) break;
+        value = v.suggested_value;
+      }
+      if (value != null) valued = true;
+      total += value ?? a.purchase_price ?? 0;
+    }
+
+    points.push({ month: m.toISOString().slice(0, 10), total, valued });
+  }
+
+  return points;
+}
+
+// Change in value from the first month backed by a valuation to the
+// latest. Months where everything is still at cost are left out, so the
+// first valuation doesn't read as a move away from the purchase price.
+export function portfolioTrend(points: PortfolioPoint[]): number {
+  const valued = points.filter((p) => p.valued);
+  return valued.length > 1
+    ? valued[valued.length - 1].total - valued[0].total
+    : 0;
+}
@@ -0,0 +1,147 @@
+// lib/receipts/email.ts
+// Server only: reads order-confirmation emails (raw RFC 822 / .eml) so the
+// receipt parser can work on their HTML body like any other receipt text.
+import PostalMime, { type Address } from 'postal-mime';
+
+export type EmailReceipt = {
+  subject: string | null;
+  from_name: string | null;
+  from_address: string | null;
+  // Every address the message was delivered to; forwarding tokens live here.
+  recipients: string[];
+  sent_at: string | null; // ISO timestamp
+  message_id: string | null;
+  text: string;
+};
+
+const HEADER_LINE_RE = /^[!-9;-~]+:/;
+
+// True for anything that starts with a plausible mail header block.
+export function isEmailMessage(bytes: Uint8Array): boolean {
+  const head = new TextDecoder('latin1').decode(bytes.slice(0, 8192));
+  const end = head.search(/\r?\n\r?\n/);
+  if (end <= 0) return false;
+
+  const lines = head.slice(0, end).split(/\r?\n/);
+  const wellFormed = lines.every(
+    (l) => HEADER_LINE_RE.test(l) || /^[ \t]/.test(l)
+  );
+  const block = lines.join('\n');
+  return (
+    wellFormed && /^from:/im.test(block) && /^(subject|date):/im.test(block)
+  );
+}
+
+const ENTITIES: Record<string, string> = {
+  nbsp: ' ',
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  pound: '£',
+  euro: '€',
+  dollar: '$',
+  cent: '¢',
+  yen: '¥',
+  times: '×',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  rsquo: '’',
+  lsquo: '‘',
+  rdquo: '”',
+  ldquo: '“',
+  eacute: 'é',
+  egrave: 'è',
+  agrave: 'à',
+  ccedil: 'ç',
+  uuml: 'ü',
+  ouml: 'ö',
+  auml: 'ä',
+  szlig: 'ß',
+};
+
+function decodeEntities(s: string): string {
+  return s.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, code: string) => {
+    if (code[0] === '#') {
+      const n =
+        code[1] === 'x' || code[1] === 'X'
+          ? parseInt(code.slice(2), 16)
+          : parseInt(code.slice(1), 10);
+      // fromCodePoint throws past U+10FFFF; leave bogus references as typed.
+      return Number.isFinite(n) && n <= 0x10ffff
+        ? String.fromCodePoint(n)
+        : match;
+    }
+    return ENTITIES[code.toLowerCase()] ?? match;
+  });
+}
+
+// Order emails are table layouts: one row per line, cells side by side.
+// This keeps "Total | £12.00" on one line the way a printed receipt has it.
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(head|style|script|title)\b[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|tr|li|h[1-6]|table|section|header|footer)>/gi, '\n')
+    .replace(/<\/(td|th)>/gi, ' ')
+    .replace(/<[^>]+>/g, '');
+
+  return decodeEntities(text)
+    .split('\n')
+    .map((l) => l.replace(/[\s ]+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+function addresses(list: Address[] | undefined): string[] {
+  return (list ?? []).flatMap((a) =>
+    a.group ? a.group.map((m) => m.address) : [a.address]
+  );
+}
+
+export async function parseEmailReceipt(
+  bytes: Uint8Array
+): Promise<EmailReceipt> {
+  const email = await PostalMime.parse(bytes);
+
+  const from = email.from && !email.from.group ? email.from : null;
+  const delivered = [email.deliveredTo, ...addresses(email.to)]
+    .concat(addresses(email.cc))
+    .filter((a): a is string => !!a)
+    .map((a) => a.toLowerCase());
+
+  const sent = email.date ? new Date(email.date) : null;
+
+  return {
+    subject: email.subject?.trim() || null,
+    from_name: from?.name?.trim() || null,
+    from_address: from?.address?.toLowerCase() || null,
+    recipients: Array.from(new Set(delivered)),
+    sent_at: sent && !Number.isNaN(sent.getTime()) ? sent.toISOString() : null,
+    message_id: email.messageId?.trim() || null,
+    text: email.html ? htmlToText(email.html) : (email.text ?? '').trim(),
+  };
+}
+
+const NO_REPLY_RE =
+  /\b(no-?reply|do-?not-?reply|orders?|customer ?(service|care)|notifications?|info|team|support|mailer)\b/gi;
+
+// "Currys <noreply@currys.co.uk>" → "Currys"; "no-reply@shop.fnac.com" → "Fnac".
+export function merchantFromSender(email: EmailReceipt): string | null {
+  const name = email.from_name?.replace(NO_REPLY_RE, '').replace(/\s+/g, ' ');
+  const cleaned = name?.replace(/^[\s\-–|:,]+|[\s\-–|:,]+$/g, '').trim();
+  if (cleaned && cleaned.length >= 2) return cleaned;
+
+  const domain = email.from_address?.split('@')[1];
+  if (!domain) return null;
+  const parts = domain.split('.');
+  // Skip mail subdomains and second-level suffixes: mail.shop.co.uk → shop.
+  const known = ['co', 'com', 'org', 'net', 'ac', 'gov'];
+  let i = parts.length - 2;
+  if (i > 0 && known.includes(parts[i])) i--;
+  const label = parts[i];
+  return label ? label.charAt(0).toUpperCase() + label.slice(1) : null;
+}
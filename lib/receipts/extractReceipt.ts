@@ -0,0 +1,165 @@
+// lib/receipts/extractReceipt.ts
+// Server-side: downloads an asset's stored receipt and turns it into an
+// ExtractedReceipt. PDFs with a text layer are read directly; photos and
+// scanned PDFs go through OCR first; order emails (.eml) are read from their
+// HTML body. The job queue (jobQueue.ts) records the outcome.
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { parseStorageLocation, RECEIPTS_BUCKET } from '@/lib/storage';
+import { ExtractedReceipt, parseReceiptText } from './parseReceipt';
+import { extractPdfText, isPdf, renderPdfPages } from './pdfText';
+import { isImage, OcrLine, ocrImages, OcrResult } from './ocr';
+import {
+  EmailReceipt,
+  isEmailMessage,
+  merchantFromSender,
+  parseEmailReceipt,
+} from './email';
+
+export type ReceiptTextSource = 'pdf_text' | 'ocr' | 'email';
+
+// 0–1 per extracted field; only set when the text came from OCR.
+export type FieldConfidence = Partial<
+  Record<
+    | 'merchant'
+    | 'date'
+    | 'currency'
+    | 'total'
+    | 'subtotal'
+    | 'vat_amount'
+    | 'line_items',
+    number
+  >
+>;
+
+export type ReceiptText = {
+  text: string;
+  source: ReceiptTextSource;
+  ocr: OcrResult | null;
+  email: EmailReceipt | null;
+};
+
+export type ReceiptExtraction = ReceiptText & {
+  result: ExtractedReceipt;
+  fieldConfidence: FieldConfidence | null;
+};
+
+// A PDF with fewer characters than this is treated as a scan.
+const MIN_PDF_TEXT_LENGTH = 20;
+
+export async function readReceiptText(bytes: Uint8Array): Promise<ReceiptText> {
+  if (isPdf(bytes)) {
+    const text = await extractPdfText(bytes);
+    if (text.replace(/\s/g, '').length >= MIN_PDF_TEXT_LENGTH) {
+      return { text, source: 'pdf_text', ocr: null, email: null };
+    }
+    const ocr = await ocrImages(await renderPdfPages(bytes));
+    return { text: ocr.text, source: 'ocr', ocr, email: null };
+  }
+
+  if (isImage(bytes)) {
+    const ocr = await ocrImages([bytes]);
+    return { text: ocr.text, source: 'ocr', ocr, email: null };
+  }
+
+  if (isEmailMessage(bytes)) {
+    const email = await parseEmailReceipt(bytes);
+    return { text: email.text, source: 'email', ocr: null, email };
+  }
+
+  throw new Error(
+    'Round can read PDF, JPEG, PNG and WebP receipts and .eml order emails. Please upload one of those.'
+  );
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+// Each field inherits the OCR confidence of the line it was read from. OCR
+// lines and parser lines line up because both drop empty lines.
+export function fieldConfidence(
+  result: ExtractedReceipt,
+  lines: OcrLine[]
+): FieldConfidence {
+  const at = (index: number | undefined) =>
+    index != null && lines[index]
+      ? round2(lines[index].confidence / 100)
+      : undefined;
+
+  const out: FieldConfidence = {};
+  for (const field of [
+    'merchant',
+    'date',
+    'total',
+    'subtotal',
+    'vat_amount',
+  ] as const) {
+    const c = at(result.source_lines[field]);
+    if (c != null) out[field] = c;
+  }
+
+  // The currency is usually printed next to the total.
+  if (result.currency && out.total != null) out.currency = out.total;
+
+  const itemConfidences = result.line_items
+    .map((i) => at(i.line))
+    .filter((c): c is number => c != null);
+  if (itemConfidences.length > 0) {
+    out.line_items = round2(
+      itemConfidences.reduce((s, c) => s + c, 0) / itemConfidences.length
+    );
+  }
+  return out;
+}
+
+export async function extractReceiptBytes(
+  bytes: Uint8Array
+): Promise<ReceiptExtraction> {
+  const read = await readReceiptText(bytes);
+  if (!read.text.trim()) {
+    throw new Error(
+      read.source === 'ocr'
+        ? 'Round could not make out any text in this receipt. Try a sharper, well-lit photo.'
+        : read.source === 'email'
+        ? 'This email has no readable body.'
+        : 'This PDF has no readable text.'
+    );
+  }
+
+  const result = parseReceiptText(read.text);
+  if (read.email) {
+    // The sender is a better merchant than the email's first line ("Thanks
+    // for your order!"), and the send date stands in for a missing order date.
+    result.merchant = merchantFromSender(read.email) ?? result.merchant;
+    if (!result.date && read.email.sent_at) {
+      result.date = read.email.sent_at.slice(0, 10);
+      result.warnings = result.warnings.filter((w) => w !== 'no_date');
+    }
+  }
+
+  return {
+    ...read,
+    result,
+    fieldConfidence: read.ocr ? fieldConfidence(result, read.ocr.lines) : null,
+  };
+}
+
+export async function downloadReceipt(
+  supabase: SupabaseClient,
+  receiptUrl: string
+): Promise<Uint8Array> {
+  const location = parseStorageLocation(receiptUrl, RECEIPTS_BUCKET);
+  if (!location) {
+    throw new Error('This receipt is not stored in Round.');
+  }
+
+  const { data, error } = await supabase.storage
+    .from(location.bucket)
+    .download(location.path);
+
+  if (error || !data) {
+    throw new Error(error?.message || 'Could not download the receipt.');
+  }
+
+  return new Uint8Array(await data.arrayBuffer());
+}
@@ -0,0 +1,245 @@
+// lib/receipts/ingestEmail.ts
+// Server only: turns a forwarded or uploaded order email into a draft asset.
+// The raw .eml is kept in the receipts bucket as the asset's receipt, and the
+// reading is recorded as a receipt_ai_jobs row like any other extraction.
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { RECEIPTS_BUCKET } from '@/lib/storage';
+import { extractReceiptBytes, ReceiptExtraction } from './extractReceipt';
+import type { EmailReceipt } from './email';
+import { RECEIPT_PARSER_VERSION } from './parseReceipt';
+import { mainLineItem, receiptSuggestions, ReviewField } from './review';
+
+export const DRAFT_STATUS = 'draft';
+
+export type EmailIngestResult = {
+  // Null when another delivery of the same message is still being imported.
+  asset_id: string | null;
+  job_id: string | null;
+  // The message had already been turned into an asset; nothing new was made.
+  duplicate: boolean;
+};
+
+// A claim still without an asset after this long never finished (the worker
+// died), or its asset has since been deleted; the message may be imported
+// again.
+const STALE_CLAIM_MINUTES = 10;
+
+// Forwarding addresses look like receipts+{token}@inbox.example.com.
+const TOKEN_ADDRESS_RE = /^[^@+]+\+([a-z0-9]{16,64})@/i;
+
+export function tokenFromRecipients(recipients: string[]): string | null {
+  for (const address of recipients) {
+    const match = address.match(TOKEN_ADDRESS_RE);
+    if (match) return match[1].toLowerCase();
+  }
+  return null;
+}
+
+function safeFileName(subject: string | null): string {
+  const base = (subject ?? 'order')
+    .replace(/[^\w\-]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, 60);
+  return `${base || 'order'}.eml`;
+}
+
+function draftNotes(extraction: ReceiptExtraction | null, subject: string | null) {
+  const lines = ['Created from an order email.'];
+  if (subject) lines.push(`Subject: ${subject}`);
+  if (extraction?.result.order_number) {
+    lines.push(`Order number: ${extraction.result.order_number}`);
+  }
+  return lines.join('\n');
+}
+
+type InboundLog = {
+  owner_id: string;
+  message_id: string | null;
+  from_address: string | null;
+  subject: string | null;
+  sent_at: string | null;
+};
+
+// Records the message as 'created' before any work is done, so the unique
+// index on (owner_id, message_id) lets only one delivery through when a
+// relay retries or posts the same message twice at once. The row is filled
+// in (or marked failed) once the import finishes.
+async function claimMessage(
+  supabase: SupabaseClient,
+  log: InboundLog
+): Promise<{ claimId: string } | { existing: EmailIngestResult }> {
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const { data: claim, error } = await supabase
+      .from('inbound_emails')
+      .insert({ ...log, status: 'created' })
+      .select('id')
+      .single();
+
+    if (claim) return { claimId: claim.id };
+    if (error?.code !== '23505' || !log.message_id) {
+      throw new Error(error?.message || 'Could not record the email.');
+    }
+
+    const { data: existing } = await supabase
+      .from('inbound_emails')
+      .select('id, asset_id, receipt_job_id, created_at')
+      .eq('owner_id', log.owner_id)
+      .eq('message_id', log.message_id)
+      .eq('status', 'created')
+      .maybeSingle();
+
+    if (!existing) continue;
+    if (existing.asset_id) {
+      return {
+        existing: {
+          asset_id: existing.asset_id,
+          job_id: existing.receipt_job_id,
+          duplicate: true,
+        },
+      };
+    }
+
+    const age = Date.now() - new Date(existing.created_at).getTime();
+    if (age < STALE_CLAIM_MINUTES * 60 * 1000) {
+      return { existing: { asset_id: null, job_id: null, duplicate: true } };
+    }
+
+    await supabase
+      .from('inbound_emails')
+      .update({ status: 'failed', error: 'Superseded by a later delivery.' })
+      .eq('id', existing.id)
+      .eq('status', 'created')
+      .is('asset_id', null);
+  }
+
+  throw new Error('Could not record the email.');
+}
+
+// `email` is parseEmailReceipt(bytes). Throws when nothing could be saved.
+export async function ingestEmailReceipt(
+  supabase: SupabaseClient,
+  userId: string,
+  email: EmailReceipt,
+  bytes: Uint8Array
+): Promise<EmailIngestResult> {
+  const claimed = await claimMessage(supabase, {
+    owner_id: userId,
+    message_id: email.message_id,
+    from_address: email.from_address,
+    subject: email.subject,
+    sent_at: email.sent_at,
+  });
+  if ('existing' in claimed) return claimed.existing;
+  const { claimId } = claimed;
+
+  // Frees the message id, so a later delivery can try again.
+  const releaseClaim = async (message: string, storagePath: string | null) => {
+    const { error } = await supabase
+      .from('inbound_emails')
+      .update({ status: 'failed', error: message, storage_path: storagePath })
+      .eq('id', claimId);
+    if (error) console.error(error);
+  };
+
+  const path = `${userId}/${Date.now()}-email-${safeFileName(email.subject)}`;
+  const { error: uploadError } = await supabase.storage
+    .from(RECEIPTS_BUCKET)
+    .upload(path, bytes, { contentType: 'message/rfc822' });
+
+  if (uploadError) {
+    console.error(uploadError);
+    await releaseClaim('Could not store the email.', null);
+    throw new Error('Could not store the email.');
+  }
+
+  // An email Round can't read still becomes a draft: the user can fill it in
+  // by hand, and the failed job says why.
+  let extraction: ReceiptExtraction | null = null;
+  let extractionError: string | null = null;
+  try {
+    extraction = await extractReceiptBytes(bytes);
+  } catch (err) {
+    console.error(err);
+    extractionError =
+      err instanceof Error ? err.message : 'Could not read the email.';
+  }
+
+  const suggestions = extraction ? receiptSuggestions(extraction.result) : null;
+  const main = extraction ? mainLineItem(extraction.result) : null;
+
+  const { data: asset, error: assetError } = await supabase
+    .from('assets')
+    .insert({
+      owner_id: userId,
+      title: main?.description || email.subject || 'Order from email',
+      brand: suggestions?.brand ?? null,
+      model_name: suggestions?.model_name ?? null,
+      purchase_price: suggestions?.purchase_price ?? null,
+      purchase_currency: suggestions?.purchase_currency || 'GBP',
+      purchase_date: suggestions?.purchase_date ?? null,
+      merchant: suggestions?.merchant ?? null,
+      notes_internal: draftNotes(extraction, email.subject),
+      receipt_url: path,
+      status: DRAFT_STATUS,
+    })
+    .select('id')
+    .single();
+
+  if (assetError || !asset) {
+    console.error(assetError);
+    await releaseClaim('Could not create the asset.', path);
+    throw new Error('Could not create an asset from this email.');
+  }
+
+  // The draft needs the reading straight away, so this job skips the queue.
+  const readAt = new Date().toISOString();
+  const { data: job, error: jobError } = await supabase
+    .from('receipt_ai_jobs')
+    .insert({
+      asset_id: asset.id,
+      receipt_url: path,
+      parser_version: RECEIPT_PARSER_VERSION,
+      status: extraction ? 'completed' : 'failed',
+      attempts: 1,
+      started_at: readAt,
+      finished_at: readAt,
+      extracted_json: extraction?.result ?? null,
+      raw_text: extraction?.text ?? null,
+      text_source: 'email',
+      error: extractionError,
+    })
+    .select('id')
+    .maybeSingle();
+
+  if (jobError) console.error(jobError);
+
+  // Record where the pre-filled fields came from, as the review panel does.
+  if (job && suggestions) {
+    const sources = (Object.keys(suggestions) as ReviewField[])
+      .filter((field) => suggestions[field] != null)
+      .map((field) => ({
+        asset_id: asset.id,
+        field,
+        owner_id: userId,
+        receipt_job_id: job.id,
+        value: suggestions[field],
+        previous_value: null,
+      }));
+    if (sources.length > 0) {
+      const { error } = await supabase.from('asset_field_sources').insert(sources);
+      if (error) console.error(error);
+    }
+  }
+
+  const { error: logError } = await supabase
+    .from('inbound_emails')
+    .update({
+      storage_path: path,
+      asset_id: asset.id,
+      receipt_job_id: job?.id ?? null,
+    })
+    .eq('id', claimId);
+  if (logError) console.error(logError);
+
+  return { asset_id: asset.id, job_id: job?.id ?? null, duplicate: false };
+}
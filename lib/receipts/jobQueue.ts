@@ -0,0 +1,270 @@
+// lib/receipts/jobQueue.ts
+// Server only: the receipt_ai_jobs queue. The asset page enqueues a pending
+// job; a worker (/api/jobs/receipts, or the enqueue route straight after it
+// responds) claims it, reads the receipt and records the result. Failed reads
+// are retried with backoff until max_attempts.
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { downloadReceipt, extractReceiptBytes } from './extractReceipt';
+import { RECEIPT_PARSER_VERSION } from './parseReceipt';
+import { isOwnedStoragePath, RECEIPTS_BUCKET } from '../storage';
+
+export const DEFAULT_RECEIPT_JOB_BATCH_SIZE = 5;
+export const RECEIPT_JOB_MAX_ATTEMPTS = 3;
+
+// Wait 30s after the first failure, then 2 min, 8 min, …
+const RETRY_BASE_SECONDS = 30;
+const RETRY_FACTOR = 4;
+
+// A job still 'processing' after this long belongs to a worker that died.
+const STALE_PROCESSING_MINUTES = 10;
+
+export type ReceiptJobStatus = 'pending' | 'processing' | 'completed' | 'failed';
+export type ReceiptJobStage = 'downloading' | 'reading';
+
+type QueuedJob = {
+  id: string;
+  asset_id: string;
+  receipt_url: string | null;
+  attempts: number;
+  max_attempts: number;
+};
+
+const QUEUED_JOB_COLUMNS = 'id, asset_id, receipt_url, attempts, max_attempts';
+
+export type ReceiptJobOutcome = 'completed' | 'retrying' | 'failed' | 'skipped';
+
+export type ReceiptQueueSummary = {
+  requeued_stale: number;
+  processed: { job_id: string; outcome: ReceiptJobOutcome }[];
+};
+
+export function retryDelaySeconds(attempt: number): number {
+  return RETRY_BASE_SECONDS * RETRY_FACTOR ** Math.max(0, attempt - 1);
+}
+
+// Creates a pending job for the asset's current receipt, or returns the one
+// already waiting so repeated clicks don't queue the same read twice.
+export async function enqueueReceiptJob(
+  supabase: SupabaseClient,
+  assetId: string,
+  receiptUrl: string
+): Promise<Record<string, unknown>> {
+  const { data: waiting } = await supabase
+    .from('receipt_ai_jobs')
+    .select('*')
+    .eq('asset_id', assetId)
+    .eq('receipt_url', receiptUrl)
+    .in('status', ['pending', 'processing'])
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (waiting) return waiting;
+
+  const { data: job, error } = await supabase
+    .from('receipt_ai_jobs')
+    .insert({
+      asset_id: assetId,
+      receipt_url: receiptUrl,
+      status: 'pending',
+      max_attempts: RECEIPT_JOB_MAX_ATTEMPTS,
+      next_attempt_at: new Date().toISOString(),
+    })
+    .select('*')
+    .single();
+
+  if (error || !job) {
+    throw new Error(error?.message || 'Could not queue the receipt.');
+  }
+  return job;
+}
+
+// Moves a pending job to processing. Only one worker wins: the update is
+// conditional on the job still being pending.
+async function claimJob(
+  supabase: SupabaseClient,
+  job: QueuedJob,
+  now: Date
+): Promise<boolean> {
+  const { data } = await supabase
+    .from('receipt_ai_jobs')
+    .update({
+      status: 'processing',
+      stage: 'downloading',
+      attempts: job.attempts + 1,
+      started_at: now.toISOString(),
+      error: null,
+    })
+    .eq('id', job.id)
+    .eq('status', 'pending')
+    .select('id');
+
+  return (data ?? []).length > 0;
+}
+
+async function processClaimedJob(
+  supabase: SupabaseClient,
+  job: QueuedJob,
+  now: () => Date
+): Promise<ReceiptJobOutcome> {
+  const attempt = job.attempts + 1;
+  // Set for problems another attempt can't fix.
+  let permanent = false;
+
+  try {
+    if (!job.receipt_url) throw new Error('This job has no receipt.');
+
+    const { data: asset, error: assetError } = await supabase
+      .from('assets')
+      .select('owner_id')
+      .eq('id', job.asset_id)
+      .maybeSingle();
+    if (assetError) throw new Error(assetError.message);
+    if (
+      !asset ||
+      !isOwnedStoragePath(job.receipt_url, RECEIPTS_BUCKET, asset.owner_id)
+    ) {
+      permanent = true;
+      throw new Error("This receipt isn't in the asset owner's files.");
+    }
+
+    const bytes = await downloadReceipt(supabase, job.receipt_url);
+
+    await supabase
+      .from('receipt_ai_jobs')
+      .update({ stage: 'reading' })
+      .eq('id', job.id);
+
+    const extraction = await extractReceiptBytes(bytes);
+
+    const { error } = await supabase
+      .from('receipt_ai_jobs')
+      .update({
+        status: 'completed',
+        stage: null,
+        finished_at: now().toISOString(),
+        parser_version: RECEIPT_PARSER_VERSION,
+        extracted_json: extraction.result,
+        raw_text: extraction.text,
+        text_source: extraction.source,
+        ocr_confidence: extraction.ocr?.confidence ?? null,
+        field_confidence: extraction.fieldConfidence,
+        ocr_meta: extraction.ocr
+          ? {
+              rotation: extraction.ocr.rotation,
+              skew_degrees: extraction.ocr.skew_degrees,
+              languages: extraction.ocr.languages,
+            }
+          : null,
+        error: null,
+      })
+      .eq('id', job.id);
+
+    if (error) throw new Error(error.message);
+    return 'completed';
+  } catch (err) {
+    console.error(err);
+    const message =
+      err instanceof Error ? err.message : 'Could not read receipt.';
+    const giveUp = permanent || attempt >= job.max_attempts;
+
+    const { error } = await supabase
+      .from('receipt_ai_jobs')
+      .update(
+        giveUp
+          ? {
+              status: 'failed',
+              stage: null,
+              finished_at: now().toISOString(),
+              error: message,
+            }
+          : {
+              status: 'pending',
+              stage: null,
+              next_attempt_at: new Date(
+                now().getTime() + retryDelaySeconds(attempt) * 1000
+              ).toISOString(),
+              error: message,
+            }
+      )
+      .eq('id', job.id);
+
+    if (error) console.error(error);
+    return giveUp ? 'failed' : 'retrying';
+  }
+}
+
+// Puts jobs whose worker vanished mid-read back in the queue. The attempt
+// they were on still counts.
+async function requeueStaleJobs(
+  supabase: SupabaseClient,
+  now: Date
+): Promise<number> {
+  const staleBefore = new Date(
+    now.getTime() - STALE_PROCESSING_MINUTES * 60 * 1000
+  ).toISOString();
+
+  const { data, error } = await supabase
+    .from('receipt_ai_jobs')
+    .update({
+      status: 'pending',
+      stage: null,
+      next_attempt_at: now.toISOString(),
+      error: 'Reading stopped part-way through; trying again.',
+    })
+    .eq('status', 'processing')
+    .lt('started_at', staleBefore)
+    .select('id');
+
+  if (error) throw new Error(error.message);
+  return (data ?? []).length;
+}
+
+// Works through due pending jobs, oldest first. With jobId it only touches
+// that job, which is how the enqueue route processes a fresh read at once.
+export async function runReceiptJobs(
+  supabase: SupabaseClient,
+  options: { batchSize?: number; jobId?: string; now?: () => Date } = {}
+): Promise<ReceiptQueueSummary> {
+  const batchSize = options.batchSize ?? DEFAULT_RECEIPT_JOB_BATCH_SIZE;
+  const now = options.now ?? (() => new Date());
+
+  const requeued = options.jobId ? 0 : await requeueStaleJobs(supabase, now());
+
+  let query = supabase
+    .from('receipt_ai_jobs')
+    .select(QUEUED_JOB_COLUMNS)
+    .eq('status', 'pending')
+    .lte('next_attempt_at', now().toISOString())
+    .order('next_attempt_at', { ascending: true })
+    .limit(batchSize);
+  if (options.jobId) query = query.eq('id', options.jobId);
+
+  const { data: jobs, error } = await query;
+  if (error) throw new Error(error.message);
+
+  const processed: ReceiptQueueSummary['processed'] = [];
+  for (const job of (jobs ?? []) as QueuedJob[]) {
+    // Only a stale requeue can leave a job here with no attempts to spare.
+    if (job.attempts >= job.max_attempts) {
+      await supabase
+        .from('receipt_ai_jobs')
+        .update({ status: 'failed', finished_at: now().toISOString() })
+        .eq('id', job.id)
+        .eq('status', 'pending');
+      processed.push({ job_id: job.id, outcome: 'failed' });
+      continue;
+    }
+
+    if (!(await claimJob(supabase, job, now()))) {
+      processed.push({ job_id: job.id, outcome: 'skipped' });
+      continue;
+    }
+    processed.push({
+      job_id: job.id,
+      outcome: await processClaimedJob(supabase, job, now),
+    });
+  }
+
+  return { requeued_stale: requeued, processed };
+}
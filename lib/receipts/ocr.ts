@@ -0,0 +1,211 @@
+// lib/receipts/ocr.ts
+// Server only: reads photographed or scanned receipts with tesseract (WASM).
+// Language data ships in the @tesseract.js-data packages, so nothing is
+// fetched at runtime and receipts never leave the server.
+import { copyFile, mkdir, stat } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import type { Worker } from 'tesseract.js';
+
+export type OcrLine = {
+  text: string;
+  confidence: number; // 0–100, as tesseract reports it
+};
+
+export type OcrResult = {
+  text: string;
+  lines: OcrLine[];
+  confidence: number; // mean over the page(s), 0–100
+  rotation: 0 | 90 | 180 | 270; // clockwise turn applied before reading
+  skew_degrees: number; // small-angle deskew tesseract applied on top
+  languages: string[];
+};
+
+// Receipts are mostly UK and western EU; RECEIPT_OCR_LANGS narrows or widens
+// this, e.g. "eng+deu".
+const DEFAULT_LANGUAGES = ['eng', 'deu', 'fra', 'spa', 'ita', 'nld'];
+
+// Below this mean confidence the page is probably sideways or upside down.
+// Tesseract still scores rotated text around 55–65%, so this sits well above
+// that; an upright receipt photo usually reads at 85% or better.
+const ORIENTATION_RETRY_CONFIDENCE = 80;
+
+// Phone photos are often 4000px+; tesseract gains nothing past this.
+const MAX_IMAGE_SIDE = 2800;
+
+let workerPromise: Promise<Worker> | null = null;
+
+function ocrLanguages(): string[] {
+  const configured = process.env.RECEIPT_OCR_LANGS?.split('+')
+    .map((l) => l.trim())
+    .filter(Boolean);
+  return configured && configured.length > 0 ? configured : DEFAULT_LANGUAGES;
+}
+
+// tesseract wants every language in one directory, but each data package has
+// its own, so gather them under the temp dir once per machine.
+async function prepareLanguageDir(langs: string[]): Promise<string> {
+  const dir = path.join(os.tmpdir(), 'round-tessdata');
+  await mkdir(dir, { recursive: true });
+
+  for (const code of langs) {
+    const target = path.join(dir, `${code}.traineddata.gz`);
+    if (await stat(target).catch(() => null)) continue;
+
+    const source = path.join(
+      process.cwd(),
+      'node_modules',
+      '@tesseract.js-data',
+      code,
+      '4.0.0_best_int',
+      `${code}.traineddata.gz`
+    );
+    try {
+      await copyFile(source, target);
+    } catch {
+      throw new Error(
+        `OCR language data for "${code}" is missing. Install @tesseract.js-data/${code}.`
+      );
+    }
+  }
+  return dir;
+}
+
+async function createOcrWorker(): Promise<Worker> {
+  const { createWorker, OEM } = await import('tesseract.js');
+  const langs = ocrLanguages();
+  // A local langPath keeps tesseract off the CDN; cacheMethod 'none' stops it
+  // writing unpacked copies next to the app.
+  return createWorker(langs, OEM.LSTM_ONLY, {
+    langPath: await prepareLanguageDir(langs),
+    cacheMethod: 'none',
+  });
+}
+
+function getWorker(): Promise<Worker> {
+  if (!workerPromise) {
+    workerPromise = createOcrWorker().catch((err) => {
+      workerPromise = null;
+      throw err;
+    });
+  }
+  return workerPromise;
+}
+
+// Scripts call this so the worker thread doesn't keep Node alive.
+export async function shutdownOcr(): Promise<void> {
+  if (!workerPromise) return;
+  const worker = await workerPromise.catch(() => null);
+  workerPromise = null;
+  await worker?.terminate();
+}
+
+export function isImage(bytes: Uint8Array): boolean {
+  const jpeg = bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff;
+  const png =
+    bytes[0] === 0x89 &&
+    bytes[1] === 0x50 &&
+    bytes[2] === 0x4e &&
+    bytes[3] === 0x47;
+  const webp =
+    String.fromCharCode(...bytes.slice(0, 4)) === 'RIFF' &&
+    String.fromCharCode(...bytes.slice(8, 12)) === 'WEBP';
+  return jpeg || png || webp;
+}
+
+// Decodes, downsizes and turns the image; always hands tesseract a PNG.
+async function prepareImage(
+  bytes: Uint8Array,
+  rotation: OcrResult['rotation']
+): Promise<Buffer> {
+  const { createCanvas, loadImage } = await import('@napi-rs/canvas');
+  const image = await loadImage(Buffer.from(bytes));
+
+  const scale = Math.min(
+    1,
+    MAX_IMAGE_SIDE / Math.max(image.width, image.height)
+  );
+  const w = Math.round(image.width * scale);
+  const h = Math.round(image.height * scale);
+  const sideways = rotation === 90 || rotation === 270;
+
+  const canvas = createCanvas(sideways ? h : w, sideways ? w : h);
+  const ctx = canvas.getContext('2d');
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate((rotation * Math.PI) / 180);
+  ctx.drawImage(image, -w / 2, -h / 2, w, h);
+
+  return canvas.toBuffer('image/png');
+}
+
+type PageRead = Omit<OcrResult, 'languages'>;
+
+async function readImage(
+  worker: Worker,
+  bytes: Uint8Array,
+  rotation: OcrResult['rotation']
+): Promise<PageRead> {
+  const image = await prepareImage(bytes, rotation);
+  const { data } = await worker.recognize(
+    image,
+    { rotateAuto: true },
+    { text: true, blocks: true }
+  );
+
+  const lines: OcrLine[] = (data.blocks ?? [])
+    .flatMap((b) => b.paragraphs)
+    .flatMap((p) => p.lines)
+    .map((l) => ({
+      text: l.text.replace(/\s+/g, ' ').trim(),
+      confidence: l.confidence,
+    }))
+    .filter((l) => l.text !== '');
+
+  return {
+    text: lines.map((l) => l.text).join('\n'),
+    lines,
+    confidence: data.confidence,
+    rotation,
+    skew_degrees:
+      Math.round((((data.rotateRadians ?? 0) * 180) / Math.PI) * 10) / 10,
+  };
+}
+
+// Reads one image. Small skews are corrected by tesseract itself; a page that
+// reads badly is retried at 90°, 270° and 180° and the best reading wins.
+async function ocrSingleImage(bytes: Uint8Array): Promise<PageRead> {
+  const worker = await getWorker();
+
+  let best = await readImage(worker, bytes, 0);
+  if (best.confidence >= ORIENTATION_RETRY_CONFIDENCE) return best;
+
+  for (const rotation of [90, 270, 180] as const) {
+    const attempt = await readImage(worker, bytes, rotation);
+    if (attempt.confidence > best.confidence) best = attempt;
+    if (best.confidence >= ORIENTATION_RETRY_CONFIDENCE) break;
+  }
+  return best;
+}
+
+// Multi-page scans are read page by page and stitched back together.
+export async function ocrImages(images: Uint8Array[]): Promise<OcrResult> {
+  const pages: PageRead[] = [];
+  for (const image of images) pages.push(await ocrSingleImage(image));
+
+  const lines = pages.flatMap((p) => p.lines);
+  const confidence =
+    pages.length > 0
+      ? pages.reduce((s, p) => s + p.confidence, 0) / pages.length
+      : 0;
+
+  return {
+    text: lines.map((l) => l.text).join('\n'),
+    lines,
+    confidence: Math.round(confidence),
+    rotation: pages[0]?.rotation ?? 0,
+    skew_degrees: pages[0]?.skew_degrees ?? 0,
+    languages: ocrLanguages(),
+  };
+}
@@ -0,0 +1,497 @@
+// lib/receipts/parseReceipt.ts
+// Heuristic receipt parser for plain text pulled out of a PDF. Pure and
+// client-safe: the asset page reads ExtractedReceipt from extracted_json.
+
+export const RECEIPT_PARSER_VERSION = 'heuristic-3';
+
+export type ReceiptLineKind = 'item' | 'shipping' | 'discount';
+
+export type ReceiptLineItem = {
+  description: string;
+  quantity: number | null;
+  unit_price: number | null;
+  amount: number;
+  kind: ReceiptLineKind;
+  line: number; // index into the receipt's non-empty lines
+};
+
+// Fields that are read off a single line of the receipt.
+export type ReceiptSourceField =
+  | 'merchant'
+  | 'date'
+  | 'total'
+  | 'subtotal'
+  | 'vat_amount';
+
+export type ExtractedReceipt = {
+  parser_version: string;
+  merchant: string | null;
+  date: string | null; // YYYY-MM-DD
+  currency: string | null;
+  line_items: ReceiptLineItem[];
+  subtotal: number | null;
+  vat_amount: number | null;
+  vat_rate: number | null; // percent, e.g. 20
+  total: number | null;
+  vat_number: string | null;
+  order_number: string | null;
+  // Which non-empty line each field came from, so OCR confidence can be
+  // traced back to it.
+  source_lines: Partial<Record<ReceiptSourceField, number>>;
+  warnings: string[];
+};
+
+export function receiptLines(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map((l) => l.replace(/[ \t]+/g, ' ').trim())
+    .filter(Boolean);
+}
+
+const MONTHS: Record<string, number> = {
+  // English
+  jan: 1, january: 1, feb: 2, february: 2, mar: 3, march: 3, apr: 4,
+  april: 4, may: 5, jun: 6, june: 6, jul: 7, july: 7, aug: 8, august: 8,
+  sep: 9, sept: 9, september: 9, oct: 10, october: 10, nov: 11,
+  november: 11, dec: 12, december: 12,
+  // German
+  januar: 1, februar: 2, märz: 3, maerz: 3, mai: 5, juni: 6, juli: 7,
+  oktober: 10, dezember: 12, okt: 10, dez: 12,
+  // French
+  janvier: 1, février: 2, fevrier: 2, mars: 3, avril: 4, juin: 6,
+  juillet: 7, août: 8, aout: 8, septembre: 9, octobre: 10, novembre: 11,
+  décembre: 12, decembre: 12,
+  // Spanish / Italian / Dutch
+  enero: 1, febrero: 2, marzo: 3, abril: 4, mayo: 5, junio: 6, julio: 7,
+  agosto: 8, septiembre: 9, octubre: 10, noviembre: 11, diciembre: 12,
+  gennaio: 1, febbraio: 2, aprile: 4, maggio: 5, giugno: 6, luglio: 7,
+  settembre: 9, ottobre: 10, dicembre: 12, januari: 1, februari: 2,
+  maart: 3, mei: 5, augustus: 8,
+};
+
+const MONTH_NAMES = Object.keys(MONTHS)
+  .sort((a, b) => b.length - a.length)
+  .join('|');
+
+// A minus must touch the number ("Widget - 12.00" is not a refund), and
+// "12.03.2024" or "20.00%" are not amounts.
+const AMOUNT_RE =
+  /[-−]?(?:[£€$]|GBP|EUR|USD|CHF)?\s?(?<![\d.,])(?:\d{1,3}(?:[.,'’\u00a0\u202f]\d{3})+|\d+)[.,]\d{2}(?![\d%]|[.,]\d|\s%)|[-−]?[£€$]\s?\d+(?![\d.,%])/g;
+
+const TOTAL_RE =
+  /\b(grand total|total to pay|total due|amount due|balance due|amount paid|total paid|order total|invoice total|total|gesamtbetrag|gesamtsumme|gesamt|summe|endbetrag|montant total|net à payer|totale|importe total|totaal|te betalen)\b/;
+const TOTAL_GROSS_RE =
+  /\b(inc\.?|incl\.?|including|inkl\.?)\s*(vat|tax|mwst|ust|tva|iva|btw)\b|\bttc\b|\bbrutto\b/;
+const SUBTOTAL_RE =
+  /\b(sub-?\s?total|net amount|net total|total net|total excl?\.?|total ex\.?|excl?\.? vat|zwischensumme|nettobetrag|netto|total ht|montant ht|imponibile|base imponible|subtotaal)\b/;
+const VAT_RE = /\b(vat|v\.a\.t\.?|mwst|ust|tva|iva|btw|tax)\b/;
+const PAYMENT_RE =
+  /\b(cash|change|card|visa|mastercard|maestro|amex|paypal|apple pay|tendered|paid by|payment|rounding|auth code|bezahlt|karte|espèces|carte)\b/;
+const SHIPPING_RE =
+  /\b(delivery|shipping|postage|p&p|carriage|versand|lieferung|livraison|envío|envio|spedizione|verzending|bezorging|bezorgkosten|frais de port)\b/;
+const DISCOUNT_RE =
+  /\b(discount|promo|promotion|voucher|coupon|saving|rabatt|remise|descuento|sconto|korting)\b/;
+const HEADER_RE =
+  /\b(receipt|invoice|tax invoice|order|rechnung|quittung|facture|reçu|ticket|factura|fattura|ricevuta|bon|kassenbon|description|qty|quantity|price|amount)\b/;
+const COMPANY_RE =
+  /\b(ltd|limited|plc|llp|inc|gmbh|ag|kg|sarl|sas|sa|bv|spa|sl|srl|oy|ab|aps|s\.p\.a|s\.a|b\.v|s\.l|s\.à r\.l)\b\.?/i;
+const UK_POSTCODE_RE = /\b[A-Z]{1,2}\d[A-Z\d]?\s*\d[A-Z]{2}\b/;
+// Registration-number lines ("VAT No. GB…", "USt-IdNr.", "P.IVA") sit in the
+// header and must not be mistaken for the VAT summary.
+const VAT_ID_LINE_RE =
+  /\b(?:vat|mwst|ust|tva|iva|btw)[\s.-]*(?:reg|no\b|number|nr|id|nummer|#|intracom)|\bp\.\s?iva\b|n°\s*tva/i;
+const ORDER_NUMBER_RE =
+  /\b(?:order|invoice|receipt|bestell|rechnung|commande|facture|pedido|factura|ordine|fattura|bestel|factuur)[a-z]*\s*(?:number|no\.?|nr\.?|n°|#|id|nummer|numéro|número|numero)?\s*[:#]?\s*([A-Z0-9][A-Z0-9/-]{4,})/gi;
+const VAT_NUMBER_RE =
+  /\b(?:vat|ust-?id|tva|iva|btw)[^:\n]*?(?:no\.?|number|nr\.?|id|intracom\.?)?\s*[:#]?\s*([A-Z]{2}\s?[0-9A-Z][0-9A-Z ]{6,14})/i;
+
+type AmountMatch = { value: number; index: number; text: string };
+
+// Receipts either use 1,234.56 (UK) or 1.234,56 (most of the EU).
+function detectDecimalComma(text: string): boolean {
+  const comma = (text.match(/\d,\d{2}(?!\d)/g) || []).length;
+  const dot = (text.match(/\d\.\d{2}(?!\d)/g) || []).length;
+  return comma > dot;
+}
+
+export function parseAmount(raw: string, decimalComma: boolean): number | null {
+  let s = raw
+    .replace(/[£€$\s'’\u00a0\u202f]|GBP|EUR|USD|CHF/g, '')
+    .replace('−', '-');
+  const negative = s.startsWith('-') || /^\(.*\)$/.test(s);
+  s = s.replace(/[-()]/g, '');
+  if (!s) return null;
+
+  if (decimalComma) {
+    s = s.replace(/\./g, '').replace(',', '.');
+  } else {
+    s = s.replace(/,/g, '');
+  }
+
+  const n = Number(s);
+  if (!Number.isFinite(n)) return null;
+  return negative ? -n : n;
+}
+
+function findAmounts(line: string, decimalComma: boolean): AmountMatch[] {
+  const out: AmountMatch[] = [];
+  for (const m of line.matchAll(AMOUNT_RE)) {
+    const value = parseAmount(m[0], decimalComma);
+    if (value != null) out.push({ value, index: m.index ?? 0, text: m[0] });
+  }
+  return out;
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  if (year < 100) year += 2000;
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  const d = new Date(Date.UTC(year, month - 1, day));
+  if (d.getUTCMonth() !== month - 1) return null;
+  const thisYear = new Date().getUTCFullYear();
+  if (year < 1990 || year > thisYear + 1) return null;
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+export function findDate(line: string): string | null {
+  const lower = line.toLowerCase();
+
+  const iso = lower.match(/\b(\d{4})-(\d{1,2})-(\d{1,2})\b/);
+  if (iso) {
+    const d = toIsoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+    if (d) return d;
+  }
+
+  const numeric = lower.match(/\b(\d{1,2})[./-](\d{1,2})[./-](\d{4}|\d{2})\b/);
+  if (numeric) {
+    const a = Number(numeric[1]);
+    const b = Number(numeric[2]);
+    const y = Number(numeric[3]);
+    // UK and EU receipts put the day first; only flip when that can't work.
+    const d = b > 12 && a <= 12 ? toIsoDate(y, a, b) : toIsoDate(y, b, a);
+    if (d) return d;
+  }
+
+  const dayFirst = lower.match(
+    new RegExp(
+      `\\b(\\d{1,2})(?:st|nd|rd|th|er)?\\.?\\s+(${MONTH_NAMES})\\.?,?\\s+(\\d{4})\\b`
+    )
+  );
+  if (dayFirst) {
+    const d = toIsoDate(
+      Number(dayFirst[3]),
+      MONTHS[dayFirst[2]],
+      Number(dayFirst[1])
+    );
+    if (d) return d;
+  }
+
+  const monthFirst = lower.match(
+    new RegExp(
+      `\\b(${MONTH_NAMES})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`
+    )
+  );
+  if (monthFirst) {
+    const d = toIsoDate(
+      Number(monthFirst[3]),
+      MONTHS[monthFirst[1]],
+      Number(monthFirst[2])
+    );
+    if (d) return d;
+  }
+
+  return null;
+}
+
+function detectCurrency(text: string): string | null {
+  const counts: Record<string, number> = {
+    GBP: (text.match(/£|\bGBP\b/g) || []).length,
+    EUR: (text.match(/€|\bEUR\b/g) || []).length,
+    USD: (text.match(/(?<![A-Z])\$|\bUSD\b/g) || []).length,
+    CHF: (text.match(/\bCHF\b/g) || []).length,
+  };
+
+  const best = Object.entries(counts).sort((a, b) => b[1] - a[1])[0];
+  if (best[1] > 0) return best[0];
+
+  // No symbols at all: fall back on the tax vocabulary.
+  const lower = text.toLowerCase();
+  if (/\b(mwst|ust|tva|iva|btw)\b/.test(lower)) return 'EUR';
+  if (/\bvat\b/.test(lower)) return 'GBP';
+  return null;
+}
+
+function isPlausibleMerchant(line: string): boolean {
+  const lower = line.toLowerCase();
+  if (line.length < 2 || line.length > 60) return false;
+  if (!/[a-z]{2}/i.test(line)) return false;
+  if (findDate(line)) return false;
+  if (/@|https?:|www\.|\btel\b|\bphone\b|\+?\d[\d\s]{7,}/i.test(line)) return false;
+  if (UK_POSTCODE_RE.test(line)) return false;
+  if (/\b(street|st\.|road|rd\.?|avenue|lane|straße|strasse|str\.|rue|calle|via|straat)\b/i.test(line)) {
+    return false;
+  }
+  if (HEADER_RE.test(lower) && !COMPANY_RE.test(line)) return false;
+  if (TOTAL_RE.test(lower) || VAT_RE.test(lower)) return false;
+  if (findAmounts(line, false).length > 0) return false;
+  return true;
+}
+
+type Found<T> = { value: T; line: number };
+
+function findMerchant(lines: string[]): Found<string> | null {
+  const head = lines.slice(0, 15);
+
+  for (let i = 0; i < lines.length; i++) {
+    const soldBy = lines[i].match(
+      /^(?:sold by|seller|verkauf durch|vendu par)[:\s]+(.+)$/i
+    );
+    if (soldBy) return { value: soldBy[1].trim(), line: i };
+  }
+
+  // "John Lewis plc, 171 Victoria Street" → "John Lewis plc".
+  for (let i = 0; i < head.length; i++) {
+    const m = head[i].match(COMPANY_RE);
+    if (!m || m.index == null) continue;
+    const name = head[i].slice(0, m.index + m[0].length).trim();
+    if (name.length > m[0].length && isPlausibleMerchant(name)) {
+      return { value: name, line: i };
+    }
+  }
+
+  const first = head.findIndex(isPlausibleMerchant);
+  if (first >= 0) return { value: head[first].trim(), line: first };
+
+  for (let i = 0; i < lines.length; i++) {
+    const site = lines[i].match(/www\.([a-z0-9-]+)\./i);
+    if (site) {
+      return {
+        value: site[1].charAt(0).toUpperCase() + site[1].slice(1),
+        line: i,
+      };
+    }
+  }
+
+  return null;
+}
+
+function findReceiptDate(lines: string[]): Found<string> | null {
+  const labelled = lines.findIndex(
+    (l) =>
+      /\b(date|datum|fecha|data|dated|order date|invoice date|date de|le)\b/i.test(l) &&
+      findDate(l)
+  );
+  if (labelled >= 0) {
+    return { value: findDate(lines[labelled]) as string, line: labelled };
+  }
+
+  for (let i = 0; i < lines.length; i++) {
+    const d = findDate(lines[i]);
+    if (d) return { value: d, line: i };
+  }
+  return null;
+}
+
+type LineClass =
+  | 'total'
+  | 'subtotal'
+  | 'vat'
+  | 'vat_id'
+  | 'payment'
+  | 'other';
+
+function classifyLine(line: string): LineClass {
+  const lower = line.toLowerCase();
+  if (VAT_ID_LINE_RE.test(line)) return 'vat_id';
+  if (SUBTOTAL_RE.test(lower)) return 'subtotal';
+  if (TOTAL_RE.test(lower) && TOTAL_GROSS_RE.test(lower)) return 'total';
+  if (VAT_RE.test(lower)) return 'vat';
+  // Column-style VAT summary rows: "20% £249.17 £49.83".
+  if (/^\d{1,2}(?:[.,]\d{1,2})?\s?%/.test(line)) return 'vat';
+  if (TOTAL_RE.test(lower)) return 'total';
+  if (PAYMENT_RE.test(lower)) return 'payment';
+  return 'other';
+}
+
+function parseLineItem(
+  line: string,
+  amounts: AmountMatch[],
+  index: number
+): ReceiptLineItem | null {
+  const last = amounts[amounts.length - 1];
+  let description = line.slice(0, amounts[0].index);
+  let quantity: number | null = null;
+
+  const leadingQty = description.match(/^\s*(\d{1,3})\s*[x×*]\s+/i);
+  const trailingQty = description.match(/\s(\d{1,3})\s*[x×*@]?\s*$/i);
+  const labelledQty = description.match(/\b(?:qty|menge|qté|cant\.?)[:\s]*(\d{1,3})\b/i);
+
+  if (leadingQty) {
+    quantity = Number(leadingQty[1]);
+    description = description.slice(leadingQty[0].length);
+  } else if (labelledQty) {
+    quantity = Number(labelledQty[1]);
+    description = description.replace(labelledQty[0], '');
+  } else if (trailingQty) {
+    quantity = Number(trailingQty[1]);
+    description = description.slice(0, trailingQty.index);
+  }
+
+  description = description
+    .replace(/\s{2,}/g, ' ')
+    .replace(/[\s:.\-–@x×]+$/i, '')
+    .trim();
+  if (!/[a-z]{2}/i.test(description)) return null;
+
+  const unitPrice = amounts.length > 1 ? amounts[amounts.length - 2].value : null;
+  const lower = description.toLowerCase();
+  const kind: ReceiptLineKind = SHIPPING_RE.test(lower)
+    ? 'shipping'
+    : last.value < 0 || DISCOUNT_RE.test(lower)
+    ? 'discount'
+    : 'item';
+
+  return {
+    description,
+    quantity: quantity ?? (unitPrice != null && unitPrice > 0
+      ? Math.round(last.value / unitPrice) || null
+      : null),
+    unit_price: unitPrice,
+    amount: kind === 'discount' ? -Math.abs(last.value) : last.value,
+    kind,
+    line: index,
+  };
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+export function parseReceiptText(text: string): ExtractedReceipt {
+  const lines = receiptLines(text);
+  const decimalComma = detectDecimalComma(text);
+  const warnings: string[] = [];
+
+  let subtotal: number | null = null;
+  let vatAmount: number | null = null;
+  let vatRate: number | null = null;
+  const totals: Found<number>[] = [];
+  const items: ReceiptLineItem[] = [];
+  const sourceLines: ExtractedReceipt['source_lines'] = {};
+  let reachedTotals = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const amounts = findAmounts(line, decimalComma);
+    const cls = classifyLine(line);
+
+    if (cls === 'vat_id') continue;
+
+    // Table headers ("Description Qty VAT rate …") mention VAT but carry no
+    // amounts; only a VAT line with figures starts the totals section.
+    if (cls === 'vat' && amounts.length > 0) {
+      const rate = line.match(/(\d{1,2}(?:[.,]\d{1,2})?)\s?%/);
+      if (rate && vatRate == null) vatRate = Number(rate[1].replace(',', '.'));
+      // "VAT 20% of 100.00 = 20.00": the VAT itself is the last amount.
+      if (vatAmount == null) {
+        vatAmount = Math.abs(amounts[amounts.length - 1].value);
+        sourceLines.vat_amount = i;
+      }
+      // "20% £249.17 £49.83": the net amount comes first.
+      if (subtotal == null && amounts.length > 1 && /^\d/.test(line)) {
+        subtotal = amounts[0].value;
+        sourceLines.subtotal = i;
+      }
+      reachedTotals = true;
+      continue;
+    }
+
+    if (amounts.length === 0) continue;
+
+    if (cls === 'subtotal') {
+      if (subtotal == null) {
+        subtotal = amounts[amounts.length - 1].value;
+        sourceLines.subtotal = i;
+      }
+      reachedTotals = true;
+      continue;
+    }
+    if (cls === 'total') {
+      totals.push({ value: amounts[amounts.length - 1].value, line: i });
+      reachedTotals = true;
+      continue;
+    }
+    if (cls === 'payment' || reachedTotals) continue;
+
+    const item = parseLineItem(line, amounts, i);
+    if (item) items.push(item);
+  }
+
+  let total: number | null = null;
+  if (totals.length > 0) {
+    const largest = totals.reduce((a, b) => (b.value > a.value ? b : a));
+    total = largest.value;
+    sourceLines.total = largest.line;
+  } else {
+    const all = lines.flatMap((l) => findAmounts(l, decimalComma).map((a) => a.value));
+    if (all.length > 0) {
+      total = Math.max(...all);
+      warnings.push('total_guessed');
+    } else {
+      warnings.push('no_total');
+    }
+  }
+
+  if (vatAmount == null && vatRate != null && total != null) {
+    vatAmount = round2(total - total / (1 + vatRate / 100));
+    warnings.push('vat_estimated');
+  }
+  if (subtotal == null && total != null && vatAmount != null) {
+    subtotal = round2(total - vatAmount);
+  }
+  if (vatRate == null && vatAmount != null && subtotal != null && subtotal > 0) {
+    const implied = (vatAmount / subtotal) * 100;
+    // Only trust it when it lands on a real-looking rate.
+    if (Math.abs(implied - Math.round(implied)) < 0.15) vatRate = Math.round(implied);
+  }
+
+  const date = findReceiptDate(lines);
+  if (date) sourceLines.date = date.line;
+  else warnings.push('no_date');
+
+  const merchant = findMerchant(lines);
+  if (merchant) sourceLines.merchant = merchant.line;
+
+  if (items.length > 0 && total != null) {
+    const sum = items.reduce((s, i) => s + i.amount, 0);
+    const target = [total, subtotal].filter((v): v is number => v != null);
+    if (!target.some((t) => Math.abs(sum - t) <= Math.max(0.05, t * 0.01))) {
+      warnings.push('items_do_not_sum');
+    }
+  }
+
+  const vatNumber = text.match(VAT_NUMBER_RE);
+  // The first reference with a digit in it; skips "Order date", "Invoice to".
+  const orderNumber = Array.from(text.matchAll(ORDER_NUMBER_RE)).find((m) =>
+    /\d/.test(m[1])
+  );
+
+  return {
+    parser_version: RECEIPT_PARSER_VERSION,
+    merchant: merchant?.value ?? null,
+    date: date?.value ?? null,
+    currency: detectCurrency(text),
+    line_items: items,
+    subtotal: subtotal != null ? round2(subtotal) : null,
+    vat_amount: vatAmount != null ? round2(vatAmount) : null,
+    vat_rate: vatRate,
+    total: total != null ? round2(total) : null,
+    vat_number: vatNumber ? vatNumber[1].replace(/\s+/g, '') : null,
+    order_number: orderNumber ? orderNumber[1] : null,
+    source_lines: sourceLines,
+    warnings,
+  };
+}
@@ -0,0 +1,120 @@
+// lib/receipts/pdfText.ts
+// Server only: pulls the text layer out of a PDF with pdf.js, rebuilding
+// visual lines so "Total ...... £12.00" stays on one line. Scanned PDFs have
+// no text layer; renderPdfPages rasterises them for OCR instead.
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+
+export function isPdf(bytes: Uint8Array): boolean {
+  return (
+    bytes.length > 4 &&
+    bytes[0] === 0x25 && // %
+    bytes[1] === 0x50 && // P
+    bytes[2] === 0x44 && // D
+    bytes[3] === 0x46 // F
+  );
+}
+
+type Positioned = { x: number; y: number; width: number; str: string };
+
+// Items whose baselines are within this many points share a line.
+const LINE_TOLERANCE = 2.5;
+
+function itemsToLines(items: Positioned[]): string[] {
+  const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+  const rows: Positioned[][] = [];
+
+  for (const item of sorted) {
+    const row = rows[rows.length - 1];
+    if (row && Math.abs(row[0].y - item.y) <= LINE_TOLERANCE) {
+      row.push(item);
+    } else {
+      rows.push([item]);
+    }
+  }
+
+  return rows.map((row) => {
+    row.sort((a, b) => a.x - b.x);
+    let line = '';
+    let end = -Infinity;
+    for (const item of row) {
+      if (line && item.x - end > 1) line += ' ';
+      line += item.str;
+      end = item.x + item.width;
+    }
+    return line.replace(/[ \t]+/g, ' ').trim();
+  });
+}
+
+async function openPdf(bytes: Uint8Array) {
+  const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+  return pdfjs.getDocument({
+    // pdf.js takes ownership of the buffer it is given.
+    data: new Uint8Array(bytes),
+    isEvalSupported: false,
+    useSystemFonts: false,
+    disableFontFace: true,
+    // Missing standard fonts only change glyph shapes; keep the noise quiet.
+    verbosity: 0,
+  }).promise;
+}
+
+export async function extractPdfText(
+  bytes: Uint8Array,
+  maxPages = 10
+): Promise<string> {
+  const doc = await openPdf(bytes);
+
+  try {
+    const pages: string[] = [];
+    for (let i = 1; i <= Math.min(doc.numPages, maxPages); i++) {
+      const page = await doc.getPage(i);
+      const content = await page.getTextContent();
+      const items = (content.items as TextItem[])
+        .filter((it) => typeof it.str === 'string' && it.str.trim() !== '')
+        .map((it) => ({
+          x: it.transform[4] as number,
+          y: it.transform[5] as number,
+          width: it.width,
+          str: it.str,
+        }));
+      pages.push(itemsToLines(items).filter(Boolean).join('\n'));
+    }
+    return pages.join('\n');
+  } finally {
+    await doc.destroy();
+  }
+}
+
+// Renders pages to PNG at roughly 200 dpi, which is what tesseract reads best.
+export async function renderPdfPages(
+  bytes: Uint8Array,
+  maxPages = 3,
+  scale = 200 / 72
+): Promise<Buffer[]> {
+  const { createCanvas } = await import('@napi-rs/canvas');
+  const doc = await openPdf(bytes);
+
+  try {
+    const images: Buffer[] = [];
+    for (let i = 1; i <= Math.min(doc.numPages, maxPages); i++) {
+      const page = await doc.getPage(i);
+      const viewport = page.getViewport({ scale });
+      const canvas = createCanvas(
+        Math.ceil(viewport.width),
+        Math.ceil(viewport.height)
+      );
+      const context = canvas.getContext('2d');
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      await page.render({
+        canvas: canvas as unknown as HTMLCanvasElement,
+        canvasContext: context as unknown as CanvasRenderingContext2D,
+        viewport,
+      }).promise;
+      images.push(canvas.toBuffer('image/png'));
+    }
+    return images;
+  } finally {
+    await doc.destroy();
+  }
+}
@@ -0,0 +1,177 @@
+// lib/receipts/review.ts
+// Turns an ExtractedReceipt into field-by-field suggestions for an asset.
+// Client-safe: the asset page renders and applies these.
+import type { ExtractedReceipt, ReceiptLineItem } from './parseReceipt';
+import type { FieldConfidence } from './extractReceipt';
+
+export type ReviewField =
+  | 'brand'
+  | 'model_name'
+  | 'purchase_price'
+  | 'purchase_currency'
+  | 'purchase_date'
+  | 'merchant';
+
+export const REVIEW_FIELDS: ReviewField[] = [
+  'brand',
+  'model_name',
+  'purchase_price',
+  'purchase_currency',
+  'purchase_date',
+  'merchant',
+];
+
+export const REVIEW_FIELD_LABELS: Record<ReviewField, string> = {
+  brand: 'Brand',
+  model_name: 'Model',
+  purchase_price: 'Purchase price',
+  purchase_currency: 'Currency',
+  purchase_date: 'Purchase date',
+  merchant: 'Merchant',
+};
+
+export type ReviewValue = string | number | null;
+
+export type ReviewRow = {
+  field: ReviewField;
+  current: ReviewValue;
+  extracted: ReviewValue;
+  // Extracted something that differs from what the asset already has.
+  changed: boolean;
+  // OCR confidence (0–1) for the extracted value; null for PDF text.
+  confidence: number | null;
+};
+
+// OCR readings below this are shown as "check" and never pre-selected.
+export const LOW_CONFIDENCE = 0.8;
+
+// Brands that are easy to miss with the "first word" rule: lower-case
+// product lines, multi-word names and brands followed by a plain word.
+const KNOWN_BRANDS = [
+  'Apple', 'Samsung', 'Sony', 'LG', 'Panasonic', 'Philips', 'Bosch',
+  'Siemens', 'Miele', 'AEG', 'Dyson', 'Shark', 'iRobot', 'Nintendo',
+  'Microsoft', 'Dell', 'HP', 'Lenovo', 'Asus', 'Acer', 'Canon', 'Nikon',
+  'Fujifilm', 'GoPro', 'DJI', 'Bose', 'Sonos', 'Bang & Olufsen',
+  'Garmin', 'Fitbit', 'Google', 'Kenwood', 'KitchenAid', 'Smeg',
+  'De\'Longhi', 'Nespresso', 'Vaillant', 'Worcester Bosch', 'Baxi',
+  'Ideal', 'Hisense', 'TCL', 'Beko', 'Hotpoint', 'Whirlpool', 'Indesit',
+  'Brompton', 'Specialized', 'Trek', 'Peloton', 'Rolex', 'Omega',
+  'SanDisk', 'Logitech', 'Xiaomi', 'OnePlus', 'Huawei', 'Vogel\'s',
+];
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+const KNOWN_BRAND_RE = new RegExp(
+  `^(${[...KNOWN_BRANDS]
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join('|')})\\b`,
+  'i'
+);
+
+// "Sony WH-1000XM5 Wireless Headphones" → Sony / WH-1000XM5 Wireless Headphones.
+export function guessProductIdentity(description: string): {
+  brand: string | null;
+  model_name: string | null;
+} {
+  const text = description.replace(/\s+/g, ' ').trim();
+  if (!text) return { brand: null, model_name: null };
+
+  const known = text.match(KNOWN_BRAND_RE);
+  if (known) {
+    const brand =
+      KNOWN_BRANDS.find((b) => b.toLowerCase() === known[1].toLowerCase()) ??
+      known[1];
+    return { brand, model_name: text.slice(known[0].length).trim() || null };
+  }
+
+  // Otherwise trust a capitalised first word followed by something that
+  // looks like a model number ("Brompton C Line", "Vitamix A3500").
+  const [first, ...rest] = text.split(' ');
+  if (/^[A-Z][A-Za-z&'-]+$/.test(first) && rest.some((w) => /\d/.test(w))) {
+    return { brand: first, model_name: rest.join(' ') };
+  }
+
+  return { brand: null, model_name: text };
+}
+
+// The line the asset most likely is: the most expensive item.
+export function mainLineItem(receipt: ExtractedReceipt): ReceiptLineItem | null {
+  const items = receipt.line_items.filter((i) => i.kind === 'item');
+  if (items.length === 0) return null;
+  return items.reduce((best, i) => (i.amount > best.amount ? i : best));
+}
+
+export function receiptSuggestions(
+  receipt: ExtractedReceipt
+): Record<ReviewField, ReviewValue> {
+  const items = receipt.line_items.filter((i) => i.kind === 'item');
+  const main = mainLineItem(receipt);
+  const identity = main
+    ? guessProductIdentity(main.description)
+    : { brand: null, model_name: null };
+
+  // One item: what was paid in total. Several: just the main item's line,
+  // since the rest of the receipt belongs to other things.
+  const price = items.length > 1 && main ? main.amount : receipt.total;
+
+  return {
+    brand: identity.brand,
+    model_name: identity.model_name,
+    purchase_price: price,
+    purchase_currency: receipt.currency,
+    purchase_date: receipt.date,
+    merchant: receipt.merchant,
+  };
+}
+
+function sameValue(a: ReviewValue, b: ReviewValue): boolean {
+  if (typeof a === 'number' || typeof b === 'number') {
+    return a != null && b != null && Math.abs(Number(a) - Number(b)) < 0.005;
+  }
+  return (a ?? '').toString().trim().toLowerCase() ===
+    (b ?? '').toString().trim().toLowerCase();
+}
+
+function confidenceFor(
+  field: ReviewField,
+  receipt: ExtractedReceipt,
+  confidence: FieldConfidence
+): number | null {
+  switch (field) {
+    case 'brand':
+    case 'model_name':
+      return confidence.line_items ?? null;
+    case 'purchase_price':
+      return receipt.line_items.filter((i) => i.kind === 'item').length > 1
+        ? confidence.line_items ?? null
+        : confidence.total ?? null;
+    case 'purchase_currency':
+      return confidence.currency ?? null;
+    case 'purchase_date':
+      return confidence.date ?? null;
+    case 'merchant':
+      return confidence.merchant ?? null;
+  }
+}
+
+export function buildReceiptReview(
+  receipt: ExtractedReceipt,
+  asset: Partial<Record<ReviewField, ReviewValue>>,
+  confidence: FieldConfidence | null = null
+): ReviewRow[] {
+  const suggestions = receiptSuggestions(receipt);
+  return REVIEW_FIELDS.map((field) => {
+    const current = asset[field] ?? null;
+    const extracted = suggestions[field];
+    return {
+      field,
+      current,
+      extracted,
+      changed: extracted != null && !sameValue(current, extracted),
+      confidence: confidence ? confidenceFor(field, receipt, confidence) : null,
+    };
+  });
+}
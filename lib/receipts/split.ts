@@ -0,0 +1,131 @@
+// lib/receipts/split.ts
+// Splits one receipt covering several things (a TV, a soundbar, a bracket)
+// into one suggested asset per item line. Client-safe: the asset page builds
+// the split and creates the assets.
+import type { ExtractedReceipt } from './parseReceipt';
+import { guessProductIdentity } from './review';
+
+export type CategoryOption = {
+  id: string;
+  name: string;
+};
+
+export type SplitLine = {
+  line: number; // ReceiptLineItem.line, so an asset can point back at it
+  description: string;
+  quantity: number | null;
+  amount: number; // as printed on the receipt
+  // The line's share of delivery charges and discounts, so the split prices
+  // add up to what was actually paid for the items.
+  adjustment: number;
+  price: number;
+  brand: string | null;
+  model_name: string | null;
+  category_id: string | null;
+};
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+// Item words → fragments of category names they usually belong to. The
+// category list is per deployment, so matches are by name.
+const CATEGORY_HINTS: { words: RegExp; categories: string[] }[] = [
+  {
+    words:
+      /\b(tv|television|oled|qled|soundbar|speaker|headphones?|earbuds|laptop|macbook|notebook|ipad|tablet|phone|iphone|smartphone|camera|lens|monitor|console|playstation|xbox|switch|router|drone|projector|smartwatch|bracket|wall mount|adapter|cable|charger|akku|battery)\b/i,
+    categories: ['electronic', 'tech', 'gadget', 'laptop', 'computer', 'phone'],
+  },
+  {
+    words:
+      /\b(sofa|couch|armchair|chair|table|desk|bed|bedframe|mattress|wardrobe|dresser|drawers|bookcase|shelving|sideboard|cabinet)\b/i,
+    categories: ['furniture', 'furnishing'],
+  },
+  {
+    words:
+      /\b(washing machine|washer|dryer|dishwasher|fridge|freezer|oven|hob|cooker|microwave|vacuum|hoover|kettle|toaster|coffee machine|espresso|air fryer|boiler|dehumidifier)\b/i,
+    categories: ['appliance', 'kitchen'],
+  },
+  {
+    words: /\b(bike|bicycle|e-?bike|scooter)\b/i,
+    categories: ['bike', 'bicycle', 'cycle'],
+  },
+  {
+    words: /\b(watch|chronograph)\b/i,
+    categories: ['watch'],
+  },
+  {
+    words: /\b(ring|necklace|bracelet|earrings|pendant)\b/i,
+    categories: ['jewel'],
+  },
+  {
+    words: /\b(drill|saw|sander|grinder|toolkit|tool set|mower|strimmer)\b/i,
+    categories: ['tool', 'garden'],
+  },
+];
+
+export function guessCategory(
+  description: string,
+  categories: CategoryOption[]
+): string | null {
+  const named = categories.map((c) => ({ ...c, lower: c.name.toLowerCase() }));
+
+  for (const hint of CATEGORY_HINTS) {
+    if (!hint.words.test(description)) continue;
+    for (const fragment of hint.categories) {
+      const match = named.find((c) => c.lower.includes(fragment));
+      if (match) return match.id;
+    }
+  }
+
+  // Fall back to a category whose name (or its singular) is in the text.
+  const text = description.toLowerCase();
+  const direct = named.find((c) => {
+    const singular = c.lower.replace(/s$/, '');
+    return singular.length >= 3 && text.includes(singular);
+  });
+  return direct?.id ?? null;
+}
+
+// One row per item line. Delivery and discount lines are spread over the
+// items in proportion to their amounts; the last cent goes to the largest.
+export function splitReceipt(
+  receipt: ExtractedReceipt,
+  categories: CategoryOption[]
+): SplitLine[] {
+  const items = receipt.line_items.filter((i) => i.kind === 'item');
+  if (items.length === 0) return [];
+
+  const itemsTotal = items.reduce((s, i) => s + i.amount, 0);
+  const extras = receipt.line_items
+    .filter((i) => i.kind !== 'item')
+    .reduce((s, i) => s + i.amount, 0);
+
+  const lines = items.map((item) => {
+    const adjustment =
+      itemsTotal > 0 ? round2((extras * item.amount) / itemsTotal) : 0;
+    const identity = guessProductIdentity(item.description);
+    return {
+      line: item.line,
+      description: item.description,
+      quantity: item.quantity,
+      amount: item.amount,
+      adjustment,
+      price: round2(item.amount + adjustment),
+      brand: identity.brand,
+      model_name: identity.model_name,
+      category_id: guessCategory(item.description, categories),
+    };
+  });
+
+  const drift = round2(
+    itemsTotal + extras - lines.reduce((s, l) => s + l.price, 0)
+  );
+  if (drift !== 0) {
+    const largest = lines.reduce((best, l) => (l.amount > best.amount ? l : best));
+    largest.adjustment = round2(largest.adjustment + drift);
+    largest.price = round2(largest.price + drift);
+  }
+
+  return lines;
+}
@@ -0,0 +1,175 @@
+// lib/storage.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// Both buckets are private. Rows store the object path ({userId}/…), not a
+// URL; files are opened through short-lived signed URLs.
+export const RECEIPTS_BUCKET = 'receipts';
+export const DOCUMENTS_BUCKET = 'documents';
+
+// Signed links are made when a file is opened, so they only need to outlive
+// the click that asked for them.
+export const SIGNED_URL_TTL_SECONDS = 5 * 60;
+
+export type StorageLocation = {
+  bucket: string;
+  path: string;
+};
+
+// Supabase storage URLs look like
+// .../storage/v1/object/{public|sign|authenticated}/{bucket}/{path}[?token=…].
+// Anything that isn't a URL is taken as a path in `defaultBucket`; rows
+// written before the buckets went private may still hold a public URL.
+export function parseStorageLocation(
+  value: string,
+  defaultBucket: string
+): StorageLocation | null {
+  if (!value) return null;
+
+  if (!/^https?:\/\//i.test(value)) {
+    return { bucket: defaultBucket, path: value.replace(/^\/+/, '') };
+  }
+
+  let pathname: string;
+  try {
+    pathname = new URL(value).pathname;
+  } catch {
+    return null;
+  }
+
+  const match = pathname.match(
+    /\/storage\/v1\/object\/(?:public|sign|authenticated)\/([^/]+)\/(.+)$/
+  );
+  if (!match) return null;
+
+  return { bucket: match[1], path: decodeURIComponent(match[2]) };
+}
+
+// True when `value` names a file in `bucket` inside the owner's folder.
+// Workers run with the service-role client, which can read any bucket, and
+// the paths they read come from rows the user can edit.
+export function isOwnedStoragePath(
+  value: string,
+  bucket: string,
+  ownerId: string
+): boolean {
+  const location = parseStorageLocation(value, bucket);
+  if (!location || location.bucket !== bucket) return false;
+  if (location.path.split('/').some((part) => part === '..')) return false;
+  return location.path.startsWith(`${ownerId}/`);
+}
+
+export async function createSignedFileUrl(
+  supabase: SupabaseClient,
+  value: string,
+  defaultBucket: string,
+  expiresIn: number = SIGNED_URL_TTL_SECONDS
+): Promise<string> {
+  const location = parseStorageLocation(value, defaultBucket);
+  if (!location) {
+    throw new Error('This file is not stored in Round.');
+  }
+
+  const { data, error } = await supabase.storage
+    .from(location.bucket)
+    .createSignedUrl(location.path, expiresIn);
+
+  if (error || !data?.signedUrl) {
+    throw new Error(error?.message || 'Could not open this file.');
+  }
+  return data.signedUrl;
+}
+
+// Stores an uploaded document under the owner's folder for the asset. The
+// bucket is private: asset_documents.file_url keeps the returned path, and
+// it is signed when viewed.
+export async function uploadDocumentFile(
+  supabase: SupabaseClient,
+  file: File,
+  userId: string,
+  assetId: string
+): Promise<string> {
+  const safeName = file.name.replace(/[^\w.\-]+/g, '_');
+  const path = `${userId}/${assetId}/${Date.now()}-${safeName}`;
+
+  const { error } = await supabase.storage
+    .from(DOCUMENTS_BUCKET)
+    .upload(path, file);
+
+  if (error) {
+    console.error(error);
+    throw new Error('Could not upload document.');
+  }
+  return path;
+}
+
+// For showing a file inside the page (the document viewer, thumbnails)
+// rather than handing the browser a link.
+export async function downloadStoredFile(
+  supabase: SupabaseClient,
+  value: string,
+  defaultBucket: string
+): Promise<Blob> {
+  const location = parseStorageLocation(value, defaultBucket);
+  if (!location) {
+    throw new Error('This file is not stored in Round.');
+  }
+
+  const { data, error } = await supabase.storage
+    .from(location.bucket)
+    .download(location.path);
+
+  if (error || !data) {
+    throw new Error(error?.message || 'Could not load this file.');
+  }
+  return data;
+}
+
+// One request for many paths in the same bucket; missing objects are left out.
+export async function createSignedFileUrls(
+  supabase: SupabaseClient,
+  paths: string[],
+  bucket: string,
+  expiresIn: number = SIGNED_URL_TTL_SECONDS
+): Promise<Record<string, string>> {
+  if (paths.length === 0) return {};
+
+  const { data, error } = await supabase.storage
+    .from(bucket)
+    .createSignedUrls(paths, expiresIn);
+
+  if (error || !data) {
+    throw new Error(error?.message || 'Could not load files.');
+  }
+
+  const urls: Record<string, string> = {};
+  for (const item of data) {
+    if (item.path && item.signedUrl && !item.error) {
+      urls[item.path] = item.signedUrl;
+    }
+  }
+  return urls;
+}
+
+// Deletes objects, grouping them per bucket. Values that aren't stored in
+// Round are skipped, and paths that are already gone are not an error.
+export async function removeStoredFiles(
+  supabase: SupabaseClient,
+  values: (string | null | undefined)[],
+  defaultBucket: string
+): Promise<void> {
+  const byBucket = new Map<string, Set<string>>();
+  for (const value of values) {
+    if (!value) continue;
+    const location = parseStorageLocation(value, defaultBucket);
+    if (!location) continue;
+    if (!byBucket.has(location.bucket)) byBucket.set(location.bucket, new Set());
+    byBucket.get(location.bucket)!.add(location.path);
+  }
+
+  for (const [bucket, paths] of byBucket) {
+    const { error } = await supabase.storage.from(bucket).remove([...paths]);
+    if (error) {
+      throw new Error(error.message || 'Could not delete files.');
+    }
+  }
+}
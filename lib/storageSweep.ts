@@ -0,0 +1,171 @@
+// lib/storageSweep.ts
+// Server only (service-role client): finds stored files no row points at any
+// more – left behind by failed uploads, old deletes or interrupted cleanups –
+// and optionally removes them. Everything Round stores lives under
+// {userId}/ in the receipts and documents buckets.
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { DOCUMENTS_BUCKET, parseStorageLocation, RECEIPTS_BUCKET } from './storage';
+
+// Uploads land in storage a moment before their row is written; anything
+// younger than this is left alone.
+export const SWEEP_GRACE_HOURS = 24;
+
+const PAGE_SIZE = 1000;
+
+export type OrphanedFile = {
+  bucket: string;
+  path: string;
+  size: number | null;
+  created_at: string | null;
+};
+
+export type StorageSweepResult = {
+  scanned: number;
+  orphaned: OrphanedFile[];
+  orphanedBytes: number;
+  removed: number;
+};
+
+// Columns that keep a file alive, per bucket. Finished receipt reads are
+// history only (see removeUnusedReceipts), so only queued ones count.
+const REFERENCES: Record<
+  string,
+  { table: string; column: string; statuses?: string[] }[]
+> = {
+  [RECEIPTS_BUCKET]: [
+    { table: 'assets', column: 'receipt_url' },
+    {
+      table: 'receipt_ai_jobs',
+      column: 'receipt_url',
+      statuses: ['pending', 'processing'],
+    },
+    { table: 'inbound_emails', column: 'storage_path' },
+  ],
+  [DOCUMENTS_BUCKET]: [
+    { table: 'asset_documents', column: 'file_url' },
+    { table: 'asset_documents', column: 'thumbnail_url' },
+  ],
+};
+
+async function loadReferencedPaths(
+  supabase: SupabaseClient,
+  bucket: string,
+  userId: string | null
+): Promise<Set<string>> {
+  const paths = new Set<string>();
+
+  for (const ref of REFERENCES[bucket]) {
+    for (let from = 0; ; from += PAGE_SIZE) {
+      let query = supabase
+        .from(ref.table)
+        .select(ref.column)
+        .not(ref.column, 'is', null)
+        // .range() pages need a fixed order; id is unique.
+        .order('id', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+      if (userId) query = query.like(ref.column, `${userId}/%`);
+      if (ref.statuses) query = query.in('status', ref.statuses);
+
+      const { data, error } = await query;
+      if (error) {
+        throw new Error(
+          `Could not read ${ref.table}.${ref.column}: ${error.message}`
+        );
+      }
+
+      for (const row of (data ?? []) as unknown as Record<string, string>[]) {
+        const location = parseStorageLocation(row[ref.column], bucket);
+        if (location && location.bucket === bucket) paths.add(location.path);
+      }
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+  }
+
+  return paths;
+}
+
+// Storage lists one folder level at a time; folders come back without an id.
+async function listFiles(
+  supabase: SupabaseClient,
+  bucket: string,
+  prefix: string
+): Promise<OrphanedFile[]> {
+  const files: OrphanedFile[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase.storage
+      .from(bucket)
+      .list(prefix, { limit: PAGE_SIZE, offset, sortBy: { column: 'name', order: 'asc' } });
+    if (error) {
+      throw new Error(`Could not list ${bucket}/${prefix}: ${error.message}`);
+    }
+
+    for (const entry of data ?? []) {
+      const path = prefix ? `${prefix}/${entry.name}` : entry.name;
+      if (entry.id === null) {
+        files.push(...(await listFiles(supabase, bucket, path)));
+      } else {
+        files.push({
+          bucket,
+          path,
+          size:
+            typeof entry.metadata?.size === 'number'
+              ? entry.metadata.size
+              : null,
+          created_at: entry.created_at ?? null,
+        });
+      }
+    }
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return files;
+}
+
+export async function sweepOrphanedFiles(
+  supabase: SupabaseClient,
+  options: { userId?: string | null; remove?: boolean; now?: Date } = {}
+): Promise<StorageSweepResult> {
+  const userId = options.userId ?? null;
+  const cutoff =
+    (options.now ?? new Date()).getTime() - SWEEP_GRACE_HOURS * 60 * 60 * 1000;
+
+  const result: StorageSweepResult = {
+    scanned: 0,
+    orphaned: [],
+    orphanedBytes: 0,
+    removed: 0,
+  };
+
+  for (const bucket of [RECEIPTS_BUCKET, DOCUMENTS_BUCKET]) {
+    const referenced = await loadReferencedPaths(supabase, bucket, userId);
+    // Only files inside a user folder are Round's; loose files at the
+    // bucket root are skipped.
+    const files = (await listFiles(supabase, bucket, userId ?? '')).filter(
+      (f) => f.path.includes('/')
+    );
+    result.scanned += files.length;
+
+    const orphaned = files.filter(
+      (f) =>
+        !referenced.has(f.path) &&
+        f.created_at !== null &&
+        new Date(f.created_at).getTime() < cutoff
+    );
+    result.orphaned.push(...orphaned);
+    result.orphanedBytes += orphaned.reduce((sum, f) => sum + (f.size ?? 0), 0);
+
+    if (options.remove) {
+      for (let i = 0; i < orphaned.length; i += PAGE_SIZE) {
+        const batch = orphaned.slice(i, i + PAGE_SIZE).map((f) => f.path);
+        const { error } = await supabase.storage.from(bucket).remove(batch);
+        if (error) {
+          throw new Error(`Could not remove files from ${bucket}: ${error.message}`);
+        }
+        result.removed += batch.length;
+      }
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,66 @@
+// lib/userSettings.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { DEFAULT_REPORTING_CURRENCY } from '@/lib/fx';
+import { DEFAULT_LOCALE } from '@/lib/money';
+
+export type UserSettings = {
+  base_currency: string;
+  locale: string;
+};
+
+export const DEFAULT_USER_SETTINGS: UserSettings = {
+  base_currency: DEFAULT_REPORTING_CURRENCY,
+  locale: DEFAULT_LOCALE,
+};
+
+export const SUPPORTED_CURRENCIES = ['GBP', 'EUR', 'USD', 'CHF', 'CAD', 'AUD', 'JPY'];
+
+export const SUPPORTED_LOCALES: { value: string; label: string }[] = [
+  { value: 'en-GB', label: 'English (UK)' },
+  { value: 'en-US', label: 'English (US)' },
+  { value: 'en-IE', label: 'English (Ireland)' },
+  { value: 'fr-FR', label: 'Français' },
+  { value: 'de-DE', label: 'Deutsch' },
+  { value: 'es-ES', label: 'Español' },
+  { value: 'it-IT', label: 'Italiano' },
+  { value: 'nl-NL', label: 'Nederlands' },
+];
+
+// Users who never opened settings get the defaults.
+export async function loadUserSettings(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<UserSettings> {
+  const { data, error } = await supabase
+    .from('user_settings')
+    .select('base_currency, locale')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error(error);
+    return DEFAULT_USER_SETTINGS;
+  }
+
+  return {
+    base_currency: data?.base_currency || DEFAULT_USER_SETTINGS.base_currency,
+    locale: data?.locale || DEFAULT_USER_SETTINGS.locale,
+  };
+}
+
+export async function saveUserSettings(
+  supabase: SupabaseClient,
+  userId: string,
+  settings: UserSettings
+): Promise<void> {
+  const { error } = await supabase.from('user_settings').upsert(
+    {
+      user_id: userId,
+      base_currency: settings.base_currency,
+      locale: settings.locale,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: 'user_id' }
+  );
+  if (error) throw new Error(error.message);
+}
@@ -0,0 +1,20 @@
+// lib/valuation/columns.ts
+// Columns the asset page reads for each valuations row. Kept apart from the
+// engine so client components can import it.
+
+export const VALUATION_ROW_COLUMNS = `
+  id,
+  valuation_source,
+  suggested_value,
+  currency,
+  value_low,
+  value_high,
+  confidence,
+  explanation,
+  source_type,
+  valuer_name,
+  valuation_date,
+  document_id,
+  provider:raw_data_json->>selected_provider,
+  created_at
+`;
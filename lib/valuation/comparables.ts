@@ -0,0 +1,63 @@
+// lib/valuation/comparables.ts
+// Pure helpers shared by the comparables provider and the asset page.
+import { csvToRecords, parseCsvDate, parseCsvNumber, pickField } from '@/lib/csv';
+
+export const MIN_COMPARABLES = 3;
+
+export type ComparableInput = {
+  title: string | null;
+  sold_price: number;
+  currency: string;
+  sold_date: string;
+  condition: string | null;
+  source_url: string | null;
+  source_ref: string | null;
+};
+
+// Accepts pasted CSV with a header row. Recognised columns: price, date,
+// condition, url, ref/id, title, currency.
+export function parseComparablesCsv(
+  text: string,
+  defaultCurrency = 'GBP'
+): { rows: ComparableInput[]; skipped: number } {
+  const rows: ComparableInput[] = [];
+  let skipped = 0;
+
+  for (const record of csvToRecords(text)) {
+    const price = parseCsvNumber(
+      pickField(record, ['price', 'sold_price', 'sold price', 'amount'])
+    );
+    const date = parseCsvDate(
+      pickField(record, ['date', 'sold_date', 'sold date', 'sold'])
+    );
+
+    if (price == null || price <= 0 || !date) {
+      skipped++;
+      continue;
+    }
+
+    const link = pickField(record, ['url', 'link', 'source_url']);
+    const ref = pickField(record, ['ref', 'id', 'identifier', 'source_ref']);
+
+    rows.push({
+      title: pickField(record, ['title', 'description', 'item', 'address']),
+      sold_price: price,
+      currency: (pickField(record, ['currency']) || defaultCurrency).toUpperCase(),
+      sold_date: date,
+      condition: pickField(record, ['condition']),
+      source_url: link && /^https?:\/\//i.test(link) ? link : null,
+      source_ref: ref ?? (link && !/^https?:\/\//i.test(link) ? link : null),
+    });
+  }
+
+  return { rows, skipped };
+}
+
+export function quantile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return NaN;
+  const pos = (sorted.length - 1) * q;
+  const lower = Math.floor(pos);
+  const upper = Math.ceil(pos);
+  if (lower === upper) return sorted[lower];
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower);
+}
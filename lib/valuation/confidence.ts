@@ -0,0 +1,33 @@
+// lib/valuation/confidence.ts
+// Shared by providers (server) and the asset page (client) – keep it pure.
+
+export type ConfidenceLevel = 'high' | 'medium' | 'low';
+
+export function rangeAround(
+  value: number,
+  spread: number
+): { low: number; high: number } {
+  const s = Math.min(Math.max(spread, 0), 0.9);
+  return {
+    low: Math.round(value * (1 - s)),
+    high: Math.round(value * (1 + s)),
+  };
+}
+
+export function clampConfidence(n: number): number {
+  return Math.round(Math.min(Math.max(n, 0.05), 0.95) * 100) / 100;
+}
+
+export function confidenceLevel(confidence: number | null | undefined): ConfidenceLevel {
+  if (confidence == null) return 'low';
+  if (confidence >= 0.7) return 'high';
+  if (confidence >= 0.45) return 'medium';
+  return 'low';
+}
+
+export function confidenceLabel(confidence: number | null | undefined): string {
+  if (confidence == null) return 'Confidence unknown';
+  const level = confidenceLevel(confidence);
+  const pct = Math.round(confidence * 100);
+  return `${level[0].toUpperCase()}${level.slice(1)} confidence (${pct}%)`;
+}
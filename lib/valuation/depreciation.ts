@@ -0,0 +1,91 @@
+// lib/valuation/depreciation.ts
+
+export type DepreciationModel = 'straight_line' | 'exponential' | 'residual_floor';
+
+export type DepreciationCurve = {
+  model: DepreciationModel;
+  params: Record<string, number>;
+};
+
+// Used when a category has no curve configured.
+export const DEFAULT_CURVE: DepreciationCurve = {
+  model: 'exponential',
+  params: { annual_rate: 0.15 },
+};
+
+const DEFAULT_PARAMS: Record<DepreciationModel, Record<string, number>> = {
+  // Loses (1 - salvage_pct) of its price evenly over useful_life_years.
+  straight_line: { useful_life_years: 5, salvage_pct: 0.1 },
+  // Loses annual_rate of its remaining value each year.
+  exponential: { annual_rate: 0.15 },
+  // Decays like exponential, but only the part above floor_pct.
+  residual_floor: { annual_rate: 0.08, floor_pct: 0.6 },
+};
+
+export function isDepreciationModel(value: unknown): value is DepreciationModel {
+  return (
+    value === 'straight_line' ||
+    value === 'exponential' ||
+    value === 'residual_floor'
+  );
+}
+
+export function resolveCurve(
+  model: unknown,
+  params: unknown
+): DepreciationCurve {
+  if (!isDepreciationModel(model)) return DEFAULT_CURVE;
+
+  const merged = { ...DEFAULT_PARAMS[model] };
+  if (params && typeof params === 'object') {
+    for (const [key, raw] of Object.entries(params)) {
+      const n = Number(raw);
+      if (key in merged && Number.isFinite(n)) merged[key] = n;
+    }
+  }
+  return { model, params: merged };
+}
+
+export function ageInYears(fromDate: string, now: Date): number | null {
+  const from = new Date(fromDate);
+  if (Number.isNaN(from.getTime())) return null;
+  const ms = now.getTime() - from.getTime();
+  return Math.max(0, ms / (365.25 * 24 * 60 * 60 * 1000));
+}
+
+// Fraction of the purchase price retained after `ageYears`.
+export function retainedFraction(
+  curve: DepreciationCurve,
+  ageYears: number
+): number {
+  const p = curve.params;
+
+  switch (curve.model) {
+    case 'straight_line': {
+      const life = Math.max(p.useful_life_years, 0.1);
+      const salvage = clamp01(p.salvage_pct);
+      const lost = (1 - salvage) * Math.min(ageYears / life, 1);
+      return 1 - lost;
+    }
+    case 'exponential':
+      return Math.pow(1 - clamp01(p.annual_rate), ageYears);
+    case 'residual_floor': {
+      const floor = clamp01(p.floor_pct);
+      const decay = Math.pow(1 - clamp01(p.annual_rate), ageYears);
+      return floor + (1 - floor) * decay;
+    }
+  }
+}
+
+function clamp01(n: number): number {
+  return Math.min(1, Math.max(0, n));
+}
+
+// Approximate yearly loss of value, used to roll older prices forward.
+export function annualDepreciationRate(curve: DepreciationCurve): number {
+  const p = curve.params;
+  if (curve.model === 'straight_line') {
+    return clamp01((1 - clamp01(p.salvage_pct)) / Math.max(p.useful_life_years, 0.1));
+  }
+  return clamp01(p.annual_rate);
+}
@@ -0,0 +1,141 @@
+// lib/valuation/hpi.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { csvToRecords, parseCsvDate, parseCsvNumber, pickField } from '@/lib/csv';
+
+export const DEFAULT_HPI_SERIES = 'uk_hpi';
+
+export type HpiRow = {
+  series: string;
+  region_name: string;
+  region_code: string | null;
+  month: string;
+  index_value: number;
+  average_price: number | null;
+};
+
+export type HpiPoint = {
+  region_name: string;
+  month: string;
+  index_value: number;
+};
+
+// Reads the UK HPI "full file" layout (Date, RegionName, AreaCode, Index,
+// AveragePrice) and simple region,month,index files.
+export function parseHpiCsv(
+  text: string,
+  series: string = DEFAULT_HPI_SERIES
+): { rows: HpiRow[]; skipped: number } {
+  const rows: HpiRow[] = [];
+  let skipped = 0;
+
+  for (const record of csvToRecords(text)) {
+    const region = pickField(record, ['regionname', 'region_name', 'region', 'city']);
+    const date = parseCsvDate(pickField(record, ['date', 'month', 'period']));
+    const index = parseCsvNumber(pickField(record, ['index', 'index_value', 'hpi']));
+
+    if (!region || !date || index == null) {
+      skipped++;
+      continue;
+    }
+
+    rows.push({
+      series,
+      region_name: region,
+      region_code: pickField(record, ['areacode', 'region_code', 'code']),
+      month: `${date.slice(0, 7)}-01`,
+      index_value: index,
+      average_price: parseCsvNumber(
+        pickField(record, ['averageprice', 'average_price'])
+      ),
+    });
+  }
+
+  return { rows, skipped };
+}
+
+export async function importHpiRows(
+  supabase: SupabaseClient,
+  rows: HpiRow[],
+  batchSize = 500
+): Promise<number> {
+  let imported = 0;
+  for (let i = 0; i < rows.length; i += batchSize) {
+    const batch = rows.slice(i, i + batchSize);
+    const { error } = await supabase
+      .from('house_price_index')
+      .upsert(batch, { onConflict: 'series,region_name,month' });
+    if (error) throw new Error(error.message);
+    imported += batch.length;
+  }
+  return imported;
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
+
+// Finds the region the index is keyed on: the asset's city first, then its
+// country. Any imported series can cover a region; the default series wins
+// where several do. Returns the series, the matched region name and which
+// field matched.
+export async function matchHpiRegion(
+  supabase: SupabaseClient,
+  candidates: { field: 'city' | 'country'; value: string | null }[]
+): Promise<{
+  series: string;
+  region_name: string;
+  matched_on: 'city' | 'country';
+} | null> {
+  for (const candidate of candidates) {
+    const value = candidate.value?.trim();
+    if (!value) continue;
+
+    for (const defaultSeries of [true, false]) {
+      let query = supabase
+        .from('house_price_index')
+        .select('series, region_name')
+        .ilike('region_name', escapeLike(value));
+      query = defaultSeries
+        ? query.eq('series', DEFAULT_HPI_SERIES)
+        : query.neq('series', DEFAULT_HPI_SERIES).order('series');
+
+      const { data, error } = await query.limit(1).maybeSingle();
+
+      if (error) throw new Error(error.message);
+      if (data) {
+        return {
+          series: data.series,
+          region_name: data.region_name,
+          matched_on: candidate.field,
+        };
+      }
+    }
+  }
+  return null;
+}
+
+// The last index point on or before `month` (YYYY-MM-DD), or the latest one
+// when `month` is omitted.
+export async function getHpiPoint(
+  supabase: SupabaseClient,
+  regionName: string,
+  month?: string,
+  series: string = DEFAULT_HPI_SERIES
+): Promise<HpiPoint | null> {
+  let query = supabase
+    .from('house_price_index')
+    .select('region_name, month, index_value')
+    .eq('series', series)
+    .eq('region_name', regionName);
+
+  if (month) query = query.lte('month', month);
+
+  const { data, error } = await query
+    .order('month', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  if (!data) return null;
+  return { ...data, index_value: Number(data.index_value) } as HpiPoint;
+}
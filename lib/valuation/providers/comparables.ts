@@ -0,0 +1,156 @@
+// lib/valuation/providers/comparables.ts
+import { isHomeCategoryName } from '@/lib/categories';
+import { MIN_COMPARABLES, quantile } from '../comparables';
+import { clampConfidence } from '../confidence';
+import {
+  ageInYears,
+  annualDepreciationRate,
+  resolveCurve,
+} from '../depreciation';
+import { getHpiPoint, matchHpiRegion } from '../hpi';
+import type { ValuationProvider } from '../types';
+
+type ComparableRow = {
+  id: string;
+  title: string | null;
+  sold_price: number;
+  currency: string;
+  sold_date: string;
+  condition: string | null;
+  source_url: string | null;
+  source_ref: string | null;
+};
+
+// Values an asset from the sold listings the owner has collected for it:
+// each price is rolled forward to today, then we take the median and the
+// interquartile range.
+export const comparablesProvider: ValuationProvider = {
+  id: 'comparables',
+  label: 'Comparable sales',
+
+  appliesTo: () => true,
+
+  async estimate({ asset, supabase, now }) {
+    const currency =
+      asset.estimate_currency || asset.purchase_currency || 'GBP';
+
+    const { data, error } = await supabase
+      .from('asset_comparables')
+      .select(
+        'id, title, sold_price, currency, sold_date, condition, source_url, source_ref'
+      )
+      .eq('asset_id', asset.id)
+      .order('sold_date', { ascending: false });
+
+    if (error) throw new Error(error.message);
+
+    const all = (data || []) as ComparableRow[];
+    const comps = all.filter((c) => c.currency === currency);
+    if (comps.length < MIN_COMPARABLES) return null;
+
+    const isHome = isHomeCategoryName(asset.category_name);
+
+    // Homes move with the local index; everything else keeps depreciating.
+    let adjust: (c: ComparableRow) => Promise<number>;
+    let adjustment: string;
+
+    const region = isHome
+      ? await matchHpiRegion(supabase, [
+          { field: 'city', value: asset.city },
+          { field: 'country', value: asset.country },
+        ])
+      : null;
+    const latest = region
+      ? await getHpiPoint(
+          supabase,
+          region.region_name,
+          undefined,
+          region.series
+        )
+      : null;
+
+    if (region && latest) {
+      adjustment = `house price index (${region.region_name})`;
+      adjust = async (c) => {
+        const atSale = await getHpiPoint(
+          supabase,
+          region.region_name,
+          `${c.sold_date.slice(0, 7)}-01`,
+          region.series
+        );
+        if (!atSale || atSale.index_value <= 0) return Number(c.sold_price);
+        return (Number(c.sold_price) * latest.index_value) / atSale.index_value;
+      };
+    } else if (isHome) {
+      adjustment = 'none (no local index)';
+      adjust = async (c) => Number(c.sold_price);
+    } else {
+      const curve = resolveCurve(
+        asset.category_curve?.model,
+        asset.category_curve?.params
+      );
+      const rate = annualDepreciationRate(curve);
+      adjustment = `${(rate * 100).toFixed(0)}% a year depreciation`;
+      adjust = async (c) => {
+        const years = ageInYears(c.sold_date, now) ?? 0;
+        return Number(c.sold_price) * Math.pow(1 - rate, years);
+      };
+    }
+
+    const cited = [];
+    for (const c of comps) {
+      cited.push({
+        id: c.id,
+        title: c.title,
+        sold_price: Number(c.sold_price),
+        sold_date: c.sold_date,
+        condition: c.condition,
+        source: c.source_url || c.source_ref,
+        adjusted_price: Math.round(await adjust(c)),
+      });
+    }
+
+    const sorted = cited.map((c) => c.adjusted_price).sort((a, b) => a - b);
+    const median = Math.round(quantile(sorted, 0.5));
+    const low = Math.round(quantile(sorted, 0.25));
+    const high = Math.round(quantile(sorted, 0.75));
+
+    // More, fresher and tighter comparables mean more confidence.
+    const avgAge =
+      comps.reduce((sum, c) => sum + (ageInYears(c.sold_date, now) ?? 0), 0) /
+      comps.length;
+    const spread = median > 0 ? (high - low) / median : 1;
+    const confidence = clampConfidence(
+      0.4 + 0.06 * Math.min(comps.length, 8) - 0.05 * avgAge - 0.3 * spread
+    );
+
+    return {
+      value: median,
+      low,
+      high,
+      confidence,
+      currency,
+      summary: `Median of ${comps.length} comparable sales, adjusted to today using ${adjustment}.`,
+      factors: [
+        { label: 'Comparables used', value: comps.length, kind: 'number' },
+        {
+          label: 'Average age of sales (years)',
+          value: Number(avgAge.toFixed(1)),
+          kind: 'number',
+        },
+        { label: 'Time adjustment', value: adjustment, kind: 'text' },
+        { label: 'Lowest adjusted price', value: sorted[0], kind: 'money' },
+        {
+          label: 'Highest adjusted price',
+          value: sorted[sorted.length - 1],
+          kind: 'money',
+        },
+      ],
+      inputs: {
+        adjustment,
+        ignored_other_currency: all.length - comps.length,
+        comparables: cited,
+      },
+    };
+  },
+};
@@ -0,0 +1,80 @@
+// lib/valuation/providers/depreciation.ts
+import { isHomeCategoryName } from '@/lib/categories';
+import {
+  ageInYears,
+  resolveCurve,
+  retainedFraction,
+} from '../depreciation';
+import { clampConfidence, rangeAround } from '../confidence';
+import type { ValuationProvider } from '../types';
+
+const MODEL_LABELS: Record<string, string> = {
+  straight_line: 'Straight-line',
+  exponential: 'Exponential',
+  residual_floor: 'Residual-floor',
+};
+
+// Values personal assets from purchase price and age using the curve
+// configured on their category.
+export const depreciationProvider: ValuationProvider = {
+  id: 'depreciation_curve',
+  label: 'Round depreciation curve',
+
+  appliesTo: (asset) => !isHomeCategoryName(asset.category_name),
+
+  async estimate({ asset, now }) {
+    if (asset.purchase_price == null || !asset.purchase_date) return null;
+
+    const age = ageInYears(asset.purchase_date, now);
+    if (age == null) return null;
+
+    const curve = resolveCurve(
+      asset.category_curve?.model,
+      asset.category_curve?.params
+    );
+    const retained = retainedFraction(curve, age);
+    const value = Math.round(asset.purchase_price * retained);
+
+    // Curves are generic: trust them less for older items and when the
+    // category has no curve of its own.
+    const fromCategory = !!asset.category_curve;
+    const confidence = clampConfidence(
+      (fromCategory ? 0.65 : 0.45) - 0.03 * age
+    );
+    const spread = 0.1 + 0.03 * age + (fromCategory ? 0 : 0.05);
+
+    return {
+      value,
+      ...rangeAround(value, spread),
+      confidence,
+      currency: asset.purchase_currency || 'GBP',
+      summary: `${
+        MODEL_LABELS[curve.model]
+      } depreciation over ${age.toFixed(1)} years keeps ${Math.round(
+        retained * 100
+      )}% of the purchase price.`,
+      factors: [
+        { label: 'Purchase price', value: asset.purchase_price, kind: 'money' },
+        { label: 'Purchase date', value: asset.purchase_date, kind: 'date' },
+        { label: 'Age (years)', value: Number(age.toFixed(1)), kind: 'number' },
+        {
+          label: 'Depreciation curve',
+          value: `${MODEL_LABELS[curve.model]}${
+            fromCategory ? '' : ' (default)'
+          }`,
+          kind: 'text',
+        },
+        { label: 'Change since purchase', value: retained - 1, kind: 'percent' },
+      ],
+      inputs: {
+        curve: curve.model,
+        params: curve.params,
+        curve_source: fromCategory ? 'category' : 'default',
+        purchase_price: asset.purchase_price,
+        purchase_date: asset.purchase_date,
+        age_years: Number(age.toFixed(2)),
+        retained_fraction: Number(retained.toFixed(4)),
+      },
+    };
+  },
+};
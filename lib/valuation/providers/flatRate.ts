@@ -0,0 +1,60 @@
+// lib/valuation/providers/flatRate.ts
+import { isHomeCategoryName } from '@/lib/categories';
+import { rangeAround } from '../confidence';
+import { ageInYears } from '../depreciation';
+import type { ValuationProvider } from '../types';
+
+const ANNUAL_APPRECIATION = 0.035;
+// A blanket rule knows nothing about the local market.
+const CONFIDENCE = 0.2;
+const SPREAD = 0.25;
+
+// Fallback rule for homes: grow the purchase price by a fixed rate for each
+// year owned. Used when no better provider has an answer. It only looks at
+// purchase price and age, never at the last estimate, so revaluing the same
+// home on the same day always gives the same number.
+export const flatRateProvider: ValuationProvider = {
+  id: 'flat_rate',
+  label: 'Round flat-rate estimate',
+
+  appliesTo: (asset) => isHomeCategoryName(asset.category_name),
+
+  async estimate({ asset, now }) {
+    if (asset.purchase_price == null || !asset.purchase_date) return null;
+
+    const age = ageInYears(asset.purchase_date, now);
+    if (age == null) return null;
+
+    const factor = (1 + ANNUAL_APPRECIATION) ** age;
+    const value = Math.round(asset.purchase_price * factor);
+
+    return {
+      value,
+      ...rangeAround(value, SPREAD),
+      confidence: CONFIDENCE,
+      currency: asset.purchase_currency || 'GBP',
+      summary: `Moderate appreciation of ${(ANNUAL_APPRECIATION * 100).toFixed(
+        1
+      )}% a year applied to the purchase price over ${age.toFixed(
+        1
+      )} years. Import a local house price index for a better estimate.`,
+      factors: [
+        { label: 'Purchase price', value: asset.purchase_price, kind: 'money' },
+        { label: 'Purchase date', value: asset.purchase_date, kind: 'date' },
+        { label: 'Age (years)', value: Number(age.toFixed(1)), kind: 'number' },
+        {
+          label: 'Assumed appreciation per year',
+          value: ANNUAL_APPRECIATION,
+          kind: 'percent',
+        },
+      ],
+      inputs: {
+        purchase_price: asset.purchase_price,
+        purchase_date: asset.purchase_date,
+        age_years: age,
+        annual_appreciation: ANNUAL_APPRECIATION,
+        factor,
+      },
+    };
+  },
+};
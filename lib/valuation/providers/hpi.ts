@@ -0,0 +1,89 @@
+// lib/valuation/providers/hpi.ts
+import { isHomeCategoryName } from '@/lib/categories';
+import { getHpiPoint, matchHpiRegion } from '../hpi';
+import { ageInYears } from '../depreciation';
+import { clampConfidence, rangeAround } from '../confidence';
+import type { ValuationProvider } from '../types';
+
+// Indexes a home's purchase price from its purchase month to the latest
+// month of the local house price index. Upgrades are added on top by
+// runAssetValuation, as for every home estimate.
+export const hpiProvider: ValuationProvider = {
+  id: 'house_price_index',
+  label: 'House price index',
+
+  appliesTo: (asset) => isHomeCategoryName(asset.category_name),
+
+  async estimate({ asset, supabase, now }) {
+    if (asset.purchase_price == null || !asset.purchase_date) return null;
+
+    const region = await matchHpiRegion(supabase, [
+      { field: 'city', value: asset.city },
+      { field: 'country', value: asset.country },
+    ]);
+    if (!region) return null;
+
+    const purchaseMonth = `${asset.purchase_date.slice(0, 7)}-01`;
+    const start = await getHpiPoint(
+      supabase,
+      region.region_name,
+      purchaseMonth,
+      region.series
+    );
+    const end = await getHpiPoint(
+      supabase,
+      region.region_name,
+      undefined,
+      region.series
+    );
+    if (!start || !end || start.index_value <= 0) return null;
+
+    const ratio = end.index_value / start.index_value;
+    const changePct = (ratio - 1) * 100;
+    const value = Math.round(asset.purchase_price * ratio);
+    const currency = asset.purchase_currency || 'GBP';
+
+    // An index tracks the average home: a city match beats a national one,
+    // and individual homes drift further from the average over time.
+    const years = ageInYears(asset.purchase_date, now) ?? 0;
+    const cityMatch = region.matched_on === 'city';
+    const confidence = clampConfidence((cityMatch ? 0.75 : 0.5) - 0.01 * years);
+    const spread = (cityMatch ? 0.05 : 0.1) + 0.01 * years;
+
+    return {
+      value,
+      ...rangeAround(value, spread),
+      confidence,
+      currency,
+      summary: `${region.region_name} house prices moved ${
+        changePct >= 0 ? '+' : ''
+      }${changePct.toFixed(1)}% between ${start.month.slice(
+        0,
+        7
+      )} and ${end.month.slice(0, 7)}.`,
+      factors: [
+        { label: 'Purchase price', value: asset.purchase_price, kind: 'money' },
+        {
+          label: 'Index region',
+          value: `${region.region_name} (matched on ${region.matched_on})`,
+          kind: 'text',
+        },
+        { label: 'Index at purchase', value: start.index_value, kind: 'number' },
+        { label: 'Latest index', value: end.index_value, kind: 'number' },
+        { label: 'Market movement', value: ratio - 1, kind: 'percent' },
+      ],
+      inputs: {
+        series: region.series,
+        region: region.region_name,
+        region_matched_on: region.matched_on,
+        purchase_price: asset.purchase_price,
+        purchase_date: asset.purchase_date,
+        start_month: start.month,
+        start_index: start.index_value,
+        end_month: end.month,
+        end_index: end.index_value,
+        ratio: Number(ratio.toFixed(4)),
+      },
+    };
+  },
+};
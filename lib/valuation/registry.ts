@@ -0,0 +1,21 @@
+// lib/valuation/registry.ts
+import type { ValuationAsset, ValuationProvider } from './types';
+import { comparablesProvider } from './providers/comparables';
+import { depreciationProvider } from './providers/depreciation';
+import { flatRateProvider } from './providers/flatRate';
+import { hpiProvider } from './providers/hpi';
+
+// Ordered by preference: the first provider that returns an estimate wins.
+// Add new valuation methods here.
+const providers: ValuationProvider[] = [
+  comparablesProvider,
+  hpiProvider,
+  depreciationProvider,
+  flatRateProvider,
+];
+
+export function getProvidersForAsset(
+  asset: ValuationAsset
+): ValuationProvider[] {
+  return providers.filter((p) => p.appliesTo(asset));
+}
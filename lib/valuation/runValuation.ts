@@ -0,0 +1,158 @@
+// lib/valuation/runValuation.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { isHomeCategoryName, pickCategory } from '@/lib/categories';
+import { VALUATION_ROW_COLUMNS } from './columns';
+import { getProvidersForAsset } from './registry';
+import type { ProviderRun, ValuationAsset } from './types';
+import { loadUpgradeContribution, withUpgradeContribution } from './upgrades';
+
+export const VALUATION_ASSET_COLUMNS = `
+  id,
+  owner_id,
+  title,
+  brand,
+  model_name,
+  purchase_price,
+  purchase_currency,
+  purchase_date,
+  current_estimated_value,
+  estimate_currency,
+  current_valuation_id,
+  city,
+  country,
+  category_id,
+  category:categories ( id, name, depreciation_model, depreciation_params )
+`;
+
+type CategoryRow = {
+  name: string | null;
+  depreciation_model?: unknown;
+  depreciation_params?: unknown;
+};
+
+export type ValuationAssetRow = Omit<ValuationAsset, 'category_name' | 'category_curve'> & {
+  category: CategoryRow | CategoryRow[] | null;
+};
+
+export function toValuationAsset(row: ValuationAssetRow): ValuationAsset {
+  const { category, ...rest } = row;
+  const cat = pickCategory(category);
+  return {
+    ...rest,
+    category_name: cat?.name ?? null,
+    category_curve: cat?.depreciation_model
+      ? { model: cat.depreciation_model, params: cat.depreciation_params }
+      : null,
+  };
+}
+
+export async function loadValuationAsset(
+  supabase: SupabaseClient,
+  assetId: string
+): Promise<ValuationAsset | null> {
+  const { data, error } = await supabase
+    .from('assets')
+    .select(VALUATION_ASSET_COLUMNS)
+    .eq('id', assetId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  if (!data) return null;
+  return toValuationAsset(data as unknown as ValuationAssetRow);
+}
+
+export type ValuationOutcome = {
+  valuation: Record<string, unknown> | null;
+  selected: ProviderRun | null;
+  runs: ProviderRun[];
+};
+
+// Runs every provider registered for the asset's category, stores the
+// preferred estimate as a valuations row and makes it the current estimate.
+// Providers value a home as bought; what its upgrades add goes on top here,
+// whichever provider answered.
+export async function runAssetValuation(
+  supabase: SupabaseClient,
+  asset: ValuationAsset,
+  options: {
+    requestedBy: string;
+    trigger: 'manual' | 'scheduled';
+    now?: Date;
+  }
+): Promise<ValuationOutcome> {
+  const { requestedBy, trigger, now = new Date() } = options;
+  const runs: ProviderRun[] = [];
+
+  for (const provider of getProvidersForAsset(asset)) {
+    try {
+      const estimate = await provider.estimate({ asset, supabase, now });
+      runs.push({ provider: provider.id, label: provider.label, estimate });
+    } catch (err) {
+      console.error(err);
+      runs.push({
+        provider: provider.id,
+        label: provider.label,
+        estimate: null,
+        error: err instanceof Error ? err.message : 'Provider failed.',
+      });
+    }
+  }
+
+  const preferred = runs.find((r) => r.estimate != null) ?? null;
+  if (!preferred || !preferred.estimate) {
+    return { valuation: null, selected: null, runs };
+  }
+
+  let estimate = preferred.estimate;
+  if (isHomeCategoryName(asset.category_name) && asset.purchase_date) {
+    const upgrades = await loadUpgradeContribution(
+      supabase,
+      asset.id,
+      asset.purchase_date,
+      estimate.currency,
+      now
+    );
+    estimate = withUpgradeContribution(estimate, upgrades);
+  }
+  const selected: ProviderRun = { ...preferred, estimate };
+
+  const { value, currency, low, high, confidence, summary, factors } =
+    estimate;
+
+  const { data, error } = await supabase
+    .from('valuations')
+    .insert({
+      asset_id: asset.id,
+      requested_by: requestedBy,
+      valuation_source: selected.label,
+      suggested_value: value,
+      currency,
+      value_low: low,
+      value_high: high,
+      confidence,
+      explanation: { summary, factors },
+      raw_data_json: {
+        trigger,
+        selected_provider: selected.provider,
+        inputs: estimate.inputs,
+        providers: runs,
+      },
+    })
+    .select(VALUATION_ROW_COLUMNS)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+
+  const { error: assetError } = await supabase
+    .from('assets')
+    .update({
+      current_estimated_value: value,
+      estimate_currency: currency,
+      current_valuation_id: (data as { id: string } | null)?.id ?? null,
+    })
+    .eq('id', asset.id);
+
+  if (assetError) throw new Error(assetError.message);
+
+  return { valuation: data, selected, runs };
+}
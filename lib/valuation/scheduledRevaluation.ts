@@ -0,0 +1,217 @@
+// lib/valuation/scheduledRevaluation.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  runAssetValuation,
+  toValuationAsset,
+  VALUATION_ASSET_COLUMNS,
+  ValuationAssetRow,
+} from './runValuation';
+
+export const DEFAULT_MAX_AGE_DAYS = 30;
+export const DEFAULT_BATCH_SIZE = 50;
+
+// A run still marked 'running' after this long is assumed to have crashed.
+const STALE_RUN_MINUTES = 30;
+
+export type RevaluationLogEntry = {
+  asset_id: string;
+  outcome: 'revalued' | 'skipped' | 'failed';
+  reason: string | null;
+};
+
+export type RevaluationRunSummary = {
+  run_id: string;
+  assets_seen: number;
+  revalued: number;
+  skipped: number;
+  failed: number;
+};
+
+// Walks every asset in batches and revalues the ones whose latest valuation
+// is older than maxAgeDays. Running it twice in a row is harmless: the
+// second pass skips everything the first one refreshed, and providers value
+// from purchase details rather than the last estimate, so a forced rerun
+// gives the same numbers. Assets whose current estimate the owner picked
+// from a manual or professional valuation are left alone.
+export async function runScheduledRevaluation(
+  supabase: SupabaseClient,
+  options: { maxAgeDays?: number; batchSize?: number; now?: Date } = {}
+): Promise<RevaluationRunSummary | { alreadyRunning: string }> {
+  const maxAgeDays = options.maxAgeDays ?? DEFAULT_MAX_AGE_DAYS;
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  const now = options.now ?? new Date();
+
+  const staleBefore = new Date(
+    now.getTime() - STALE_RUN_MINUTES * 60 * 1000
+  ).toISOString();
+
+  // A crashed run would otherwise hold the one 'running' slot forever.
+  const { error: staleError } = await supabase
+    .from('valuation_job_runs')
+    .update({
+      status: 'failed',
+      finished_at: now.toISOString(),
+      error: `No progress after ${STALE_RUN_MINUTES} minutes.`,
+    })
+    .eq('status', 'running')
+    .lt('started_at', staleBefore);
+
+  if (staleError) throw new Error(staleError.message);
+
+  const { data: run, error: runError } = await supabase
+    .from('valuation_job_runs')
+    .insert({ max_age_days: maxAgeDays, batch_size: batchSize })
+    .select('id')
+    .single();
+
+  // A partial unique index allows one 'running' row, so a concurrent start
+  // fails here rather than passing a read-then-insert check.
+  if (runError?.code === '23505') {
+    const { data: running } = await supabase
+      .from('valuation_job_runs')
+      .select('id')
+      .eq('status', 'running')
+      .limit(1)
+      .maybeSingle();
+
+    return { alreadyRunning: running?.id ?? 'unknown' };
+  }
+
+  if (runError || !run) {
+    throw new Error(runError?.message || 'Could not start revaluation run.');
+  }
+
+  const cutoff = new Date(
+    now.getTime() - maxAgeDays * 24 * 60 * 60 * 1000
+  ).toISOString();
+
+  const log: RevaluationLogEntry[] = [];
+  let assetsSeen = 0;
+
+  try {
+    for (let offset = 0; ; offset += batchSize) {
+      const { data: rows, error } = await supabase
+        .from('assets')
+        .select(VALUATION_ASSET_COLUMNS)
+        .order('id')
+        .range(offset, offset + batchSize - 1);
+
+      if (error) throw new Error(error.message);
+      if (!rows || rows.length === 0) break;
+
+      assetsSeen += rows.length;
+      const assets = (rows as unknown as ValuationAssetRow[]).map(
+        toValuationAsset
+      );
+
+      const { data: fresh, error: freshError } = await supabase
+        .from('valuations')
+        .select('asset_id')
+        .in(
+          'asset_id',
+          assets.map((a) => a.id)
+        )
+        .gte('created_at', cutoff);
+
+      if (freshError) throw new Error(freshError.message);
+      const freshIds = new Set((fresh || []).map((v) => v.asset_id));
+
+      // An owner who made their own or a professional valuation the current
+      // estimate keeps it until they choose otherwise.
+      const currentValuationIds = assets
+        .map((a) => a.current_valuation_id)
+        .filter((id): id is string => !!id);
+      const ownerChosenIds = new Set<string>();
+
+      if (currentValuationIds.length > 0) {
+        const { data: evidence, error: evidenceError } = await supabase
+          .from('valuations')
+          .select('asset_id')
+          .in('id', currentValuationIds)
+          .neq('source_type', 'round');
+
+        if (evidenceError) throw new Error(evidenceError.message);
+        (evidence || []).forEach((v) => ownerChosenIds.add(v.asset_id));
+      }
+
+      for (const asset of assets) {
+        if (freshIds.has(asset.id)) {
+          log.push({
+            asset_id: asset.id,
+            outcome: 'skipped',
+            reason: `valued within the last ${maxAgeDays} days`,
+          });
+          continue;
+        }
+        if (ownerChosenIds.has(asset.id)) {
+          log.push({
+            asset_id: asset.id,
+            outcome: 'skipped',
+            reason: 'current estimate is a manual or professional valuation',
+          });
+          continue;
+        }
+
+        try {
+          const outcome = await runAssetValuation(supabase, asset, {
+            requestedBy: asset.owner_id,
+            trigger: 'scheduled',
+            now,
+          });
+          log.push(
+            outcome.valuation
+              ? { asset_id: asset.id, outcome: 'revalued', reason: null }
+              : {
+                  asset_id: asset.id,
+                  outcome: 'skipped',
+                  reason: 'no provider could estimate this asset',
+                }
+          );
+        } catch (err) {
+          log.push({
+            asset_id: asset.id,
+            outcome: 'failed',
+            reason: err instanceof Error ? err.message : 'unknown error',
+          });
+        }
+      }
+
+      if (rows.length < batchSize) break;
+    }
+  } catch (err) {
+    await supabase
+      .from('valuation_job_runs')
+      .update({
+        status: 'failed',
+        finished_at: new Date().toISOString(),
+        error: err instanceof Error ? err.message : 'unknown error',
+        ...countLog(log, assetsSeen),
+        log,
+      })
+      .eq('id', run.id);
+    throw err;
+  }
+
+  const counts = countLog(log, assetsSeen);
+
+  await supabase
+    .from('valuation_job_runs')
+    .update({
+      status: 'completed',
+      finished_at: new Date().toISOString(),
+      ...counts,
+      log,
+    })
+    .eq('id', run.id);
+
+  return { run_id: run.id, ...counts };
+}
+
+function countLog(log: RevaluationLogEntry[], assetsSeen: number) {
+  return {
+    assets_seen: assetsSeen,
+    revalued: log.filter((l) => l.outcome === 'revalued').length,
+    skipped: log.filter((l) => l.outcome === 'skipped').length,
+    failed: log.filter((l) => l.outcome === 'failed').length,
+  };
+}
@@ -0,0 +1,42 @@
+// lib/valuation/sources.ts
+// Where a valuations row came from. 'round' rows are produced by the
+// valuation engine; everything else was logged by the owner.
+
+export type ValuationSourceType =
+  | 'round'
+  | 'manual'
+  | 'surveyor'
+  | 'appraisal'
+  | 'dealer_quote'
+  | 'agent_valuation';
+
+export const EVIDENCE_SOURCE_TYPES: {
+  value: Exclude<ValuationSourceType, 'round'>;
+  label: string;
+  // Professional valuations must come with the report / quote attached.
+  requiresDocument: boolean;
+}[] = [
+  { value: 'surveyor', label: 'Surveyor report', requiresDocument: true },
+  {
+    value: 'appraisal',
+    label: 'Jeweller / specialist appraisal',
+    requiresDocument: true,
+  },
+  { value: 'dealer_quote', label: 'Dealer quote', requiresDocument: true },
+  {
+    value: 'agent_valuation',
+    label: 'Estate agent valuation',
+    requiresDocument: true,
+  },
+  { value: 'manual', label: 'My own estimate', requiresDocument: false },
+];
+
+export function valuationSourceLabel(
+  sourceType: string | null | undefined
+): string {
+  if (!sourceType || sourceType === 'round') return 'Round estimate';
+  return (
+    EVIDENCE_SOURCE_TYPES.find((s) => s.value === sourceType)?.label ??
+    sourceType
+  );
+}
@@ -0,0 +1,71 @@
+// lib/valuation/types.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export type ValuationAsset = {
+  id: string;
+  owner_id: string;
+  title: string | null;
+  brand: string | null;
+  model_name: string | null;
+  purchase_price: number | null;
+  purchase_currency: string | null;
+  purchase_date: string | null;
+  current_estimated_value: number | null;
+  estimate_currency: string | null;
+  // The valuation the current estimate came from, if any.
+  current_valuation_id: string | null;
+  city: string | null;
+  country: string | null;
+  category_id: string | null;
+  category_name: string | null;
+  // Raw depreciation settings from the categories row, if any.
+  category_curve: { model: unknown; params: unknown } | null;
+};
+
+export type ValuationContext = {
+  asset: ValuationAsset;
+  supabase: SupabaseClient;
+  now: Date;
+};
+
+// One line of the "why this number" breakdown. The page formats `value`
+// according to `kind`, in the valuation's currency for money.
+export type ValuationFactor = {
+  label: string;
+  value: number | string;
+  kind: 'money' | 'percent' | 'number' | 'date' | 'text';
+};
+
+export type ValuationExplanation = {
+  summary: string;
+  factors: ValuationFactor[];
+};
+
+export type ValuationEstimate = {
+  value: number;
+  low: number;
+  high: number;
+  // 0–1: how much weight the owner should put on this number.
+  confidence: number;
+  currency: string;
+  // One-line, user-facing description of how the number was reached.
+  summary: string;
+  factors: ValuationFactor[];
+  // Whatever the provider used, stored verbatim in raw_data_json.
+  inputs: Record<string, unknown>;
+};
+
+export interface ValuationProvider {
+  id: string;
+  label: string;
+  appliesTo(asset: ValuationAsset): boolean;
+  // Return null when the provider has nothing useful to say about this asset.
+  estimate(ctx: ValuationContext): Promise<ValuationEstimate | null>;
+}
+
+export type ProviderRun = {
+  provider: string;
+  label: string;
+  estimate: ValuationEstimate | null;
+  error?: string;
+};
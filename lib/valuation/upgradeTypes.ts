@@ -0,0 +1,53 @@
+// lib/valuation/upgradeTypes.ts
+// Client-safe: the upgrade forms use these for the type picker.
+
+export type UpgradeRate = {
+  upgrade_type: string;
+  label: string;
+  recovery_rate: number;
+  annual_decay: number;
+};
+
+// Fallbacks when upgrade_recovery_rates has no row for a type.
+export const DEFAULT_UPGRADE_RATES: UpgradeRate[] = [
+  { upgrade_type: 'kitchen', label: 'Kitchen', recovery_rate: 0.7, annual_decay: 0.05 },
+  { upgrade_type: 'bathroom', label: 'Bathroom', recovery_rate: 0.6, annual_decay: 0.05 },
+  { upgrade_type: 'extension', label: 'Extension', recovery_rate: 0.8, annual_decay: 0.02 },
+  { upgrade_type: 'loft_conversion', label: 'Loft conversion', recovery_rate: 0.75, annual_decay: 0.02 },
+  { upgrade_type: 'roof', label: 'Roof', recovery_rate: 0.5, annual_decay: 0.04 },
+  { upgrade_type: 'windows', label: 'Windows & doors', recovery_rate: 0.5, annual_decay: 0.05 },
+  { upgrade_type: 'heating', label: 'Heating / boiler', recovery_rate: 0.4, annual_decay: 0.08 },
+  { upgrade_type: 'solar', label: 'Solar / energy', recovery_rate: 0.5, annual_decay: 0.06 },
+  { upgrade_type: 'garden', label: 'Garden & landscaping', recovery_rate: 0.3, annual_decay: 0.05 },
+  { upgrade_type: 'decoration', label: 'Decoration', recovery_rate: 0.2, annual_decay: 0.15 },
+  { upgrade_type: 'other', label: 'Other', recovery_rate: 0.3, annual_decay: 0.05 },
+];
+
+const KEYWORDS: Record<string, string[]> = {
+  kitchen: ['kitchen', 'worktop', 'cabinet'],
+  bathroom: ['bathroom', 'shower', 'en-suite', 'ensuite', 'wc'],
+  extension: ['extension', 'conservatory', 'orangery'],
+  loft_conversion: ['loft', 'dormer'],
+  roof: ['roof', 'gutter', 'chimney'],
+  windows: ['window', 'glazing', 'door'],
+  heating: ['boiler', 'heating', 'radiator', 'heat pump'],
+  solar: ['solar', 'battery', 'insulation', 'ev charger'],
+  garden: ['garden', 'landscap', 'patio', 'decking', 'driveway', 'fence'],
+  decoration: ['paint', 'decorat', 'wallpaper', 'carpet', 'flooring'],
+};
+
+export function upgradeTypeLabel(type: string | null | undefined): string {
+  return (
+    DEFAULT_UPGRADE_RATES.find((r) => r.upgrade_type === type)?.label ??
+    'Other'
+  );
+}
+
+// Guesses a type from free text for upgrades logged before types existed.
+export function inferUpgradeType(text: string | null | undefined): string {
+  const lower = (text || '').toLowerCase();
+  for (const [type, words] of Object.entries(KEYWORDS)) {
+    if (words.some((w) => lower.includes(w))) return type;
+  }
+  return 'other';
+}
@@ -0,0 +1,179 @@
+// lib/valuation/upgrades.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ageInYears } from './depreciation';
+import type { ValuationEstimate, ValuationFactor } from './types';
+import {
+  DEFAULT_UPGRADE_RATES,
+  inferUpgradeType,
+  UpgradeRate,
+  upgradeTypeLabel,
+} from './upgradeTypes';
+
+export type UpgradeContributionItem = {
+  upgrade_id: string;
+  title: string | null;
+  upgrade_type: string;
+  type_inferred: boolean;
+  cost: number;
+  performed_date: string | null;
+  age_years: number;
+  recovery_rate: number;
+  annual_decay: number;
+  value_add: number;
+};
+
+export type UpgradeContribution = {
+  total: number;
+  items: UpgradeContributionItem[];
+  // Upgrades left out because they have no cost or a different currency, or
+  // were done on or before the purchase date (the price already includes
+  // them).
+  skipped: number;
+  // Upgrades left out because they have no date, so there is no telling
+  // whether the purchase price already reflects them.
+  undated: number;
+};
+
+type UpgradeRow = {
+  id: string;
+  title: string | null;
+  description: string | null;
+  upgrade_type: string | null;
+  cost_amount: number | null;
+  cost_currency: string | null;
+  performed_date: string | null;
+};
+
+// What the home's logged improvements add to its value today: each upgrade
+// recovers part of its cost, and that part fades as the upgrade ages. Only
+// upgrades dated after the purchase count; anything earlier is already in
+// the purchase price.
+export async function loadUpgradeContribution(
+  supabase: SupabaseClient,
+  assetId: string,
+  purchaseDate: string,
+  currency: string,
+  now: Date
+): Promise<UpgradeContribution> {
+  const { data: upgrades, error } = await supabase
+    .from('asset_upgrades')
+    .select(
+      'id, title, description, upgrade_type, cost_amount, cost_currency, performed_date'
+    )
+    .eq('asset_id', assetId);
+
+  if (error) throw new Error(error.message);
+
+  const { data: rateRows } = await supabase
+    .from('upgrade_recovery_rates')
+    .select('upgrade_type, label, recovery_rate, annual_decay');
+
+  const rates: Record<string, UpgradeRate> = {};
+  DEFAULT_UPGRADE_RATES.forEach((r) => (rates[r.upgrade_type] = r));
+  (rateRows || []).forEach((r) => {
+    rates[r.upgrade_type] = {
+      ...r,
+      recovery_rate: Number(r.recovery_rate),
+      annual_decay: Number(r.annual_decay),
+    };
+  });
+
+  const items: UpgradeContributionItem[] = [];
+  let skipped = 0;
+  let undated = 0;
+
+  for (const u of (upgrades || []) as UpgradeRow[]) {
+    const cost = u.cost_amount != null ? Number(u.cost_amount) : null;
+    if (cost == null || cost <= 0 || (u.cost_currency || 'GBP') !== currency) {
+      skipped++;
+      continue;
+    }
+    if (!u.performed_date) {
+      undated++;
+      continue;
+    }
+    if (u.performed_date.slice(0, 10) <= purchaseDate.slice(0, 10)) {
+      skipped++;
+      continue;
+    }
+
+    const type =
+      u.upgrade_type || inferUpgradeType(`${u.title ?? ''} ${u.description ?? ''}`);
+    const rate = rates[type] ?? rates.other;
+    const age = ageInYears(u.performed_date, now) ?? 0;
+    const valueAdd =
+      cost * rate.recovery_rate * Math.pow(1 - rate.annual_decay, age);
+
+    items.push({
+      upgrade_id: u.id,
+      title: u.title,
+      upgrade_type: type,
+      type_inferred: !u.upgrade_type,
+      cost,
+      performed_date: u.performed_date,
+      age_years: Number(age.toFixed(2)),
+      recovery_rate: rate.recovery_rate,
+      annual_decay: rate.annual_decay,
+      value_add: Math.round(valueAdd),
+    });
+  }
+
+  return {
+    total: items.reduce((sum, i) => sum + i.value_add, 0),
+    items,
+    skipped,
+    undated,
+  };
+}
+
+// Adds logged upgrades to a provider's value for the home as bought. The
+// range moves with the value, and the breakdown shows the base market value
+// and each upgrade separately.
+export function withUpgradeContribution(
+  estimate: ValuationEstimate,
+  upgrades: UpgradeContribution
+): ValuationEstimate {
+  if (upgrades.items.length === 0 && upgrades.undated === 0) return estimate;
+
+  const upgradeFactors: ValuationFactor[] = upgrades.items.map((u) => ({
+    label: `${u.title || upgradeTypeLabel(u.upgrade_type)} (${upgradeTypeLabel(
+      u.upgrade_type
+    )}${u.performed_date ? `, ${u.performed_date.slice(0, 4)}` : ''})`,
+    value: u.value_add,
+    kind: 'money',
+  }));
+
+  return {
+    ...estimate,
+    value: estimate.value + upgrades.total,
+    low: estimate.low + upgrades.total,
+    high: estimate.high + upgrades.total,
+    summary: `${estimate.summary}${
+      upgrades.items.length > 0
+        ? ` ${upgrades.items.length} upgrade${
+            upgrades.items.length === 1 ? '' : 's'
+          } add the rest.`
+        : ''
+    }${
+      upgrades.undated > 0
+        ? ` ${upgrades.undated} upgrade${
+            upgrades.undated === 1 ? ' has' : 's have'
+          } no date and ${upgrades.undated === 1 ? 'is' : 'are'} not counted.`
+        : ''
+    }`,
+    factors: [
+      ...estimate.factors,
+      { label: 'Base market value', value: estimate.value, kind: 'money' },
+      { label: 'Upgrade contribution', value: upgrades.total, kind: 'money' },
+      ...upgradeFactors,
+    ],
+    inputs: {
+      ...estimate.inputs,
+      base_market_value: estimate.value,
+      upgrade_contribution: upgrades.total,
+      upgrades: upgrades.items,
+      upgrades_skipped: upgrades.skipped,
+      upgrades_undated: upgrades.undated,
+    },
+  };
+}
@@ -0,0 +1,126 @@
+// lib/warranties.ts
+// Warranty cover per asset. Client-safe: the dashboard and asset page work
+// out from these whether something is still covered and for how long.
+import { EXPIRY_WARNING_DAYS } from './documents';
+
+export type WarrantyKind = 'manufacturer' | 'extended' | 'retailer' | 'insurance';
+
+export const WARRANTY_KINDS: { value: WarrantyKind; label: string }[] = [
+  { value: 'manufacturer', label: 'Manufacturer warranty' },
+  { value: 'extended', label: 'Extended warranty' },
+  { value: 'retailer', label: 'Retailer guarantee' },
+  { value: 'insurance', label: 'Breakdown / care plan' },
+];
+
+export function warrantyKindLabel(kind: string | null | undefined): string {
+  return WARRANTY_KINDS.find((k) => k.value === kind)?.label ?? 'Warranty';
+}
+
+export type Warranty = {
+  id: string;
+  asset_id: string;
+  kind: WarrantyKind | null;
+  provider: string | null;
+  starts_on: string; // YYYY-MM-DD
+  length_months: number | null;
+  ends_on: string; // YYYY-MM-DD, last day of cover
+  coverage: string | null;
+  document_id: string | null;
+};
+
+// The dashboard lists warranties that end within this many days.
+export const WARRANTY_EXPIRY_WINDOW_DAYS = EXPIRY_WARNING_DAYS;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toUtcDay(date: string): number {
+  const [y, m, d] = date.slice(0, 10).split('-').map(Number);
+  return Date.UTC(y, m - 1, d);
+}
+
+function todayUtc(today: Date): number {
+  return Date.UTC(today.getFullYear(), today.getMonth(), today.getDate());
+}
+
+// "1 year from 14 March 2024" covers up to and including 13 March 2025.
+// Start days past the end of the final month (31 Jan + 1 month) clamp to it.
+export function warrantyEndDate(startsOn: string, lengthMonths: number): string {
+  const [y, m, d] = startsOn.slice(0, 10).split('-').map(Number);
+  const daysInEndMonth = new Date(
+    Date.UTC(y, m - 1 + lengthMonths + 1, 0)
+  ).getUTCDate();
+  const anniversary = Date.UTC(
+    y,
+    m - 1 + lengthMonths,
+    Math.min(d, daysInEndMonth)
+  );
+  return new Date(anniversary - DAY_MS).toISOString().slice(0, 10);
+}
+
+export type WarrantyCoverage = {
+  state: 'not_started' | 'active' | 'expiring' | 'expired';
+  days_left: number; // through ends_on; negative once expired
+  // Share of the cover period already used, 0–1.
+  elapsed: number;
+};
+
+export function warrantyCoverage(
+  warranty: Pick<Warranty, 'starts_on' | 'ends_on'>,
+  today: Date = new Date()
+): WarrantyCoverage {
+  const start = toUtcDay(warranty.starts_on);
+  const end = toUtcDay(warranty.ends_on);
+  const now = todayUtc(today);
+
+  const daysLeft = Math.round((end - now) / DAY_MS);
+  const total = Math.max(1, end - start + DAY_MS);
+  const elapsed = Math.min(1, Math.max(0, (now - start) / total));
+
+  const state =
+    now < start
+      ? 'not_started'
+      : daysLeft < 0
+      ? 'expired'
+      : daysLeft <= WARRANTY_EXPIRY_WINDOW_DAYS
+      ? 'expiring'
+      : 'active';
+
+  return { state, days_left: daysLeft, elapsed };
+}
+
+export function isCovered(
+  warranty: Pick<Warranty, 'starts_on' | 'ends_on'>,
+  today: Date = new Date()
+): boolean {
+  const { state } = warrantyCoverage(warranty, today);
+  return state === 'active' || state === 'expiring';
+}
+
+// The warranty that covers the asset for longest from today, if any.
+export function currentWarranty<W extends Pick<Warranty, 'starts_on' | 'ends_on'>>(
+  warranties: W[],
+  today: Date = new Date()
+): W | null {
+  return warranties
+    .filter((w) => isCovered(w, today))
+    .reduce<W | null>(
+      (best, w) => (!best || w.ends_on > best.ends_on ? w : best),
+      null
+    );
+}
+
+// "1 year 3 months left", "12 days left".
+export function describeTimeLeft(daysLeft: number): string {
+  if (daysLeft < 0) return 'Expired';
+  if (daysLeft === 0) return 'Last day of cover';
+  if (daysLeft < 60) return `${daysLeft} day${daysLeft === 1 ? '' : 's'} left`;
+
+  const months = Math.floor(daysLeft / 30.44);
+  const years = Math.floor(months / 12);
+  const rest = months % 12;
+  const parts = [
+    years > 0 ? `${years} year${years === 1 ? '' : 's'}` : null,
+    rest > 0 ? `${rest} month${rest === 1 ? '' : 's'}` : null,
+  ].filter(Boolean);
+  return `${parts.join(' ')} left`;
+}
@@ -1,7 +1,9 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // pdf.js, tesseract and the canvas binding load workers, WASM and native
+  // code from disk at runtime; don't bundle them.
+  serverExternalPackages: ["pdfjs-dist", "tesseract.js", "@napi-rs/canvas"],
 };
 
 export default nextConfig;
@@ -0,0 +1,109 @@
+// scripts/checkValuations.ts
+// Checks that the providers which work without a database (depreciation
+// curve, flat rate) don't drift when an asset is revalued: the estimate from
+// one run is stored as the current value, and a second run on the same day
+// must come back with the same number.
+//
+//   npm run check:valuations   exit 1 if any provider drifts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { depreciationProvider } from '@/lib/valuation/providers/depreciation';
+import { flatRateProvider } from '@/lib/valuation/providers/flatRate';
+import type { ValuationAsset, ValuationProvider } from '@/lib/valuation/types';
+
+const NOW = new Date('2026-10-18T09:00:00Z');
+
+// Neither provider reads from the database.
+const NO_DATABASE = {} as SupabaseClient;
+
+const BASE: ValuationAsset = {
+  id: 'check',
+  owner_id: 'check',
+  title: null,
+  brand: null,
+  model_name: null,
+  purchase_price: null,
+  purchase_currency: 'GBP',
+  purchase_date: null,
+  current_estimated_value: null,
+  estimate_currency: null,
+  current_valuation_id: null,
+  city: null,
+  country: null,
+  category_id: null,
+  category_name: null,
+  category_curve: null,
+};
+
+const CASES: { name: string; provider: ValuationProvider; asset: ValuationAsset }[] = [
+  {
+    name: 'home bought 2019',
+    provider: flatRateProvider,
+    asset: {
+      ...BASE,
+      category_name: 'Home',
+      purchase_price: 325000,
+      purchase_date: '2019-06-14',
+    },
+  },
+  {
+    name: 'home bought this year',
+    provider: flatRateProvider,
+    asset: {
+      ...BASE,
+      category_name: 'Property',
+      purchase_price: 480000,
+      purchase_date: '2026-03-01',
+      current_estimated_value: 510000,
+    },
+  },
+  {
+    name: 'laptop bought 2024',
+    provider: depreciationProvider,
+    asset: {
+      ...BASE,
+      category_name: 'Electronics',
+      purchase_price: 1899,
+      purchase_date: '2024-11-29',
+    },
+  },
+];
+
+async function main() {
+  let failures = 0;
+
+  for (const { name, provider, asset } of CASES) {
+    const first = await provider.estimate({ asset, supabase: NO_DATABASE, now: NOW });
+    if (!first) {
+      console.log(`✗ ${name.padEnd(24)} ${provider.id} gave no estimate`);
+      failures += 1;
+      continue;
+    }
+
+    const revalued = {
+      ...asset,
+      current_estimated_value: first.value,
+      estimate_currency: first.currency,
+    };
+    const second = await provider.estimate({
+      asset: revalued,
+      supabase: NO_DATABASE,
+      now: NOW,
+    });
+
+    const ok = second?.value === first.value;
+    if (!ok) failures += 1;
+    console.log(
+      `${ok ? '✓' : '✗'} ${name.padEnd(24)} ${provider.id}: ${first.value} then ${
+        second?.value ?? 'none'
+      }`
+    );
+  }
+
+  console.log(`\n${CASES.length - failures}/${CASES.length} stable`);
+  if (failures > 0) process.exit(1);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
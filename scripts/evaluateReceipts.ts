@@ -0,0 +1,158 @@
+// scripts/evaluateReceipts.ts
+// Measures receipt parsing accuracy against fixtures/receipts without a
+// database: every <name>.json lists the expected fields for <name>.txt
+// (already-extracted text), or a <name>.pdf / .jpg / .png / .eml that goes
+// through the same PDF text, OCR and email stages as uploaded receipts.
+//
+//   npm run eval:receipts               summary per fixture and per field
+//   npm run eval:receipts -- --verbose  also print every mismatch
+//   npm run eval:receipts -- --min=0.9  exit 1 below 90% field accuracy
+import { existsSync, readdirSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import { extractReceiptBytes } from '@/lib/receipts/extractReceipt';
+import { shutdownOcr } from '@/lib/receipts/ocr';
+import { ExtractedReceipt, parseReceiptText } from '@/lib/receipts/parseReceipt';
+
+type Expected = {
+  merchant?: string;
+  date?: string;
+  currency?: string;
+  total?: number;
+  subtotal?: number;
+  vat_amount?: number;
+  vat_rate?: number;
+  item_count?: number;
+};
+
+const FIXTURE_DIR = path.join(process.cwd(), 'fixtures', 'receipts');
+
+function normalise(s: string): string {
+  return s.toLowerCase().replace(/[^a-z0-9à-ÿ]+/g, ' ').trim();
+}
+
+function check(
+  field: keyof Expected,
+  expected: Expected,
+  actual: ExtractedReceipt
+): { ok: boolean; got: unknown } {
+  switch (field) {
+    case 'merchant':
+      return {
+        ok:
+          actual.merchant != null &&
+          normalise(actual.merchant) === normalise(expected.merchant ?? ''),
+        got: actual.merchant,
+      };
+    case 'item_count': {
+      const count = actual.line_items.filter((i) => i.kind === 'item').length;
+      return { ok: count === expected.item_count, got: count };
+    }
+    case 'date':
+    case 'currency':
+      return { ok: actual[field] === expected[field], got: actual[field] };
+    default: {
+      const got = actual[field];
+      return {
+        ok: got != null && Math.abs(got - (expected[field] as number)) < 0.015,
+        got,
+      };
+    }
+  }
+}
+
+const FILE_EXTENSIONS = ['pdf', 'jpg', 'jpeg', 'png', 'webp', 'eml'];
+
+async function loadReceipt(
+  base: string
+): Promise<{ receipt: ExtractedReceipt; note: string } | null> {
+  const txt = path.join(FIXTURE_DIR, `${base}.txt`);
+  if (existsSync(txt)) {
+    return {
+      receipt: parseReceiptText(readFileSync(txt, 'utf8')),
+      note: 'text',
+    };
+  }
+
+  for (const ext of FILE_EXTENSIONS) {
+    const file = path.join(FIXTURE_DIR, `${base}.${ext}`);
+    if (!existsSync(file)) continue;
+    const read = await extractReceiptBytes(new Uint8Array(readFileSync(file)));
+    const note = read.ocr
+      ? `ocr ${read.ocr.confidence}%, turned ${read.ocr.rotation}°, skew ${read.ocr.skew_degrees}°`
+      : read.source;
+    return { receipt: read.result, note };
+  }
+  return null;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const verbose = args.includes('--verbose');
+  const minArg = args.find((a) => a.startsWith('--min='));
+  const min = minArg ? Number(minArg.slice('--min='.length)) : null;
+
+  const perField: Record<string, { ok: number; total: number }> = {};
+  let ok = 0;
+  let total = 0;
+
+  const names = readdirSync(FIXTURE_DIR)
+    .filter((f) => f.endsWith('.json'))
+    .map((f) => f.slice(0, -'.json'.length))
+    .sort();
+
+  for (const name of names) {
+    const expected = JSON.parse(
+      readFileSync(path.join(FIXTURE_DIR, `${name}.json`), 'utf8')
+    ) as Expected;
+    const loaded = await loadReceipt(name);
+    if (loaded == null) {
+      console.warn(`skip ${name}: no receipt file next to the .json`);
+      continue;
+    }
+
+    const actual = loaded.receipt;
+    const misses: string[] = [];
+    let fixtureOk = 0;
+    const fields = Object.keys(expected) as (keyof Expected)[];
+
+    for (const field of fields) {
+      const result = check(field, expected, actual);
+      const bucket = (perField[field] ||= { ok: 0, total: 0 });
+      bucket.total++;
+      total++;
+      if (result.ok) {
+        bucket.ok++;
+        fixtureOk++;
+        ok++;
+      } else {
+        misses.push(
+          `    ${field}: expected ${JSON.stringify(expected[field])}, got ${JSON.stringify(result.got)}`
+        );
+      }
+    }
+
+    console.log(
+      `${fixtureOk === fields.length ? '✓' : '✗'} ${name.padEnd(28)} ${fixtureOk}/${fields.length}  (${loaded.note})`
+    );
+    if (verbose && misses.length > 0) console.log(misses.join('\n'));
+  }
+
+  console.log('\nBy field:');
+  for (const [field, { ok: fOk, total: fTotal }] of Object.entries(perField)) {
+    console.log(
+      `  ${field.padEnd(12)} ${fOk}/${fTotal} (${((fOk / fTotal) * 100).toFixed(0)}%)`
+    );
+  }
+
+  const accuracy = total > 0 ? ok / total : 0;
+  console.log(`\nOverall: ${ok}/${total} fields (${(accuracy * 100).toFixed(1)}%)`);
+
+  await shutdownOcr();
+  if (min != null && accuracy < min) process.exit(1);
+}
+
+main().catch(async (err) => {
+  console.error(err);
+  await shutdownOcr();
+  process.exit(1);
+});
@@ -0,0 +1,31 @@
+-- Per-category depreciation curves used by the valuation engine.
+alter table public.categories
+  add column if not exists depreciation_model text
+    check (depreciation_model in ('straight_line', 'exponential', 'residual_floor')),
+  add column if not exists depreciation_params jsonb not null default '{}'::jsonb;
+
+comment on column public.categories.depreciation_model is
+  'straight_line | exponential | residual_floor – see lib/valuation/depreciation.ts';
+comment on column public.categories.depreciation_params is
+  'Curve parameters, e.g. {"useful_life_years": 5, "salvage_pct": 0.1}';
+
+-- Sensible starting points; tweak per category as data comes in. Names are
+-- matched on whole words (\m … \M) so "Car" doesn't catch "Carpets" and
+-- "Art" doesn't catch "Smart home".
+update public.categories
+set depreciation_model = 'straight_line',
+    depreciation_params = '{"useful_life_years": 5, "salvage_pct": 0.1}'
+where depreciation_model is null
+  and name ~* '\m(electronics?|laptops?|computers?|phones?|smartphones?)\M';
+
+update public.categories
+set depreciation_model = 'exponential',
+    depreciation_params = '{"annual_rate": 0.15}'
+where depreciation_model is null
+  and name ~* '\m(furniture|cars?|vehicles?|appliances?)\M';
+
+update public.categories
+set depreciation_model = 'residual_floor',
+    depreciation_params = '{"annual_rate": 0.08, "floor_pct": 0.6}'
+where depreciation_model is null
+  and name ~* '\m(watch(es)?|jewel(le)?ry|art|artwork|collect[ai]bles?)\M';
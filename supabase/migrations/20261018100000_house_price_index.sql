@@ -0,0 +1,23 @@
+-- Regional house price index, imported from CSV (e.g. the UK HPI full file).
+create table if not exists public.house_price_index (
+  id bigint generated always as identity primary key,
+  series text not null default 'uk_hpi',
+  region_name text not null,
+  region_code text,
+  month date not null,
+  index_value numeric not null,
+  average_price numeric,
+  imported_at timestamptz not null default now(),
+  unique (series, region_name, month)
+);
+
+create index if not exists house_price_index_region_month_idx
+  on public.house_price_index (lower(region_name), month desc);
+
+alter table public.house_price_index enable row level security;
+
+-- Reference data: readable by any signed-in user, written by the service role.
+create policy "house_price_index readable"
+  on public.house_price_index for select
+  to authenticated
+  using (true);
@@ -0,0 +1,23 @@
+-- Run log for the scheduled revaluation job (/api/jobs/revalue).
+create table if not exists public.valuation_job_runs (
+  id uuid primary key default gen_random_uuid(),
+  started_at timestamptz not null default now(),
+  finished_at timestamptz,
+  status text not null default 'running'
+    check (status in ('running', 'completed', 'failed')),
+  max_age_days integer not null,
+  batch_size integer not null,
+  assets_seen integer not null default 0,
+  revalued integer not null default 0,
+  skipped integer not null default 0,
+  failed integer not null default 0,
+  -- [{ asset_id, outcome: 'revalued' | 'skipped' | 'failed', reason }]
+  log jsonb not null default '[]'::jsonb,
+  error text
+);
+
+create index if not exists valuation_job_runs_started_idx
+  on public.valuation_job_runs (started_at desc);
+
+-- Only the service role touches this table.
+alter table public.valuation_job_runs enable row level security;
@@ -0,0 +1,8 @@
+-- Range, confidence and a structured "why this number" for each valuation.
+alter table public.valuations
+  add column if not exists value_low numeric,
+  add column if not exists value_high numeric,
+  add column if not exists confidence numeric
+    check (confidence is null or (confidence >= 0 and confidence <= 1)),
+  -- { summary: string, factors: [{ label, value, kind }] }
+  add column if not exists explanation jsonb;
@@ -0,0 +1,11 @@
+-- Manual and professional valuations, backed by a document in asset_documents.
+alter table public.valuations
+  add column if not exists source_type text not null default 'round'
+    check (source_type in (
+      'round', 'manual', 'surveyor', 'appraisal', 'dealer_quote', 'agent_valuation'
+    )),
+  add column if not exists valuer_name text,
+  -- When the valuer valued the asset; created_at is when it was logged.
+  add column if not exists valuation_date date,
+  add column if not exists document_id uuid
+    references public.asset_documents (id) on delete set null;
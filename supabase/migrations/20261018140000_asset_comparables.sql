@@ -0,0 +1,27 @@
+-- Sold listings for similar items / nearby homes, used by the comparables
+-- valuation provider.
+create table if not exists public.asset_comparables (
+  id uuid primary key default gen_random_uuid(),
+  asset_id uuid not null references public.assets (id) on delete cascade,
+  owner_id uuid not null references auth.users (id) on delete cascade,
+  title text,
+  sold_price numeric not null check (sold_price > 0),
+  currency text not null default 'GBP',
+  sold_date date not null,
+  condition text,
+  -- Listing URL, or an identifier such as an eBay item number / Land Registry ref.
+  source_url text,
+  source_ref text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists asset_comparables_asset_idx
+  on public.asset_comparables (asset_id, sold_date desc);
+
+alter table public.asset_comparables enable row level security;
+
+create policy "asset_comparables owner access"
+  on public.asset_comparables for all
+  to authenticated
+  using (owner_id = auth.uid())
+  with check (owner_id = auth.uid());
@@ -0,0 +1,34 @@
+-- Typed home upgrades and how much of their cost they add to a home's value.
+alter table public.asset_upgrades
+  add column if not exists upgrade_type text;
+
+create table if not exists public.upgrade_recovery_rates (
+  upgrade_type text primary key,
+  label text not null,
+  -- Share of the cost recovered in value when new (0–1).
+  recovery_rate numeric not null check (recovery_rate >= 0 and recovery_rate <= 2),
+  -- Share of the remaining value-add lost each year (0–1).
+  annual_decay numeric not null check (annual_decay >= 0 and annual_decay <= 1)
+);
+
+insert into public.upgrade_recovery_rates (upgrade_type, label, recovery_rate, annual_decay)
+values
+  ('kitchen', 'Kitchen', 0.7, 0.05),
+  ('bathroom', 'Bathroom', 0.6, 0.05),
+  ('extension', 'Extension', 0.8, 0.02),
+  ('loft_conversion', 'Loft conversion', 0.75, 0.02),
+  ('roof', 'Roof', 0.5, 0.04),
+  ('windows', 'Windows & doors', 0.5, 0.05),
+  ('heating', 'Heating / boiler', 0.4, 0.08),
+  ('solar', 'Solar / energy', 0.5, 0.06),
+  ('garden', 'Garden & landscaping', 0.3, 0.05),
+  ('decoration', 'Decoration', 0.2, 0.15),
+  ('other', 'Other', 0.3, 0.05)
+on conflict (upgrade_type) do nothing;
+
+alter table public.upgrade_recovery_rates enable row level security;
+
+create policy "upgrade_recovery_rates readable"
+  on public.upgrade_recovery_rates for select
+  to authenticated
+  using (true);
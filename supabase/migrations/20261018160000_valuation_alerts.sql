@@ -0,0 +1,197 @@
+-- User-defined alert rules, evaluated by a trigger on every new valuation.
+create table if not exists public.valuation_alert_rules (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null references auth.users (id) on delete cascade,
+  -- 'any_asset': each asset on its own; 'asset': one asset; 'portfolio': the total.
+  scope text not null check (scope in ('any_asset', 'asset', 'portfolio')),
+  asset_id uuid references public.assets (id) on delete cascade,
+  -- change_pct: threshold is a percentage; drops_below / rises_above: an amount.
+  condition text not null
+    check (condition in ('change_pct', 'drops_below', 'rises_above')),
+  threshold numeric not null check (threshold > 0),
+  enabled boolean not null default true,
+  created_at timestamptz not null default now(),
+  check ((scope = 'asset') = (asset_id is not null))
+);
+
+create index if not exists valuation_alert_rules_owner_idx
+  on public.valuation_alert_rules (owner_id);
+
+create table if not exists public.valuation_alerts (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null references auth.users (id) on delete cascade,
+  rule_id uuid references public.valuation_alert_rules (id) on delete set null,
+  asset_id uuid references public.assets (id) on delete cascade,
+  valuation_id uuid references public.valuations (id) on delete cascade,
+  scope text not null,
+  condition text not null,
+  threshold numeric not null,
+  previous_value numeric,
+  new_value numeric not null,
+  currency text,
+  change_pct numeric,
+  message text not null,
+  read_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists valuation_alerts_owner_idx
+  on public.valuation_alerts (owner_id, created_at desc);
+
+alter table public.valuation_alert_rules enable row level security;
+alter table public.valuation_alerts enable row level security;
+
+create policy "valuation_alert_rules owner access"
+  on public.valuation_alert_rules for all
+  to authenticated
+  using (owner_id = auth.uid())
+  with check (owner_id = auth.uid());
+
+-- Alerts are only ever created by the trigger below.
+create policy "valuation_alerts owner read"
+  on public.valuation_alerts for select
+  to authenticated
+  using (owner_id = auth.uid());
+
+create policy "valuation_alerts owner update"
+  on public.valuation_alerts for update
+  to authenticated
+  using (owner_id = auth.uid())
+  with check (owner_id = auth.uid());
+
+create policy "valuation_alerts owner delete"
+  on public.valuation_alerts for delete
+  to authenticated
+  using (owner_id = auth.uid());
+
+-- Compares the new valuation with the asset's previous one (and the
+-- portfolio total before/after) against each of the owner's enabled rules.
+-- Threshold rules fire only when the value crosses the line, so repeated
+-- revaluations below it don't raise the same alert again.
+create or replace function public.evaluate_valuation_alerts()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_asset record;
+  v_previous numeric;
+  v_portfolio_before numeric;
+  v_portfolio_after numeric;
+  v_before numeric;
+  v_after numeric;
+  v_pct numeric;
+  v_subject text;
+  v_matched boolean;
+  v_message text;
+  r record;
+begin
+  if new.suggested_value is null then
+    return new;
+  end if;
+
+  select id, owner_id, title, current_estimated_value
+    into v_asset
+    from public.assets
+    where id = new.asset_id;
+
+  if not found then
+    return new;
+  end if;
+
+  select suggested_value
+    into v_previous
+    from public.valuations
+    where asset_id = new.asset_id
+      and id <> new.id
+      and suggested_value is not null
+    order by created_at desc
+    limit 1;
+
+  v_previous := coalesce(v_previous, v_asset.current_estimated_value);
+
+  select coalesce(sum(current_estimated_value), 0)
+    into v_portfolio_before
+    from public.assets
+    where owner_id = v_asset.owner_id;
+
+  v_portfolio_after := v_portfolio_before
+    - coalesce(v_asset.current_estimated_value, 0)
+    + new.suggested_value;
+
+  for r in
+    select *
+      from public.valuation_alert_rules
+      where owner_id = v_asset.owner_id
+        and enabled
+        and (scope <> 'asset' or asset_id = new.asset_id)
+  loop
+    if r.scope = 'portfolio' then
+      v_before := v_portfolio_before;
+      v_after := v_portfolio_after;
+      v_subject := 'Your portfolio';
+    else
+      v_before := v_previous;
+      v_after := new.suggested_value;
+      v_subject := coalesce(v_asset.title, 'An asset');
+    end if;
+
+    v_pct := case
+      when v_before is not null and v_before <> 0
+        then (v_after - v_before) / v_before * 100
+    end;
+
+    v_matched := case r.condition
+      when 'change_pct' then
+        v_pct is not null and abs(v_pct) >= r.threshold
+      when 'drops_below' then
+        v_after < r.threshold and (v_before is null or v_before >= r.threshold)
+      when 'rises_above' then
+        v_after > r.threshold and (v_before is null or v_before <= r.threshold)
+      else false
+    end;
+
+    if v_matched then
+      v_message := case r.condition
+        when 'change_pct' then format(
+          '%s moved %s%s%% (%s → %s).',
+          v_subject,
+          case when v_pct >= 0 then '+' else '' end,
+          round(v_pct, 1),
+          to_char(v_before, 'FM999,999,999,990'),
+          to_char(v_after, 'FM999,999,999,990')
+        )
+        when 'drops_below' then format(
+          '%s dropped below %s (now %s).',
+          v_subject,
+          to_char(r.threshold, 'FM999,999,999,990'),
+          to_char(v_after, 'FM999,999,999,990')
+        )
+        else format(
+          '%s rose above %s (now %s).',
+          v_subject,
+          to_char(r.threshold, 'FM999,999,999,990'),
+          to_char(v_after, 'FM999,999,999,990')
+        )
+      end;
+
+      insert into public.valuation_alerts (
+        owner_id, rule_id, asset_id, valuation_id, scope, condition,
+        threshold, previous_value, new_value, currency, change_pct, message
+      ) values (
+        v_asset.owner_id, r.id, new.asset_id, new.id, r.scope, r.condition,
+        r.threshold, v_before, v_after, new.currency, round(v_pct, 2), v_message
+      );
+    end if;
+  end loop;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists valuations_evaluate_alerts on public.valuations;
+
+create trigger valuations_evaluate_alerts
+  after insert on public.valuations
+  for each row execute function public.evaluate_valuation_alerts();
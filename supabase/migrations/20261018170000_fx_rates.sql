@@ -0,0 +1,31 @@
+-- Latest exchange rates used to convert portfolio totals into one
+-- reporting currency. 1 base_currency = rate quote_currency.
+create table if not exists public.fx_rates (
+  base_currency text not null,
+  quote_currency text not null,
+  rate numeric not null check (rate > 0),
+  as_of date not null default current_date,
+  source text,
+  updated_at timestamptz not null default now(),
+  primary key (base_currency, quote_currency)
+);
+
+alter table public.fx_rates enable row level security;
+
+-- Reference data: readable by any signed-in user, written by the service role.
+create policy "fx_rates readable"
+  on public.fx_rates for select
+  to authenticated
+  using (true);
+
+-- Approximate starting rates so totals work out of the box. Import a CSV
+-- via /api/fx/import to replace them.
+insert into public.fx_rates (base_currency, quote_currency, rate, as_of, source)
+values
+  ('GBP', 'EUR', 1.15, '2026-10-01', 'manual seed'),
+  ('GBP', 'USD', 1.33, '2026-10-01', 'manual seed'),
+  ('GBP', 'CHF', 1.07, '2026-10-01', 'manual seed'),
+  ('GBP', 'CAD', 1.85, '2026-10-01', 'manual seed'),
+  ('GBP', 'AUD', 2.03, '2026-10-01', 'manual seed'),
+  ('GBP', 'JPY', 198, '2026-10-01', 'manual seed')
+on conflict (base_currency, quote_currency) do nothing;
@@ -0,0 +1,16 @@
+-- Per-user display preferences: the currency totals are reported in and the
+-- locale used to format amounts.
+create table if not exists public.user_settings (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  base_currency text not null default 'GBP',
+  locale text not null default 'en-GB',
+  updated_at timestamptz not null default now()
+);
+
+alter table public.user_settings enable row level security;
+
+create policy "user_settings owner access"
+  on public.user_settings for all
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
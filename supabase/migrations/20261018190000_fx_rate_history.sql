@@ -0,0 +1,28 @@
+-- Dated exchange rates, so costs can be converted at the rate on the
+-- purchase date. 1 base_currency = rate quote_currency on rate_date.
+create table if not exists public.fx_rate_history (
+  base_currency text not null,
+  quote_currency text not null,
+  rate_date date not null,
+  rate numeric not null check (rate > 0),
+  source text,
+  imported_at timestamptz not null default now(),
+  primary key (base_currency, quote_currency, rate_date)
+);
+
+create index if not exists fx_rate_history_quote_idx
+  on public.fx_rate_history (quote_currency, rate_date);
+
+alter table public.fx_rate_history enable row level security;
+
+-- Reference data: readable by any signed-in user, written by the service role.
+create policy "fx_rate_history readable"
+  on public.fx_rate_history for select
+  to authenticated
+  using (true);
+
+-- Start the history with the current rates.
+insert into public.fx_rate_history (base_currency, quote_currency, rate_date, rate, source)
+select base_currency, quote_currency, as_of, rate, source
+from public.fx_rates
+on conflict do nothing;
@@ -0,0 +1,7 @@
+-- Receipt recognition now reads the stored PDF instead of echoing the asset.
+-- Keep the text it worked from and why a run failed, so extraction can be
+-- re-run or debugged without downloading the file again.
+alter table public.receipt_ai_jobs
+  add column if not exists raw_text text,
+  add column if not exists error text,
+  add column if not exists parser_version text;
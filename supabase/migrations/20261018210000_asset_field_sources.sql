@@ -0,0 +1,25 @@
+-- Where the merchant on a receipt is kept once the user accepts it.
+alter table public.assets
+  add column if not exists merchant text;
+
+-- Which receipt job supplied each asset field the user accepted from the
+-- review panel. One row per field; re-applying from a newer job replaces it.
+create table if not exists public.asset_field_sources (
+  asset_id uuid not null references public.assets (id) on delete cascade,
+  field text not null,
+  owner_id uuid not null references auth.users (id) on delete cascade,
+  receipt_job_id uuid references public.receipt_ai_jobs (id) on delete set null,
+  -- The value as it was written, so later edits can be told apart.
+  value jsonb,
+  previous_value jsonb,
+  applied_at timestamptz not null default now(),
+  primary key (asset_id, field)
+);
+
+alter table public.asset_field_sources enable row level security;
+
+create policy "asset_field_sources owner access"
+  on public.asset_field_sources for all
+  to authenticated
+  using (owner_id = auth.uid())
+  with check (owner_id = auth.uid());
@@ -0,0 +1,12 @@
+-- Photographed and scanned receipts are read with OCR before parsing.
+-- raw_text holds whatever text the parser saw; text_source says where it came
+-- from ('pdf_text' or 'ocr').
+alter table public.receipt_ai_jobs
+  add column if not exists text_source text,
+  -- Mean tesseract confidence for the page(s), 0–100.
+  add column if not exists ocr_confidence numeric,
+  -- 0–1 per extracted field, from the OCR line each field was read off,
+  -- e.g. {"total": 0.94, "date": 0.71}.
+  add column if not exists field_confidence jsonb,
+  -- Rotation and deskew applied, languages used.
+  add column if not exists ocr_meta jsonb;
@@ -0,0 +1,53 @@
+-- Order emails forwarded to receipts+{token}@<inbox domain> (or uploaded as
+-- .eml) become draft assets: assets.status = 'draft' until the user has
+-- reviewed them, alongside the existing owned / for_sale / sold.
+
+-- One forwarding token per user. Regenerating replaces the row's token, so
+-- old forwarding addresses stop working.
+create table if not exists public.receipt_inbox_tokens (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  token text not null unique
+    default replace(gen_random_uuid()::text, '-', ''),
+  created_at timestamptz not null default now()
+);
+
+alter table public.receipt_inbox_tokens enable row level security;
+
+create policy "receipt_inbox_tokens owner access"
+  on public.receipt_inbox_tokens for all
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- Every email Round received, including ones it could not turn into an asset.
+create table if not exists public.inbound_emails (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null references auth.users (id) on delete cascade,
+  message_id text,
+  from_address text,
+  subject text,
+  sent_at timestamptz,
+  -- Path of the raw .eml in the receipts bucket.
+  storage_path text,
+  asset_id uuid references public.assets (id) on delete set null,
+  receipt_job_id uuid references public.receipt_ai_jobs (id) on delete set null,
+  status text not null check (status in ('created', 'failed')),
+  error text,
+  created_at timestamptz not null default now()
+);
+
+-- Mail relays retry; the same message only ever creates one asset.
+create unique index if not exists inbound_emails_owner_message_idx
+  on public.inbound_emails (owner_id, message_id)
+  where message_id is not null and status = 'created';
+
+create index if not exists inbound_emails_owner_created_idx
+  on public.inbound_emails (owner_id, created_at desc);
+
+alter table public.inbound_emails enable row level security;
+
+create policy "inbound_emails owner access"
+  on public.inbound_emails for all
+  to authenticated
+  using (owner_id = auth.uid())
+  with check (owner_id = auth.uid());
@@ -0,0 +1,31 @@
+-- Receipt reading moves to a queue worked by /api/jobs/receipts. Jobs go
+-- pending → processing → completed, or back to pending with a later
+-- next_attempt_at when a read fails, until max_attempts is reached and the
+-- job is left as failed with the last error.
+alter table public.receipt_ai_jobs
+  add column if not exists attempts integer not null default 0,
+  add column if not exists max_attempts integer not null default 3,
+  add column if not exists next_attempt_at timestamptz not null default now(),
+  -- What a processing job is doing right now: 'downloading' or 'reading'.
+  add column if not exists stage text,
+  add column if not exists started_at timestamptz,
+  add column if not exists finished_at timestamptz;
+
+-- Jobs written before the queue existed finished when they were created.
+update public.receipt_ai_jobs
+  set attempts = 1, finished_at = created_at
+  where finished_at is null and status in ('completed', 'failed');
+
+alter table public.receipt_ai_jobs
+  drop constraint if exists receipt_ai_jobs_status_check;
+
+alter table public.receipt_ai_jobs
+  add constraint receipt_ai_jobs_status_check
+  check (status in ('pending', 'processing', 'completed', 'failed'));
+
+create index if not exists receipt_ai_jobs_queue_idx
+  on public.receipt_ai_jobs (next_attempt_at)
+  where status = 'pending';
+
+create index if not exists receipt_ai_jobs_asset_created_idx
+  on public.receipt_ai_jobs (asset_id, created_at desc);
@@ -0,0 +1,12 @@
+-- One receipt can cover several assets. Each asset split off a receipt keeps
+-- the same receipt_url and remembers which read and which line it came from.
+alter table public.assets
+  add column if not exists receipt_job_id uuid
+    references public.receipt_ai_jobs (id) on delete set null,
+  -- ReceiptLineItem.line within that job's extracted_json.
+  add column if not exists receipt_line integer;
+
+-- Finding every asset that shares a receipt, e.g. when it is replaced.
+create index if not exists assets_owner_receipt_url_idx
+  on public.assets (owner_id, receipt_url)
+  where receipt_url is not null;
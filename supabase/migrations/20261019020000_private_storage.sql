@@ -0,0 +1,56 @@
+-- Receipts and documents hold financial paperwork, surveys and serial-number
+-- photos, so neither bucket is public any more. Rows keep the object path
+-- ({user_id}/…) and the app signs a short-lived URL when a file is opened.
+update storage.buckets
+  set public = false
+  where id in ('receipts', 'documents');
+
+-- Every object lives under its owner's user id.
+create policy "receipts owner access"
+  on storage.objects for all
+  to authenticated
+  using (
+    bucket_id = 'receipts'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  )
+  with check (
+    bucket_id = 'receipts'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+create policy "documents owner access"
+  on storage.objects for all
+  to authenticated
+  using (
+    bucket_id = 'documents'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  )
+  with check (
+    bucket_id = 'documents'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- Old rows hold public URLs like
+--   https://<project>.supabase.co/storage/v1/object/public/receipts/<path>
+-- Keep just <path>. Uploads always used sanitised file names, so the paths
+-- have nothing percent-encoded in them.
+update public.assets
+  set receipt_url = substring(
+    receipt_url
+    from '/storage/v1/object/(?:public|sign|authenticated)/receipts/([^?#]+)'
+  )
+  where receipt_url ~ '/storage/v1/object/(public|sign|authenticated)/receipts/';
+
+update public.receipt_ai_jobs
+  set receipt_url = substring(
+    receipt_url
+    from '/storage/v1/object/(?:public|sign|authenticated)/receipts/([^?#]+)'
+  )
+  where receipt_url ~ '/storage/v1/object/(public|sign|authenticated)/receipts/';
+
+update public.asset_documents
+  set file_url = substring(
+    file_url
+    from '/storage/v1/object/(?:public|sign|authenticated)/documents/([^?#]+)'
+  )
+  where file_url ~ '/storage/v1/object/(public|sign|authenticated)/documents/';
@@ -0,0 +1,43 @@
+-- Typed documents: what a file is, who issued it and when it runs out.
+-- Types match DOCUMENT_TYPES in lib/documents.ts; null means "Other".
+alter table public.asset_documents
+  add column if not exists doc_type text
+    check (doc_type in (
+      'receipt', 'warranty', 'survey', 'certificate', 'manual',
+      'insurance_schedule', 'valuation_report', 'planning_permission'
+    )),
+  add column if not exists issued_on date,
+  add column if not exists expires_on date,
+  add column if not exists issuer text;
+
+alter table public.asset_documents
+  drop constraint if exists asset_documents_dates_check;
+
+alter table public.asset_documents
+  add constraint asset_documents_dates_check
+  check (expires_on is null or issued_on is null or expires_on >= issued_on);
+
+-- Expiry reminders look documents up by owner and date.
+create index if not exists asset_documents_owner_expires_idx
+  on public.asset_documents (owner_id, expires_on)
+  where expires_on is not null;
+
+-- Evidence attached to a logged valuation is a valuation report.
+update public.asset_documents d
+set doc_type = 'valuation_report'
+where d.doc_type is null
+  and exists (select 1 from public.valuations v where v.document_id = d.id);
+
+-- Best guess for the rest from their free-text label.
+update public.asset_documents
+set doc_type = case
+  when notes ~* '(warranty|guarantee|applecare|protection plan)' then 'warranty'
+  when notes ~* '(certificate|gas safe|\mepc\M|\meicr\M|pat test)' then 'certificate'
+  when notes ~* '(insurance|policy schedule)' then 'insurance_schedule'
+  when notes ~* '(survey|homebuyer)' then 'survey'
+  when notes ~* '(valuation|appraisal|dealer quote)' then 'valuation_report'
+  when notes ~* '(planning|building control)' then 'planning_permission'
+  when notes ~* '(receipt|invoice)' then 'receipt'
+  when notes ~* '(manual|brochure|instructions)' then 'manual'
+end
+where doc_type is null and notes is not null;
@@ -0,0 +1,32 @@
+-- Warranty cover per asset: who provides it, when it runs, what it covers
+-- and which uploaded document proves it. ends_on is the last covered day;
+-- when the user gives a length instead, the app works ends_on out from it.
+create table if not exists public.asset_warranties (
+  id uuid primary key default gen_random_uuid(),
+  asset_id uuid not null references public.assets (id) on delete cascade,
+  owner_id uuid not null references auth.users (id) on delete cascade,
+  kind text check (kind in ('manufacturer', 'extended', 'retailer', 'insurance')),
+  provider text,
+  starts_on date not null,
+  length_months integer check (length_months is null or length_months > 0),
+  ends_on date not null,
+  coverage text,
+  document_id uuid references public.asset_documents (id) on delete set null,
+  created_at timestamptz not null default now(),
+  check (ends_on >= starts_on)
+);
+
+create index if not exists asset_warranties_asset_idx
+  on public.asset_warranties (asset_id);
+
+-- The dashboard's "expiring soon" panel.
+create index if not exists asset_warranties_owner_ends_idx
+  on public.asset_warranties (owner_id, ends_on);
+
+alter table public.asset_warranties enable row level security;
+
+create policy "asset_warranties owner access"
+  on public.asset_warranties for all
+  to authenticated
+  using (owner_id = auth.uid())
+  with check (owner_id = auth.uid());
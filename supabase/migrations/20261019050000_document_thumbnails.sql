@@ -0,0 +1,5 @@
+-- First-page thumbnails for the Key documents cards. Made in the browser
+-- the first time a document is shown and stored in the documents bucket at
+-- {user_id}/thumbnails/{document_id}.jpg; this holds that path.
+alter table public.asset_documents
+  add column if not exists thumbnail_url text;
@@ -0,0 +1,72 @@
+-- Deleting an asset takes its upgrades, services, documents, valuations and
+-- receipt reads with it, and deleting an upgrade or service takes its
+-- documents. The original foreign keys (where there were any) had no
+-- ON DELETE action, so rows were left behind or blocked the delete. Files in
+-- storage are removed by the app (lib/assetDeletion.ts) and the orphan
+-- sweeper.
+
+-- Rows whose parent is already gone would fail the new constraints.
+delete from public.asset_documents d
+  where not exists (select 1 from public.assets a where a.id = d.asset_id)
+     or (d.upgrade_id is not null
+         and not exists (select 1 from public.asset_upgrades u where u.id = d.upgrade_id))
+     or (d.service_id is not null
+         and not exists (select 1 from public.asset_services s where s.id = d.service_id));
+delete from public.asset_upgrades u
+  where not exists (select 1 from public.assets a where a.id = u.asset_id);
+delete from public.asset_services s
+  where not exists (select 1 from public.assets a where a.id = s.asset_id);
+delete from public.valuations v
+  where not exists (select 1 from public.assets a where a.id = v.asset_id);
+delete from public.receipt_ai_jobs j
+  where not exists (select 1 from public.assets a where a.id = j.asset_id);
+
+-- Drop whatever the existing constraints are called.
+do $$
+declare
+  fk record;
+begin
+  for fk in
+    select c.conname, c.conrelid::regclass as tbl
+    from pg_constraint c
+    where c.contype = 'f'
+      and c.conrelid in (
+        'public.asset_upgrades'::regclass,
+        'public.asset_services'::regclass,
+        'public.asset_documents'::regclass,
+        'public.valuations'::regclass,
+        'public.receipt_ai_jobs'::regclass
+      )
+      and c.confrelid in (
+        'public.assets'::regclass,
+        'public.asset_upgrades'::regclass,
+        'public.asset_services'::regclass
+      )
+  loop
+    execute format('alter table %s drop constraint %I', fk.tbl, fk.conname);
+  end loop;
+end $$;
+
+alter table public.asset_upgrades
+  add constraint asset_upgrades_asset_id_fkey
+  foreign key (asset_id) references public.assets (id) on delete cascade;
+
+alter table public.asset_services
+  add constraint asset_services_asset_id_fkey
+  foreign key (asset_id) references public.assets (id) on delete cascade;
+
+alter table public.asset_documents
+  add constraint asset_documents_asset_id_fkey
+  foreign key (asset_id) references public.assets (id) on delete cascade,
+  add constraint asset_documents_upgrade_id_fkey
+  foreign key (upgrade_id) references public.asset_upgrades (id) on delete cascade,
+  add constraint asset_documents_service_id_fkey
+  foreign key (service_id) references public.asset_services (id) on delete cascade;
+
+alter table public.valuations
+  add constraint valuations_asset_id_fkey
+  foreign key (asset_id) references public.assets (id) on delete cascade;
+
+alter table public.receipt_ai_jobs
+  add constraint receipt_ai_jobs_asset_id_fkey
+  foreign key (asset_id) references public.assets (id) on delete cascade;
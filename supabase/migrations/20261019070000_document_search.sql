@@ -0,0 +1,165 @@
+-- Full-text search over documents. Each document is indexed with its label,
+-- issuer and type, the upgrade or service it belongs to, and the text read
+-- out of the file after upload (lib/documentText.ts).
+alter table public.asset_documents
+  add column if not exists content_text text,
+  add column if not exists text_status text
+    check (text_status in ('pending', 'indexed', 'unsupported', 'failed')),
+  add column if not exists text_error text,
+  add column if not exists text_indexed_at timestamptz,
+  add column if not exists search_vector tsvector;
+
+create index if not exists asset_documents_search_idx
+  on public.asset_documents using gin (search_vector);
+
+-- Documents still waiting to be read, for /api/jobs/document-text.
+create index if not exists asset_documents_text_pending_idx
+  on public.asset_documents (uploaded_at)
+  where text_status is null or text_status = 'pending';
+
+-- Labels rank above the upgrade/service they hang off, which ranks above
+-- the body text.
+create or replace function public.asset_document_search_vector(
+  d public.asset_documents
+)
+returns tsvector
+language sql
+stable
+set search_path = public
+as $$
+  select
+    setweight(to_tsvector('english', coalesce(d.notes, '')), 'A')
+    || setweight(
+      to_tsvector(
+        'english',
+        concat_ws(
+          ' ',
+          replace(d.doc_type, '_', ' '),
+          d.issuer,
+          (select concat_ws(' ', u.title, u.description, u.provider_name)
+             from asset_upgrades u
+             where u.id = d.upgrade_id),
+          (select concat_ws(' ', s.service_type, s.description, s.provider_name)
+             from asset_services s
+             where s.id = d.service_id)
+        )
+      ),
+      'B'
+    )
+    || setweight(to_tsvector('english', coalesce(d.content_text, '')), 'C')
+$$;
+
+create or replace function public.set_asset_document_search_vector()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  new.search_vector := public.asset_document_search_vector(new);
+  return new;
+end;
+$$;
+
+drop trigger if exists asset_documents_search_vector on public.asset_documents;
+create trigger asset_documents_search_vector
+  before insert or update on public.asset_documents
+  for each row execute function public.set_asset_document_search_vector();
+
+-- Renaming an upgrade or service re-indexes its documents (the update fires
+-- the trigger above).
+create or replace function public.reindex_parent_documents()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if tg_table_name = 'asset_upgrades' then
+    update public.asset_documents set search_vector = null
+      where upgrade_id = new.id;
+  else
+    update public.asset_documents set search_vector = null
+      where service_id = new.id;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists asset_upgrades_reindex_documents on public.asset_upgrades;
+create trigger asset_upgrades_reindex_documents
+  after update of title, description, provider_name on public.asset_upgrades
+  for each row execute function public.reindex_parent_documents();
+
+drop trigger if exists asset_services_reindex_documents on public.asset_services;
+create trigger asset_services_reindex_documents
+  after update of service_type, description, provider_name on public.asset_services
+  for each row execute function public.reindex_parent_documents();
+
+-- Index what is already there; file text follows as the worker reads it.
+update public.asset_documents set search_vector = null;
+
+-- Runs as the caller, so row level security limits results to their own
+-- documents. Snippets mark matches with <mark>…</mark>; the page splits on
+-- those rather than rendering HTML.
+create or replace function public.search_documents(
+  search text,
+  max_results integer default 30
+)
+returns table (
+  document_id uuid,
+  asset_id uuid,
+  asset_title text,
+  upgrade_id uuid,
+  upgrade_title text,
+  service_id uuid,
+  service_type text,
+  label text,
+  doc_type text,
+  uploaded_at timestamptz,
+  rank real,
+  snippet text
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  with q as (
+    select websearch_to_tsquery('english', search) as query
+  )
+  select
+    d.id,
+    d.asset_id,
+    a.title,
+    d.upgrade_id,
+    u.title,
+    d.service_id,
+    s.service_type,
+    d.notes,
+    d.doc_type,
+    d.uploaded_at,
+    ts_rank(d.search_vector, q.query),
+    ts_headline(
+      'english',
+      concat_ws(
+        ' · ',
+        d.notes,
+        d.issuer,
+        u.title,
+        u.description,
+        s.service_type,
+        s.description,
+        d.content_text
+      ),
+      q.query,
+      'StartSel="<mark>", StopSel="</mark>", MaxWords=30, MinWords=12, '
+        || 'MaxFragments=2, FragmentDelimiter=" … "'
+    )
+  from asset_documents d
+  cross join q
+  join assets a on a.id = d.asset_id
+  left join asset_upgrades u on u.id = d.upgrade_id
+  left join asset_services s on s.id = d.service_id
+  where d.search_vector @@ q.query
+  order by ts_rank(d.search_vector, q.query) desc, d.uploaded_at desc
+  limit least(greatest(coalesce(max_results, 30), 1), 100);
+$$;
@@ -0,0 +1,20 @@
+-- Which valuation the current estimate came from. Null when the owner typed
+-- the estimate in by hand. The scheduled revaluation leaves an asset alone
+-- while this points at a manual or professional valuation.
+alter table public.assets
+  add column if not exists current_valuation_id uuid
+    references public.valuations (id) on delete set null;
+
+-- Existing assets: the newest valuation whose value is the current estimate.
+update public.assets a
+set current_valuation_id = (
+  select v.id
+  from public.valuations v
+  where v.asset_id = a.id
+    and v.suggested_value = a.current_estimated_value
+    and (a.estimate_currency is null or v.currency = a.estimate_currency)
+  order by v.created_at desc
+  limit 1
+)
+where a.current_valuation_id is null
+  and a.current_estimated_value is not null;
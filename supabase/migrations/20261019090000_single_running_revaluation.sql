@@ -0,0 +1,18 @@
+-- At most one scheduled revaluation runs at a time. Two overlapping
+-- /api/jobs/revalue calls can't both insert a 'running' row, so the loser
+-- sees a unique violation instead of racing the winner.
+update public.valuation_job_runs
+set status = 'failed',
+    finished_at = now(),
+    error = 'Superseded: another run was already in progress.'
+where status = 'running'
+  and id not in (
+    select id from public.valuation_job_runs
+    where status = 'running'
+    order by started_at desc
+    limit 1
+  );
+
+create unique index if not exists valuation_job_runs_one_running_idx
+  on public.valuation_job_runs ((true))
+  where status = 'running';
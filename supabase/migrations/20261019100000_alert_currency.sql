@@ -0,0 +1,202 @@
+-- Alert thresholds are amounts in a currency, and the portfolio total they
+-- are checked against is summed in that currency rather than across mixed
+-- ones. Existing rules take the owner's base currency.
+alter table public.valuation_alert_rules
+  add column if not exists currency text;
+
+update public.valuation_alert_rules r
+set currency = coalesce(
+  (select s.base_currency from public.user_settings s where s.user_id = r.owner_id),
+  'GBP'
+)
+where r.currency is null;
+
+alter table public.valuation_alert_rules
+  alter column currency set default 'GBP',
+  alter column currency set not null;
+
+-- Converts with fx_rates (1 base = rate quote): directly, inverted, or
+-- through one shared currency. Null when no rate links the two.
+create or replace function public.fx_convert(
+  p_amount numeric,
+  p_from text,
+  p_to text
+)
+returns numeric
+language sql
+stable
+set search_path = public
+as $$
+  select case
+    when p_amount is null then null
+    when upper(p_from) = upper(p_to) then p_amount
+    else p_amount * (
+      select rate
+      from (
+        select r.rate, 1 as hops
+          from fx_rates r
+          where r.base_currency = upper(p_from) and r.quote_currency = upper(p_to)
+        union all
+        select 1 / r.rate, 2
+          from fx_rates r
+          where r.base_currency = upper(p_to) and r.quote_currency = upper(p_from)
+        union all
+        select b.rate / a.rate, 3
+          from fx_rates a
+          join fx_rates b on b.base_currency = a.base_currency
+          where a.quote_currency = upper(p_from) and b.quote_currency = upper(p_to)
+      ) candidates
+      order by hops
+      limit 1
+    )
+  end;
+$$;
+
+-- Same rules as before, but every amount is converted into the rule's
+-- currency first: the asset's previous and new values, and each asset in
+-- the portfolio total. Assets with no rate into that currency are left out
+-- of the total; an asset rule whose value can't be converted is skipped.
+create or replace function public.evaluate_valuation_alerts()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_asset record;
+  v_previous numeric;
+  v_previous_currency text;
+  v_new_currency text;
+  v_portfolio numeric;
+  v_before numeric;
+  v_after numeric;
+  v_pct numeric;
+  v_subject text;
+  v_matched boolean;
+  v_message text;
+  r record;
+begin
+  if new.suggested_value is null then
+    return new;
+  end if;
+
+  select id, owner_id, title, current_estimated_value,
+         coalesce(estimate_currency, purchase_currency, 'GBP') as currency
+    into v_asset
+    from public.assets
+    where id = new.asset_id;
+
+  if not found then
+    return new;
+  end if;
+
+  v_new_currency := coalesce(new.currency, v_asset.currency);
+
+  select suggested_value, coalesce(currency, v_asset.currency)
+    into v_previous, v_previous_currency
+    from public.valuations
+    where asset_id = new.asset_id
+      and id <> new.id
+      and suggested_value is not null
+    order by created_at desc
+    limit 1;
+
+  if v_previous is null then
+    v_previous := v_asset.current_estimated_value;
+    v_previous_currency := v_asset.currency;
+  end if;
+
+  for r in
+    select *
+      from public.valuation_alert_rules
+      where owner_id = v_asset.owner_id
+        and enabled
+        and (scope <> 'asset' or asset_id = new.asset_id)
+  loop
+    if r.scope = 'portfolio' then
+      select coalesce(sum(public.fx_convert(
+               current_estimated_value,
+               coalesce(estimate_currency, purchase_currency, 'GBP'),
+               r.currency
+             )), 0)
+        into v_portfolio
+        from public.assets
+        where owner_id = v_asset.owner_id;
+
+      v_before := v_portfolio;
+      v_after := v_portfolio
+        - coalesce(public.fx_convert(
+            v_asset.current_estimated_value, v_asset.currency, r.currency
+          ), 0)
+        + coalesce(public.fx_convert(
+            new.suggested_value, v_new_currency, r.currency
+          ), 0);
+      v_subject := 'Your portfolio';
+    else
+      v_before := public.fx_convert(v_previous, v_previous_currency, r.currency);
+      v_after := public.fx_convert(new.suggested_value, v_new_currency, r.currency);
+      v_subject := coalesce(v_asset.title, 'An asset');
+    end if;
+
+    if v_after is null then
+      continue;
+    end if;
+
+    v_pct := case
+      when v_before is not null and v_before <> 0
+        then (v_after - v_before) / v_before * 100
+    end;
+
+    v_matched := case r.condition
+      when 'change_pct' then
+        v_pct is not null and abs(v_pct) >= r.threshold
+      when 'drops_below' then
+        v_after < r.threshold and (v_before is null or v_before >= r.threshold)
+      when 'rises_above' then
+        v_after > r.threshold and (v_before is null or v_before <= r.threshold)
+      else false
+    end;
+
+    if v_matched then
+      v_message := case r.condition
+        when 'change_pct' then format(
+          '%s moved %s%s%% (%s %s → %s %s).',
+          v_subject,
+          case when v_pct >= 0 then '+' else '' end,
+          round(v_pct, 1),
+          r.currency,
+          to_char(v_before, 'FM999,999,999,990'),
+          r.currency,
+          to_char(v_after, 'FM999,999,999,990')
+        )
+        when 'drops_below' then format(
+          '%s dropped below %s %s (now %s %s).',
+          v_subject,
+          r.currency,
+          to_char(r.threshold, 'FM999,999,999,990'),
+          r.currency,
+          to_char(v_after, 'FM999,999,999,990')
+        )
+        else format(
+          '%s rose above %s %s (now %s %s).',
+          v_subject,
+          r.currency,
+          to_char(r.threshold, 'FM999,999,999,990'),
+          r.currency,
+          to_char(v_after, 'FM999,999,999,990')
+        )
+      end;
+
+      insert into public.valuation_alerts (
+        owner_id, rule_id, asset_id, valuation_id, scope, condition,
+        threshold, previous_value, new_value, currency, change_pct, message
+      ) values (
+        v_asset.owner_id, r.id, new.asset_id, new.id, r.scope, r.condition,
+        r.threshold, v_before, v_after, r.currency, round(v_pct, 2), v_message
+      );
+    end if;
+  end loop;
+
+  return new;
+end;
+$$;
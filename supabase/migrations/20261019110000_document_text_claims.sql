@@ -0,0 +1,11 @@
+-- A worker claims a document by moving it to 'processing' before reading,
+-- so the upload route and the /api/jobs/document-text worker never read the
+-- same file twice. text_claimed_at lets the worker requeue a claim whose
+-- reader died.
+alter table public.asset_documents
+  drop constraint if exists asset_documents_text_status_check;
+
+alter table public.asset_documents
+  add constraint asset_documents_text_status_check
+    check (text_status in ('pending', 'processing', 'indexed', 'unsupported', 'failed')),
+  add column if not exists text_claimed_at timestamptz;